@@ -0,0 +1,149 @@
+/**
+ * Judge evaluation harness: runs the judge over a labeled benchmark set and reports how well it agrees
+ * with the human scores, so judge prompt, rubric or model changes can be checked for regressions.
+ *
+ *   npm run eval:judge -- <casesDir> [--models gemini-2.5-flash,gpt-5-mini] [--rubric default]
+ *                          [--concurrency 2] [--out report.json] [--baseline report.json] [--max-drop 0.05]
+ *
+ * Each subfolder of casesDir is one case: case.json ({ "prompt", "humanScore" 1-10, "selectAllMode"? }),
+ * original.png (annotated with blue borders, or clean when mask.png is present) and modified.png.
+ * With --baseline the run fails when a model's Spearman correlation drops by more than --max-drop.
+ */
+import { promises as fs } from "fs";
+import { parseArgs } from "util";
+import {
+  evaluateJudgeModel,
+  loadBenchmarkCases,
+  type JudgeEvaluationReport,
+  type ModelEvaluation,
+} from "~/lib/ai/judge/evaluation";
+import { getJudgeRubric } from "~/lib/storage/judge-rubrics";
+import { DEFAULT_JUDGE_MODEL_ID, DEFAULT_JUDGE_RUBRIC_ID, JUDGE_MODEL_IDS } from "~/utils/constants";
+
+const HISTOGRAM_WIDTH = 30;
+
+function formatNumber(value: number | null, digits: number = 3): string {
+  return value === null ? "n/a" : value.toFixed(digits);
+}
+
+function printHistogram(label: string, histogram: number[]) {
+  const max = Math.max(1, ...histogram);
+  console.log(`  ${label}`);
+  histogram.forEach((count, index) => {
+    const bar = "#".repeat(Math.round((count / max) * HISTOGRAM_WIDTH));
+    console.log(`    ${String(index + 1).padStart(2)} | ${bar} ${count || ""}`);
+  });
+}
+
+function printModelEvaluation(evaluation: ModelEvaluation) {
+  console.log(`\n${evaluation.modelId} (rubric: ${evaluation.rubricId})`);
+  console.log(`  Cases: ${evaluation.cases.length}, failed: ${evaluation.failedCases}`);
+  console.log(`  Pearson r: ${formatNumber(evaluation.pearson)}  Spearman rho: ${formatNumber(evaluation.spearman)}`);
+  console.log(
+    `  Mean absolute error: ${formatNumber(evaluation.meanAbsoluteError, 2)}  Mean bias (judge - human): ${formatNumber(evaluation.meanBias, 2)}`
+  );
+  console.log(
+    `  Cost: $${evaluation.totalCost.toFixed(4)} total, $${(evaluation.totalCost / Math.max(1, evaluation.cases.length)).toFixed(5)} per case`
+  );
+  console.log(
+    `  Latency: mean ${evaluation.latencyMs.mean}ms, p50 ${evaluation.latencyMs.p50}ms, p95 ${evaluation.latencyMs.p95}ms`
+  );
+  printHistogram("Judge scores", evaluation.judgeHistogram);
+  printHistogram("Human scores", evaluation.humanHistogram);
+
+  evaluation.cases.filter((c) => c.error).forEach((c) => console.log(`  ! ${c.caseName}: ${c.error}`));
+}
+
+// Models whose Spearman correlation fell by more than maxDrop compared with the baseline report
+function findRegressions(report: JudgeEvaluationReport, baseline: JudgeEvaluationReport, maxDrop: number): string[] {
+  return report.models.flatMap((evaluation) => {
+    const previous = baseline.models.find((model) => model.modelId === evaluation.modelId);
+    if (!previous || previous.spearman === null) {
+      return [];
+    }
+    if (evaluation.spearman === null || previous.spearman - evaluation.spearman > maxDrop) {
+      return [
+        `${evaluation.modelId}: Spearman ${formatNumber(previous.spearman)} -> ${formatNumber(evaluation.spearman)}`,
+      ];
+    }
+    return [];
+  });
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      models: { type: "string", default: DEFAULT_JUDGE_MODEL_ID },
+      rubric: { type: "string", default: DEFAULT_JUDGE_RUBRIC_ID },
+      concurrency: { type: "string", default: "2" },
+      out: { type: "string" },
+      baseline: { type: "string" },
+      "max-drop": { type: "string", default: "0.05" },
+    },
+  });
+
+  const [casesDir] = positionals;
+  if (!casesDir) {
+    throw new Error("Usage: evaluate-judge <casesDir> [--models a,b] [--rubric id] [--out file] [--baseline file]");
+  }
+
+  const modelIds = values.models.split(",").map((modelId) => modelId.trim());
+  const unknownModelId = modelIds.find((modelId) => !JUDGE_MODEL_IDS.includes(modelId));
+  if (unknownModelId) {
+    throw new Error(`Unknown judge model: ${unknownModelId}. Available: ${JUDGE_MODEL_IDS.join(", ")}`);
+  }
+  const rubric = await getJudgeRubric(values.rubric);
+  if (!rubric) {
+    throw new Error(`Unknown judge rubric: ${values.rubric}`);
+  }
+
+  const cases = await loadBenchmarkCases(casesDir);
+  if (cases.length === 0) {
+    throw new Error(`No benchmark cases found in ${casesDir}`);
+  }
+  console.log(`Evaluating ${cases.length} case(s) with ${modelIds.join(", ")}`);
+
+  // Models run one after another so their latencies don't affect each other
+  const models: ModelEvaluation[] = [];
+  for (const modelId of modelIds) {
+    models.push(await evaluateJudgeModel(cases, modelId, { rubric, concurrency: Number(values.concurrency) || 1 }));
+  }
+
+  const report: JudgeEvaluationReport = {
+    casesDir,
+    caseCount: cases.length,
+    models,
+    createdAt: new Date().toISOString(),
+  };
+  models.forEach(printModelEvaluation);
+
+  if (values.out) {
+    await fs.writeFile(values.out, JSON.stringify(report, null, 2));
+    console.log(`\nReport written to ${values.out}`);
+  }
+
+  if (values.baseline) {
+    const baseline: JudgeEvaluationReport = JSON.parse(await fs.readFile(values.baseline, "utf-8"));
+    const regressions = findRegressions(report, baseline, Number(values["max-drop"]));
+    if (regressions.length > 0) {
+      console.error(`\nRegressions against ${values.baseline}:`);
+      regressions.forEach((regression) => console.error(`  ${regression}`));
+      process.exitCode = 1;
+    } else {
+      console.log(`\nNo regressions against ${values.baseline}`);
+    }
+  }
+}
+
+// API keys live in .env, which the dev server loads but a plain script does not
+try {
+  process.loadEnvFile();
+} catch {
+  // No .env file; keys may come from the environment
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
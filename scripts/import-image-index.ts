@@ -0,0 +1,38 @@
+/**
+ * Import index.json files (the image index format used before the metadata store) into the store,
+ * e.g. from a backup or another data directory. data/images/index.json is imported automatically
+ * the first time the app starts, so this is only needed for other files.
+ *
+ *   npm run import:images -- path/to/index.json [more/index.json ...] [--overwrite]
+ *
+ * Images already in the store are skipped unless --overwrite is given. The image files themselves
+ * must be copied into data/images separately.
+ */
+import { promises as fs } from "fs";
+import { parseArgs } from "util";
+import { importImageIndex } from "~/lib/storage/image-metadata-store";
+import type { ImageIndex } from "~/utils/storage";
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      overwrite: { type: "boolean", default: false },
+    },
+  });
+
+  if (positionals.length === 0) {
+    throw new Error("Usage: import-image-index <index.json> [more.json ...] [--overwrite]");
+  }
+
+  for (const indexFile of positionals) {
+    const index: ImageIndex = JSON.parse(await fs.readFile(indexFile, "utf-8"));
+    const { imported, skipped } = await importImageIndex(index, { overwrite: values.overwrite });
+    console.log(`${indexFile}: imported ${imported} image(s), skipped ${skipped} already in the store`);
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
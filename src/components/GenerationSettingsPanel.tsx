@@ -0,0 +1,361 @@
+import { useEffect, useState } from "react";
+import {
+  DEFAULT_JUDGE_RUBRIC_ID,
+  GENERATION_MODEL_SUMMARY,
+  JUDGE_AGGREGATIONS,
+  JUDGE_MODEL_SUMMARY,
+  MAX_AUTO_REFINE_ROUNDS,
+  MAX_LLM_CALLS_PER_RUN,
+  MIN_LLM_CALLS_PER_RUN,
+  calculateTotalImages,
+  type AnnotationTransport,
+  type JudgeAggregation,
+} from "../utils/constants";
+import type { GenerationSettings } from "../hooks/useGenerationSettings";
+import type { JudgeRubric } from "../lib/ai/judge/rubric";
+import { Label } from "./ui/label";
+
+interface GenerationSettingsPanelProps {
+  settings: GenerationSettings;
+  onSettingsChange: (updates: Partial<GenerationSettings>) => void;
+  annotationTransport: AnnotationTransport;
+  onAnnotationTransportChange: (transport: AnnotationTransport) => void;
+  disabled?: boolean;
+}
+
+const IMAGES_PER_RUN_OPTIONS = Array.from({ length: MAX_LLM_CALLS_PER_RUN - MIN_LLM_CALLS_PER_RUN + 1 }, (_, i) =>
+  calculateTotalImages(MIN_LLM_CALLS_PER_RUN + i)
+);
+
+const AUTO_REFINE_ROUND_OPTIONS = Array.from({ length: MAX_AUTO_REFINE_ROUNDS }, (_, i) => i + 1);
+const TARGET_SCORE_OPTIONS = Array.from({ length: 10 }, (_, i) => i + 1);
+
+const JUDGE_AGGREGATION_LABELS: Record<JudgeAggregation, string> = {
+  mean: "Mean",
+  median: "Median",
+  min: "Minimum",
+};
+
+const selectClassName =
+  "h-8 rounded-md border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 px-2 text-xs text-gray-900 dark:text-gray-100 disabled:opacity-50";
+
+export function GenerationSettingsPanel({
+  settings,
+  onSettingsChange,
+  annotationTransport,
+  onAnnotationTransportChange,
+  disabled = false,
+}: GenerationSettingsPanelProps) {
+  const [rubrics, setRubrics] = useState<JudgeRubric[]>([]);
+
+  useEffect(() => {
+    const loadRubrics = async () => {
+      try {
+        const response = await fetch("/api/judge-rubrics");
+        const data = await response.json();
+        setRubrics(data.rubrics || []);
+      } catch (error) {
+        console.error("Failed to load judge rubrics:", error);
+      }
+    };
+    loadRubrics();
+  }, []);
+
+  // Fall back to the built-in rubric when the stored one was deleted
+  useEffect(() => {
+    if (rubrics.length > 0 && !rubrics.some((rubric) => rubric.id === settings.judgeRubricId)) {
+      onSettingsChange({ judgeRubricId: DEFAULT_JUDGE_RUBRIC_ID });
+    }
+  }, [rubrics, settings.judgeRubricId]);
+
+  return (
+    <div className="mt-4 p-3 bg-gray-50 dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
+      <p className="text-xs font-medium text-gray-700 dark:text-gray-300 mb-3">Generation Settings</p>
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="flex flex-col gap-1.5">
+          <Label htmlFor="settings-generation-model" className="text-xs text-gray-600 dark:text-gray-400">
+            Generation model
+          </Label>
+          <select
+            id="settings-generation-model"
+            value={settings.generationModelId}
+            onChange={(e) => onSettingsChange({ generationModelId: e.target.value })}
+            disabled={disabled}
+            className={selectClassName}
+          >
+            {Object.values(GENERATION_MODEL_SUMMARY).map((model) => (
+              <option key={model.id} value={model.id}>
+                {model.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="flex flex-col gap-1.5">
+          <Label htmlFor="settings-judge-model" className="text-xs text-gray-600 dark:text-gray-400">
+            Judge model
+          </Label>
+          <select
+            id="settings-judge-model"
+            value={settings.judgeModelId}
+            onChange={(e) =>
+              onSettingsChange({
+                judgeModelId: e.target.value,
+                // The primary judge can't also be an extra ensemble judge
+                ensembleJudgeModelIds: settings.ensembleJudgeModelIds.filter((modelId) => modelId !== e.target.value),
+              })
+            }
+            disabled={disabled || !settings.useJudges}
+            className={selectClassName}
+          >
+            {Object.values(JUDGE_MODEL_SUMMARY).map((model) => (
+              <option key={model.id} value={model.id}>
+                {model.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="flex flex-col gap-1.5">
+          <Label htmlFor="settings-images-per-run" className="text-xs text-gray-600 dark:text-gray-400">
+            Images per run
+          </Label>
+          <select
+            id="settings-images-per-run"
+            value={settings.imagesPerRun}
+            onChange={(e) => onSettingsChange({ imagesPerRun: Number(e.target.value) })}
+            disabled={disabled}
+            className={selectClassName}
+          >
+            {IMAGES_PER_RUN_OPTIONS.map((count) => (
+              <option key={count} value={count}>
+                {count}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="flex items-center gap-2 h-8">
+          <input
+            type="checkbox"
+            id="settings-use-judges"
+            checked={settings.useJudges}
+            onChange={(e) => onSettingsChange({ useJudges: e.target.checked })}
+            disabled={disabled}
+            className="w-4 h-4 text-blue-600 border-gray-300 dark:border-gray-600 rounded focus:ring-blue-500 dark:focus:ring-blue-400"
+          />
+          <label
+            htmlFor="settings-use-judges"
+            className="text-xs font-medium text-gray-700 dark:text-gray-300 cursor-pointer"
+          >
+            Use Judges
+          </label>
+        </div>
+        <div className="flex items-center gap-2 h-8">
+          <input
+            type="checkbox"
+            id="settings-pairwise-ranking"
+            checked={settings.pairwiseRanking}
+            onChange={(e) => onSettingsChange({ pairwiseRanking: e.target.checked })}
+            disabled={disabled}
+            className="w-4 h-4 text-blue-600 border-gray-300 dark:border-gray-600 rounded focus:ring-blue-500 dark:focus:ring-blue-400"
+          />
+          <label
+            htmlFor="settings-pairwise-ranking"
+            className="text-xs font-medium text-gray-700 dark:text-gray-300 cursor-pointer"
+            title="When a run finishes, compare its generations head-to-head with the judge model and rank them"
+          >
+            Rank Pairwise
+          </label>
+        </div>
+        <div className="flex items-center gap-2 h-8">
+          <input
+            type="checkbox"
+            id="settings-mask-transport"
+            checked={annotationTransport === "mask"}
+            onChange={(e) => onAnnotationTransportChange(e.target.checked ? "mask" : "burned-in")}
+            disabled={disabled}
+            className="w-4 h-4 text-blue-600 border-gray-300 dark:border-gray-600 rounded focus:ring-blue-500 dark:focus:ring-blue-400"
+          />
+          <label
+            htmlFor="settings-mask-transport"
+            className="text-xs font-medium text-gray-700 dark:text-gray-300 cursor-pointer"
+            title="Send the clean image with a separate mask/marker layer instead of drawing borders into it"
+          >
+            Separate Mask
+          </label>
+        </div>
+      </div>
+
+      {settings.useJudges && (
+        <div className="mt-3 pt-3 border-t border-gray-200 dark:border-gray-700 flex flex-wrap items-end gap-4">
+          <div className="flex flex-col gap-1.5">
+            <Label htmlFor="settings-judge-rubric" className="text-xs text-gray-600 dark:text-gray-400">
+              Rubric
+            </Label>
+            <select
+              id="settings-judge-rubric"
+              value={settings.judgeRubricId}
+              onChange={(e) => onSettingsChange({ judgeRubricId: e.target.value })}
+              disabled={disabled || rubrics.length === 0}
+              className={selectClassName}
+              title={rubrics.find((rubric) => rubric.id === settings.judgeRubricId)?.description}
+            >
+              {rubrics.length === 0 && <option value={settings.judgeRubricId}>Default</option>}
+              {rubrics.map((rubric) => (
+                <option key={rubric.id} value={rubric.id}>
+                  {rubric.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex items-center gap-2 h-8">
+            <input
+              type="checkbox"
+              id="settings-judge-region-crops"
+              checked={settings.judgeRegionCrops}
+              onChange={(e) => onSettingsChange({ judgeRegionCrops: e.target.checked })}
+              disabled={disabled}
+              className="w-4 h-4 text-blue-600 border-gray-300 dark:border-gray-600 rounded focus:ring-blue-500 dark:focus:ring-blue-400"
+            />
+            <label
+              htmlFor="settings-judge-region-crops"
+              className="text-xs font-medium text-gray-700 dark:text-gray-300 cursor-pointer"
+              title="Also send the judges full-resolution crops of the selection so small edits show (extra input tokens)"
+            >
+              Full-res Crops
+            </label>
+          </div>
+          <div className="flex flex-col gap-1.5">
+            <span className="text-xs text-gray-600 dark:text-gray-400">Also judge with</span>
+            <div className="flex flex-wrap items-center gap-3 h-8">
+              {Object.values(JUDGE_MODEL_SUMMARY)
+                .filter((model) => model.id !== settings.judgeModelId)
+                .map((model) => (
+                  <div key={model.id} className="flex items-center gap-1.5">
+                    <input
+                      type="checkbox"
+                      id={`settings-ensemble-judge-${model.id}`}
+                      checked={settings.ensembleJudgeModelIds.includes(model.id)}
+                      onChange={(e) =>
+                        onSettingsChange({
+                          ensembleJudgeModelIds: e.target.checked
+                            ? [...settings.ensembleJudgeModelIds, model.id]
+                            : settings.ensembleJudgeModelIds.filter((modelId) => modelId !== model.id),
+                        })
+                      }
+                      disabled={disabled}
+                      className="w-4 h-4 text-blue-600 border-gray-300 dark:border-gray-600 rounded focus:ring-blue-500 dark:focus:ring-blue-400"
+                    />
+                    <label
+                      htmlFor={`settings-ensemble-judge-${model.id}`}
+                      className="text-xs font-medium text-gray-700 dark:text-gray-300 cursor-pointer"
+                    >
+                      {model.name}
+                    </label>
+                  </div>
+                ))}
+            </div>
+          </div>
+          {settings.ensembleJudgeModelIds.length > 0 && (
+            <div className="flex flex-col gap-1.5">
+              <Label htmlFor="settings-judge-aggregation" className="text-xs text-gray-600 dark:text-gray-400">
+                Combined score
+              </Label>
+              <select
+                id="settings-judge-aggregation"
+                value={settings.judgeAggregation}
+                onChange={(e) => onSettingsChange({ judgeAggregation: e.target.value as JudgeAggregation })}
+                disabled={disabled}
+                className={selectClassName}
+              >
+                {JUDGE_AGGREGATIONS.map((aggregation) => (
+                  <option key={aggregation} value={aggregation}>
+                    {JUDGE_AGGREGATION_LABELS[aggregation]}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="mt-3 pt-3 border-t border-gray-200 dark:border-gray-700 flex flex-wrap items-end gap-4">
+        <div className="flex items-center gap-2 h-8">
+          <input
+            type="checkbox"
+            id="settings-auto-refine"
+            checked={settings.autoRefine}
+            onChange={(e) => onSettingsChange({ autoRefine: e.target.checked })}
+            disabled={disabled}
+            className="w-4 h-4 text-blue-600 border-gray-300 dark:border-gray-600 rounded focus:ring-blue-500 dark:focus:ring-blue-400"
+          />
+          <label
+            htmlFor="settings-auto-refine"
+            className="text-xs font-medium text-gray-700 dark:text-gray-300 cursor-pointer"
+            title="Judge each round and regenerate with the best proposed prompt until a stop condition is hit"
+          >
+            Auto-refine
+          </label>
+        </div>
+        {settings.autoRefine && (
+          <>
+            <div className="flex flex-col gap-1.5">
+              <Label htmlFor="settings-auto-refine-rounds" className="text-xs text-gray-600 dark:text-gray-400">
+                Max rounds
+              </Label>
+              <select
+                id="settings-auto-refine-rounds"
+                value={settings.autoRefineRounds}
+                onChange={(e) => onSettingsChange({ autoRefineRounds: Number(e.target.value) })}
+                disabled={disabled}
+                className={selectClassName}
+              >
+                {AUTO_REFINE_ROUND_OPTIONS.map((rounds) => (
+                  <option key={rounds} value={rounds}>
+                    {rounds}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="flex flex-col gap-1.5">
+              <Label htmlFor="settings-auto-refine-target" className="text-xs text-gray-600 dark:text-gray-400">
+                Target score
+              </Label>
+              <select
+                id="settings-auto-refine-target"
+                value={settings.autoRefineTargetScore}
+                onChange={(e) => onSettingsChange({ autoRefineTargetScore: Number(e.target.value) })}
+                disabled={disabled}
+                className={selectClassName}
+              >
+                {TARGET_SCORE_OPTIONS.map((score) => (
+                  <option key={score} value={score}>
+                    {score}/10
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="flex flex-col gap-1.5">
+              <Label htmlFor="settings-auto-refine-budget" className="text-xs text-gray-600 dark:text-gray-400">
+                Budget (USD)
+              </Label>
+              <input
+                id="settings-auto-refine-budget"
+                type="number"
+                min={0}
+                step={0.05}
+                value={settings.autoRefineBudgetUsd}
+                onChange={(e) => {
+                  const budget = Number(e.target.value);
+                  if (Number.isFinite(budget) && budget >= 0) {
+                    onSettingsChange({ autoRefineBudgetUsd: budget });
+                  }
+                }}
+                disabled={disabled}
+                className={`${selectClassName} w-24`}
+              />
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -47,6 +47,7 @@ interface ImageCanvasProps {
 
 export interface ImageCanvasRef {
   getImageWithBorders: (skipBorders?: boolean) => string | null;
+  getAnnotationLayer: () => string | null;
 }
 
 const ImageCanvasComponent = forwardRef<ImageCanvasRef, ImageCanvasProps>(
@@ -199,6 +200,45 @@ const ImageCanvasComponent = forwardRef<ImageCanvasRef, ImageCanvasProps>(
           });
         }
 
+        return tempCanvas.toDataURL("image/png");
+      },
+      // Annotations only, at the image's size: a white-on-black cell mask in grid mode, markers on black in coords mode
+      getAnnotationLayer: () => {
+        if (typeof document === "undefined") return null; // SSR guard
+        if (!image || selectAllMode) return null;
+
+        const tempCanvas = document.createElement("canvas");
+        const tempCtx = tempCanvas.getContext("2d");
+        if (!tempCtx) return null;
+
+        tempCanvas.width = image.width;
+        tempCanvas.height = image.height;
+        tempCtx.fillStyle = "#000000";
+        tempCtx.fillRect(0, 0, image.width, image.height);
+
+        if (annotationMode === "grid") {
+          if (selectedCells.size === 0) return null;
+          const cellW = image.width / gridCols;
+          const cellH = image.height / gridRows;
+          tempCtx.fillStyle = "#ffffff";
+          selectedCells.forEach((cellId) => {
+            const [row, col] = cellId.split("-").map(Number);
+            // Round both edges so adjacent cells meet without anti-aliased seams
+            const x0 = Math.round(col * cellW);
+            const y0 = Math.round(row * cellH);
+            tempCtx.fillRect(x0, y0, Math.round((col + 1) * cellW) - x0, Math.round((row + 1) * cellH) - y0);
+          });
+        } else {
+          if (coordinateMarkers.length === 0) return null;
+          coordinateMarkers.forEach((marker) => {
+            if (marker.type === "point") {
+              drawCoordinateMarker(tempCtx, marker, image.width, image.height);
+            } else {
+              drawCoordinateLine(tempCtx, marker, image.width, image.height);
+            }
+          });
+        }
+
         return tempCanvas.toDataURL("image/png");
       },
     }));
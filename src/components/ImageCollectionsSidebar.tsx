@@ -0,0 +1,146 @@
+import { useState } from "react";
+import { Folder, Images, Pencil, X } from "lucide-react";
+import type { AlbumSummary, TagSummary } from "../lib/storage/image-collections";
+
+interface ImageCollectionsSidebarProps {
+  albums: AlbumSummary[];
+  tags: TagSummary[];
+  selectedAlbum: string | null;
+  selectedTag: string | null;
+  onSelectAlbum: (album: string | null) => void;
+  onSelectTag: (tag: string | null) => void;
+  onChange: () => void; // A tag or album was renamed or deleted; images and collections need reloading
+}
+
+// Album list and tag cloud next to the gallery, with rename and delete for each
+export function ImageCollectionsSidebar({
+  albums,
+  tags,
+  selectedAlbum,
+  selectedTag,
+  onSelectAlbum,
+  onSelectTag,
+  onChange,
+}: ImageCollectionsSidebarProps) {
+  const [error, setError] = useState<string | null>(null);
+
+  const updateCollection = async (kind: "albums" | "tags", name: string, method: "PATCH" | "DELETE") => {
+    const label = kind === "albums" ? "album" : "tag";
+    let body: string | undefined;
+    if (method === "PATCH") {
+      const newName = window.prompt(`Rename ${label} "${name}" to:`, name)?.trim();
+      if (!newName || newName === name) {
+        return;
+      }
+      body = JSON.stringify({ name: newName });
+    } else {
+      const message =
+        kind === "albums"
+          ? `Remove album "${name}"? Its images stay in the gallery.`
+          : `Remove tag "${name}" from all images?`;
+      if (!window.confirm(message)) {
+        return;
+      }
+    }
+
+    setError(null);
+    try {
+      const response = await fetch(`/api/${kind}/${encodeURIComponent(name)}`, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body,
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || `Failed to update ${label}`);
+      }
+
+      // Keep the filter on the renamed collection, or drop it for a deleted one
+      const isSelected = kind === "albums" ? selectedAlbum === name : selectedTag === name;
+      if (isSelected) {
+        (kind === "albums" ? onSelectAlbum : onSelectTag)(data.name);
+      }
+      onChange();
+    } catch (err) {
+      console.error(`Failed to update ${label}:`, err);
+      setError(err instanceof Error ? err.message : `Failed to update ${label}`);
+    }
+  };
+
+  const itemClasses = (isSelected: boolean) =>
+    `flex-1 min-w-0 flex items-center gap-2 px-2 py-1 rounded text-left text-sm transition-colors ${
+      isSelected
+        ? "bg-blue-100 dark:bg-blue-900/40 text-blue-700 dark:text-blue-300"
+        : "text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800"
+    }`;
+
+  const actionButtons = (kind: "albums" | "tags", name: string) => (
+    <div className="hidden group-hover:flex items-center">
+      <button
+        onClick={() => updateCollection(kind, name, "PATCH")}
+        className="p-1 text-gray-500 hover:text-gray-800 dark:hover:text-gray-200"
+        title="Rename"
+      >
+        <Pencil className="w-3 h-3" />
+      </button>
+      <button
+        onClick={() => updateCollection(kind, name, "DELETE")}
+        className="p-1 text-gray-500 hover:text-red-600"
+        title={kind === "albums" ? "Remove album" : "Remove tag"}
+      >
+        <X className="w-3 h-3" />
+      </button>
+    </div>
+  );
+
+  return (
+    <aside className="w-52 shrink-0 space-y-6">
+      <section>
+        <h3 className="text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400 mb-2">Albums</h3>
+        <button onClick={() => onSelectAlbum(null)} className={`w-full ${itemClasses(selectedAlbum === null)}`}>
+          <Images className="w-4 h-4 shrink-0" />
+          All images
+        </button>
+        {albums.map((album) => (
+          <div key={album.name} className="group flex items-center">
+            <button onClick={() => onSelectAlbum(album.name)} className={itemClasses(selectedAlbum === album.name)}>
+              <Folder className="w-4 h-4 shrink-0" />
+              <span className="truncate">{album.name}</span>
+              <span className="ml-auto text-xs text-gray-500 dark:text-gray-400">{album.count}</span>
+            </button>
+            {actionButtons("albums", album.name)}
+          </div>
+        ))}
+        {albums.length === 0 && (
+          <p className="px-2 mt-1 text-xs text-gray-500 dark:text-gray-400">
+            Select images and move them to an album to create one
+          </p>
+        )}
+      </section>
+
+      <section>
+        <h3 className="text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400 mb-2">Tags</h3>
+        {tags.length === 0 ? (
+          <p className="px-2 text-xs text-gray-500 dark:text-gray-400">Select images to tag them</p>
+        ) : (
+          <div className="space-y-0.5">
+            {tags.map((tag) => (
+              <div key={tag.name} className="group flex items-center">
+                <button
+                  onClick={() => onSelectTag(selectedTag === tag.name ? null : tag.name)}
+                  className={itemClasses(selectedTag === tag.name)}
+                >
+                  <span className="truncate">#{tag.name}</span>
+                  <span className="ml-auto text-xs text-gray-500 dark:text-gray-400">{tag.count}</span>
+                </button>
+                {actionButtons("tags", tag.name)}
+              </div>
+            ))}
+          </div>
+        )}
+      </section>
+
+      {error && <div className="text-xs text-red-600 dark:text-red-400">{error}</div>}
+    </aside>
+  );
+}
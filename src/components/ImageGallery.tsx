@@ -1,46 +1,175 @@
-import { useEffect, useState } from "react";
-import { Edit, ChevronLeft, ChevronRight, Trash2, Star } from "lucide-react";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useInfiniteQuery, useQueryClient, type InfiniteData } from "@tanstack/react-query";
+import { Edit, Trash2, Star, StarOff, GitBranch, RotateCcw, Download, Tag, FolderInput } from "lucide-react";
 import type { Image } from "../utils/storage";
+import type { ImageBatchAction } from "../lib/storage/image-batch";
+import type { AlbumSummary, TagSummary } from "../lib/storage/image-collections";
+import type { ImageListPage, ImageSort } from "../lib/storage/image-listing";
+import { ImageCollectionsSidebar } from "./ImageCollectionsSidebar";
 import { ToggleGroup, ToggleGroupItem } from "./ui/toggle-group";
 import { Label } from "./ui/label";
 import { Button } from "./ui/button";
-import { MAX_SELECTED_IMAGES } from "../utils/constants";
+import { Input } from "./ui/input";
+import { MAX_BATCH_IMAGES, MAX_SELECTED_IMAGES } from "../utils/constants";
+import { getThumbnailUrl } from "../utils/thumbnails";
+
+// One metadata change for every selected image (see /api/images/batch)
+type BulkChange =
+  | { action: Exclude<ImageBatchAction, "addTags" | "removeTags" | "moveToAlbum" | "download"> }
+  | { action: "addTags" | "removeTags"; tags: string[] }
+  | { action: "moveToAlbum"; album: string | null };
+
+export type GalleryFilter = "all" | "uploaded" | "generated" | "favorites" | "trash";
+
+// Sorts offered in the gallery; the trash is always listed most recently deleted first
+const IMAGE_SORT_LABELS: Record<Exclude<ImageSort, "deleted">, string> = {
+  created: "Newest",
+  favorited: "Favorited",
+  judgeScore: "Judge score",
+};
+
+const IMAGES_PER_PAGE = 48; // Images fetched per scroll step
+const TRASH_PURGE_BATCH_SIZE = 200; // Trashed images purged per request when emptying the trash (largest list page)
+
+// Query key prefix of every loaded gallery page, for updating or refetching them all
+const IMAGES_QUERY_KEY = ["images"];
+
+async function fetchImagesPage(params: Record<string, string>, cursor: string | null): Promise<ImageListPage> {
+  const searchParams = new URLSearchParams(params);
+  if (cursor) {
+    searchParams.set("cursor", cursor);
+  }
+  const response = await fetch(`/api/list-images?${searchParams}`);
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || "Failed to load images");
+  }
+  return data;
+}
+
+// Start of the day a date input names, in local time, as an ISO timestamp
+function startOfLocalDay(date: string, addDays: number = 0): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(year, month - 1, day + addDays).toISOString();
+}
 
 interface ImageGalleryProps {
   onEditSelected?: (imageIds: string[]) => void;
-  filter?: "all" | "uploaded" | "generated" | "favorites";
-  onFilterChange?: (filter: "all" | "uploaded" | "generated" | "favorites") => void;
+  filter?: GalleryFilter;
+  onFilterChange?: (filter: GalleryFilter) => void;
   refreshKey?: number; // Force refresh when this changes
+  onShowLineage?: (imageId: string) => void;
 }
 
-export function ImageGallery({ onEditSelected, filter = "all", onFilterChange, refreshKey = 0 }: ImageGalleryProps) {
-  const [images, setImages] = useState<Image[]>([]);
-  const [loading, setLoading] = useState(true);
+export function ImageGallery({
+  onEditSelected,
+  filter = "all",
+  onFilterChange,
+  refreshKey = 0,
+  onShowLineage,
+}: ImageGalleryProps) {
+  const queryClient = useQueryClient();
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const [selectMultipleMode, setSelectMultipleMode] = useState(false);
+  const [bulkBusy, setBulkBusy] = useState(false);
+  const [bulkTagInput, setBulkTagInput] = useState("");
+  const [bulkAlbumInput, setBulkAlbumInput] = useState("");
+  const [bulkError, setBulkError] = useState<string | null>(null);
+  const [albums, setAlbums] = useState<AlbumSummary[]>([]);
+  const [tags, setTags] = useState<TagSummary[]>([]);
+  const [selectedAlbum, setSelectedAlbum] = useState<string | null>(null);
+  const [selectedTag, setSelectedTag] = useState<string | null>(null);
+  const [tagSearch, setTagSearch] = useState("");
+  const [sort, setSort] = useState<ImageSort>("created");
+  const [createdFrom, setCreatedFrom] = useState(""); // yyyy-mm-dd from the date inputs
+  const [createdTo, setCreatedTo] = useState("");
   const [imageSize, setImageSize] = useState<"small" | "medium" | "large">("small");
-  const [currentPage, setCurrentPage] = useState(1);
   const [hoveredImageId, setHoveredImageId] = useState<string | null>(null);
-  const itemsPerPage = 36; // Number of images per page
+  const loadMoreRef = useRef<HTMLDivElement>(null);
 
+  const showTrash = filter === "trash";
+
+  // Filters and sort are applied by the server (see /api/list-images); the trash is paged the same way
+  const listParams = useMemo(() => {
+    if (showTrash) {
+      return { limit: String(IMAGES_PER_PAGE), sort: "deleted", deleted: "true" };
+    }
+    const params: Record<string, string> = { limit: String(IMAGES_PER_PAGE), sort };
+    if (filter === "uploaded" || filter === "generated") params.type = filter;
+    if (filter === "favorites") params.favorite = "true";
+    if (selectedAlbum !== null) params.album = selectedAlbum;
+    if (selectedTag !== null) params.tag = selectedTag;
+    if (tagSearch.trim()) params.tagSearch = tagSearch.trim();
+    if (createdFrom) params.from = startOfLocalDay(createdFrom);
+    if (createdTo) params.to = startOfLocalDay(createdTo, 1);
+    return params;
+  }, [showTrash, filter, sort, selectedAlbum, selectedTag, tagSearch, createdFrom, createdTo]);
+
+  const imagesQuery = useInfiniteQuery({
+    queryKey: [...IMAGES_QUERY_KEY, listParams, refreshKey],
+    queryFn: ({ pageParam }) => fetchImagesPage(listParams, pageParam),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+  });
+  const images = useMemo(() => imagesQuery.data?.pages.flatMap((page) => page.images) ?? [], [imagesQuery.data]);
+  const totalImages = imagesQuery.data?.pages[0]?.total ?? 0;
+  const trashRetentionDays = imagesQuery.data?.pages[0]?.retentionDays ?? null;
+  const { hasNextPage, isFetchingNextPage, fetchNextPage } = imagesQuery;
+
+  // Infinite scroll: load the next page when the end of the grid comes into view
   useEffect(() => {
-    loadImages();
-  }, [refreshKey]);
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasNextPage) {
+      return;
+    }
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0]?.isIntersecting && !isFetchingNextPage) {
+          fetchNextPage();
+        }
+      },
+      { rootMargin: "400px" }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
 
-  // Reset to page 1 when filter changes
   useEffect(() => {
-    setCurrentPage(1);
-  }, [filter]);
+    loadCollections();
+  }, [refreshKey]);
+
+  const reloadImages = () => queryClient.invalidateQueries({ queryKey: IMAGES_QUERY_KEY });
+
+  // Show changed images right away in every loaded page (images moved into or out of the trash leave
+  // the list they were in), then refetch, since the change can move images in or out of the current filters and sort
+  const updateLoadedImages = (updated: Image[]) => {
+    const updatedById = new Map(updated.map((img) => [img.id, img]));
+    queryClient.setQueriesData<InfiniteData<ImageListPage>>({ queryKey: IMAGES_QUERY_KEY }, (data) =>
+      data
+        ? {
+            ...data,
+            pages: data.pages.map((page) => ({
+              ...page,
+              images: page.images.flatMap((img) => {
+                const next = updatedById.get(img.id) ?? img;
+                return !!next.deletedAt === !!img.deletedAt ? [next] : [];
+              }),
+            })),
+          }
+        : data
+    );
+    reloadImages();
+  };
 
-  const loadImages = async () => {
+  // Albums and tags for the sidebar; reloaded whenever images are tagged, moved, deleted or restored
+  const loadCollections = async () => {
     try {
-      const response = await fetch("/api/list-images");
-      const data = await response.json();
-      setImages(data.images || []);
+      const [albumsResponse, tagsResponse] = await Promise.all([fetch("/api/albums"), fetch("/api/tags")]);
+      const [albumsData, tagsData] = await Promise.all([albumsResponse.json(), tagsResponse.json()]);
+      setAlbums(albumsData.albums || []);
+      setTags(tagsData.tags || []);
     } catch (error) {
-      console.error("Failed to load images:", error);
-    } finally {
-      setLoading(false);
+      console.error("Failed to load albums and tags:", error);
     }
   };
 
@@ -51,7 +180,8 @@ export function ImageGallery({ onEditSelected, filter = "all", onFilterChange, r
       if (wasSelected) {
         newSet.delete(id);
       } else {
-        if (newSet.size < MAX_SELECTED_IMAGES) {
+        // Select multiple mode allows larger selections for bulk actions; only up to MAX_SELECTED_IMAGES can be edited
+        if (newSet.size < (selectMultipleMode ? MAX_BATCH_IMAGES : MAX_SELECTED_IMAGES)) {
           newSet.add(id);
           // If this is the first image being selected and NOT in select multiple mode, automatically navigate to edit
           if (prev.size === 0 && newSet.size === 1 && onEditSelected && !selectMultipleMode) {
@@ -67,7 +197,7 @@ export function ImageGallery({ onEditSelected, filter = "all", onFilterChange, r
   };
 
   const handleEdit = () => {
-    if (selectedIds.size > 0 && onEditSelected) {
+    if (selectedIds.size > 0 && selectedIds.size <= MAX_SELECTED_IMAGES && onEditSelected) {
       onEditSelected(Array.from(selectedIds));
       // Reset selection mode after navigating
       setSelectMultipleMode(false);
@@ -79,28 +209,73 @@ export function ImageGallery({ onEditSelected, filter = "all", onFilterChange, r
     setSelectMultipleMode((prev) => !prev);
     // Clear selection when toggling mode
     setSelectedIds(new Set());
+    setBulkError(null);
   };
 
-  // Apply filter (deleted images are already filtered by the API)
-  const filteredImages =
-    filter === "all"
-      ? images
-      : filter === "favorites"
-        ? images.filter((img) => img.favoritedAt)
-        : images.filter((img) => img.type === filter);
-
-  // Calculate pagination
-  const totalPages = Math.ceil(filteredImages.length / itemsPerPage);
-  const startIndex = (currentPage - 1) * itemsPerPage;
-  const endIndex = startIndex + itemsPerPage;
-  const paginatedImages = filteredImages.slice(startIndex, endIndex);
-
-  const handlePageChange = (newPage: number) => {
-    setCurrentPage(newPage);
-    // Scroll to top of gallery when page changes
-    window.scrollTo({ top: 0, behavior: "smooth" });
+  const handleBulkChange = async (change: BulkChange) => {
+    setBulkBusy(true);
+    setBulkError(null);
+    try {
+      const response = await fetch("/api/images/batch", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ imageIds: Array.from(selectedIds), ...change }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update images");
+      }
+
+      // Deleted images leave the gallery (and the selection)
+      updateLoadedImages(data.images);
+      if (change.action === "delete") {
+        setSelectedIds(new Set());
+      }
+      if (change.action !== "favorite" && change.action !== "unfavorite") {
+        loadCollections();
+      }
+    } catch (error) {
+      console.error("Failed to update images:", error);
+      setBulkError(error instanceof Error ? error.message : "Failed to update images");
+    } finally {
+      setBulkBusy(false);
+    }
   };
 
+  const handleBulkDownload = async () => {
+    setBulkBusy(true);
+    setBulkError(null);
+    try {
+      const response = await fetch("/api/images/batch", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ imageIds: Array.from(selectedIds), action: "download" }),
+      });
+      if (!response.ok) {
+        throw new Error("Failed to download images");
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = response.headers.get("Content-Disposition")?.match(/filename="([^"]+)"/)?.[1] ?? "images.zip";
+      link.click();
+      // Some browsers start the download after click() returns, so keep the URL alive until then
+      setTimeout(() => URL.revokeObjectURL(url), 0);
+    } catch (error) {
+      console.error("Failed to download images:", error);
+      setBulkError("Failed to download images");
+    } finally {
+      setBulkBusy(false);
+    }
+  };
+
+  // Comma-separated tags from the bulk tag input
+  const bulkTags = bulkTagInput
+    .split(",")
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+
   const handleDeleteImage = async (e: React.MouseEvent, imageId: string) => {
     e.stopPropagation(); // Prevent triggering the image selection
     try {
@@ -117,13 +292,95 @@ export function ImageGallery({ onEditSelected, filter = "all", onFilterChange, r
         throw new Error("Failed to delete image");
       }
 
+      const data = await response.json();
       // Update local state - remove the image from the list
-      setImages((prev) => prev.filter((img) => img.id !== imageId));
+      updateLoadedImages([data.image]);
+      loadCollections();
     } catch (error) {
       console.error("Failed to delete image:", error);
     }
   };
 
+  const handleRestoreImage = async (e: React.MouseEvent, imageId: string) => {
+    e.stopPropagation(); // Prevent triggering the image selection
+    try {
+      const response = await fetch("/api/update-image", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          imageId,
+          deletedAt: null,
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to restore image");
+      }
+
+      const data = await response.json();
+      // Move the image from the trash back into the gallery
+      updateLoadedImages([data.image]);
+      loadCollections();
+    } catch (error) {
+      console.error("Failed to restore image:", error);
+    }
+  };
+
+  // Permanently delete trashed images (files included); resolves with the IDs that were purged
+  const requestPurge = async (imageIds: string[]): Promise<string[]> => {
+    const response = await fetch("/api/purge-images", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ imageIds }),
+    });
+
+    if (!response.ok) {
+      throw new Error("Failed to purge images");
+    }
+
+    const data = await response.json();
+    return data.purgedIds;
+  };
+
+  const purgeImage = async (imageId: string) => {
+    if (!window.confirm("Permanently delete this image? This cannot be undone.")) {
+      return;
+    }
+
+    try {
+      await requestPurge([imageId]);
+      await reloadImages();
+    } catch (error) {
+      console.error("Failed to purge image:", error);
+    }
+  };
+
+  // Purge the whole trash a batch at a time, including pages that haven't been loaded
+  const emptyTrash = async () => {
+    const message =
+      totalImages === 1
+        ? "Permanently delete this image? This cannot be undone."
+        : `Permanently delete ${totalImages} images? This cannot be undone.`;
+    if (totalImages === 0 || !window.confirm(message)) {
+      return;
+    }
+
+    try {
+      const batchParams = { limit: String(TRASH_PURGE_BATCH_SIZE), sort: "deleted", deleted: "true" };
+      for (;;) {
+        const { images: batch } = await fetchImagesPage(batchParams, null);
+        // Stop once the trash is empty, or when nothing in it could be purged
+        if (batch.length === 0 || (await requestPurge(batch.map((img) => img.id))).length === 0) {
+          break;
+        }
+      }
+    } catch (error) {
+      console.error("Failed to empty trash:", error);
+    } finally {
+      await reloadImages();
+    }
+  };
+
   const handleFavoriteImage = async (e: React.MouseEvent, image: Image) => {
     e.stopPropagation(); // Prevent triggering the image selection
     try {
@@ -143,20 +400,16 @@ export function ImageGallery({ onEditSelected, filter = "all", onFilterChange, r
 
       const data = await response.json();
       // Update local state
-      setImages((prev) => prev.map((img) => (img.id === image.id ? data.image : img)));
+      updateLoadedImages([data.image]);
     } catch (error) {
       console.error("Failed to favorite image:", error);
     }
   };
 
-  if (loading) {
+  if (imagesQuery.isPending) {
     return <div className="text-gray-600 dark:text-gray-400">Loading images...</div>;
   }
 
-  if (images.length === 0) {
-    return <div className="text-gray-500 dark:text-gray-400 text-sm">No images found</div>;
-  }
-
   // Determine grid columns and image styling based on size
   const getGridCols = () => {
     switch (imageSize) {
@@ -171,6 +424,18 @@ export function ImageGallery({ onEditSelected, filter = "all", onFilterChange, r
     }
   };
 
+  // Tiles use WebP thumbnails; uncropped images are shown up to full size
+  const getImageSrc = (image: Image) => {
+    switch (imageSize) {
+      case "small":
+        return getThumbnailUrl(image.url, 320);
+      case "medium":
+        return getThumbnailUrl(image.url, 640);
+      default:
+        return image.url;
+    }
+  };
+
   const getImageClasses = () => {
     switch (imageSize) {
       case "small":
@@ -200,232 +465,431 @@ export function ImageGallery({ onEditSelected, filter = "all", onFilterChange, r
   };
 
   return (
-    <div className="space-y-4">
-      {/* Filter UI and Size Toggle */}
-      <div className="flex items-center justify-between gap-4 flex-wrap">
-        <ToggleGroup
-          type="single"
-          value={filter}
-          onValueChange={(value) => {
-            if (value) {
-              onFilterChange?.(value as "all" | "uploaded" | "generated" | "favorites");
-            }
+    <div className="flex gap-6">
+      {!showTrash && (
+        <ImageCollectionsSidebar
+          albums={albums}
+          tags={tags}
+          selectedAlbum={selectedAlbum}
+          selectedTag={selectedTag}
+          onSelectAlbum={setSelectedAlbum}
+          onSelectTag={setSelectedTag}
+          onChange={() => {
+            reloadImages();
+            loadCollections();
           }}
-          variant="outline"
-          size="sm"
-          spacing={0}
-        >
-          <ToggleGroupItem value="all" aria-label="All">
-            All
-          </ToggleGroupItem>
-          <ToggleGroupItem value="uploaded" aria-label="Uploaded">
-            Uploaded
-          </ToggleGroupItem>
-          <ToggleGroupItem value="generated" aria-label="Generated">
-            Generated
-          </ToggleGroupItem>
-          <ToggleGroupItem value="favorites" aria-label="Favorites">
-            Favorites
-          </ToggleGroupItem>
-        </ToggleGroup>
-        <div className="flex items-center gap-4">
-          <div className="flex items-center gap-3">
-            <Label className="text-sm text-gray-700 dark:text-gray-300">Size:</Label>
-            <ToggleGroup
-              type="single"
-              value={imageSize}
-              onValueChange={(value) => {
-                if (value) {
-                  setImageSize(value as "small" | "medium" | "large");
-                }
-              }}
-              variant="outline"
-              size="sm"
-              spacing={0}
-            >
-              <ToggleGroupItem value="small" aria-label="Small">
-                Small
-              </ToggleGroupItem>
-              <ToggleGroupItem value="medium" aria-label="Medium">
-                Med
-              </ToggleGroupItem>
-              <ToggleGroupItem value="large" aria-label="Uncropped">
-                Uncropped
-              </ToggleGroupItem>
-            </ToggleGroup>
-          </div>
-          <button
-            onClick={handleSelectMultipleToggle}
-            className={`px-3 py-1.5 text-sm rounded-lg transition-colors ${
-              selectMultipleMode
-                ? "bg-blue-600 text-white"
-                : "bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700"
-            }`}
+        />
+      )}
+      <div className="flex-1 min-w-0 space-y-4">
+        {/* Filter UI and Size Toggle */}
+        <div className="flex items-center justify-between gap-4 flex-wrap">
+          <ToggleGroup
+            type="single"
+            value={filter}
+            onValueChange={(value) => {
+              if (value) {
+                onFilterChange?.(value as GalleryFilter);
+              }
+            }}
+            variant="outline"
+            size="sm"
+            spacing={0}
           >
-            Select Multiple
-          </button>
+            <ToggleGroupItem value="all" aria-label="All">
+              All
+            </ToggleGroupItem>
+            <ToggleGroupItem value="uploaded" aria-label="Uploaded">
+              Uploaded
+            </ToggleGroupItem>
+            <ToggleGroupItem value="generated" aria-label="Generated">
+              Generated
+            </ToggleGroupItem>
+            <ToggleGroupItem value="favorites" aria-label="Favorites">
+              Favorites
+            </ToggleGroupItem>
+            <ToggleGroupItem value="trash" aria-label="Trash">
+              Trash
+            </ToggleGroupItem>
+          </ToggleGroup>
+          {!showTrash && (
+            <div className="flex items-center gap-2 flex-wrap">
+              <Input
+                value={tagSearch}
+                onChange={(e) => setTagSearch(e.target.value)}
+                placeholder="Search tags"
+                className="h-8 w-44"
+              />
+              <select
+                value={sort}
+                onChange={(e) => setSort(e.target.value as ImageSort)}
+                aria-label="Sort by"
+                className="h-8 rounded-md border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 px-2 text-sm text-gray-900 dark:text-gray-100"
+              >
+                {Object.entries(IMAGE_SORT_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+              <Input
+                type="date"
+                value={createdFrom}
+                onChange={(e) => setCreatedFrom(e.target.value)}
+                aria-label="Created from"
+                title="Created from"
+                className="h-8 w-36"
+              />
+              <Input
+                type="date"
+                value={createdTo}
+                onChange={(e) => setCreatedTo(e.target.value)}
+                aria-label="Created until"
+                title="Created until"
+                className="h-8 w-36"
+              />
+            </div>
+          )}
+          <div className="flex items-center gap-4">
+            <div className="flex items-center gap-3">
+              <Label className="text-sm text-gray-700 dark:text-gray-300">Size:</Label>
+              <ToggleGroup
+                type="single"
+                value={imageSize}
+                onValueChange={(value) => {
+                  if (value) {
+                    setImageSize(value as "small" | "medium" | "large");
+                  }
+                }}
+                variant="outline"
+                size="sm"
+                spacing={0}
+              >
+                <ToggleGroupItem value="small" aria-label="Small">
+                  Small
+                </ToggleGroupItem>
+                <ToggleGroupItem value="medium" aria-label="Medium">
+                  Med
+                </ToggleGroupItem>
+                <ToggleGroupItem value="large" aria-label="Uncropped">
+                  Uncropped
+                </ToggleGroupItem>
+              </ToggleGroup>
+            </div>
+            {showTrash ? (
+              <button
+                onClick={emptyTrash}
+                disabled={totalImages === 0}
+                className="px-3 py-1.5 text-sm rounded-lg transition-colors bg-red-600 text-white hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Empty Trash
+              </button>
+            ) : (
+              <button
+                onClick={handleSelectMultipleToggle}
+                className={`px-3 py-1.5 text-sm rounded-lg transition-colors ${
+                  selectMultipleMode
+                    ? "bg-blue-600 text-white"
+                    : "bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700"
+                }`}
+              >
+                Select Multiple
+              </button>
+            )}
+          </div>
         </div>
-      </div>
 
-      {/* Helper message and Edit Button - shown when in select multiple mode */}
-      {selectMultipleMode && (
-        <div className="flex items-center justify-between">
+        {showTrash && (
           <div className="text-sm text-gray-600 dark:text-gray-400">
-            {selectedIds.size === 0
-              ? `Select up to ${MAX_SELECTED_IMAGES} images to edit`
-              : selectedIds.size < MAX_SELECTED_IMAGES
-                ? `Select ${MAX_SELECTED_IMAGES - selectedIds.size} more image${MAX_SELECTED_IMAGES - selectedIds.size > 1 ? "s" : ""} (up to ${MAX_SELECTED_IMAGES} total)`
-                : `${MAX_SELECTED_IMAGES} images selected`}
+            {trashRetentionDays === null
+              ? "Deleted images stay in the trash until you delete them forever."
+              : `Deleted images are permanently removed after ${trashRetentionDays} day${trashRetentionDays === 1 ? "" : "s"} in the trash.`}
           </div>
-          {selectedIds.size > 0 && (
-            <button
-              onClick={handleEdit}
-              className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 transition-colors flex items-center gap-2"
-            >
-              <Edit className="w-4 h-4" />
-              Edit {selectedIds.size} image{selectedIds.size > 1 ? "s" : ""}
-            </button>
-          )}
-        </div>
-      )}
+        )}
 
-      {/* Image Grid */}
-      {filteredImages.length === 0 ? (
-        <div className="text-gray-500 dark:text-gray-400 text-sm">
-          No {filter === "all" ? "" : filter === "favorites" ? "favorite " : filter + " "}images found
-        </div>
-      ) : (
-        <>
-          <div className={`grid ${getGridCols()} gap-4`}>
-            {paginatedImages.map((image) => {
-              const isSelected = selectedIds.has(image.id);
-              const canSelect = selectMultipleMode || selectedIds.size === 0;
-              return (
-                <div
-                  key={image.id}
-                  className="relative"
-                  onMouseEnter={() => setHoveredImageId(image.id)}
-                  onMouseLeave={() => setHoveredImageId(null)}
+        {/* Helper message, Edit Button and bulk actions - shown when in select multiple mode */}
+        {selectMultipleMode && !showTrash && (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <div className="text-sm text-gray-600 dark:text-gray-400">
+                {selectedIds.size === 0
+                  ? `Select images to edit (up to ${MAX_SELECTED_IMAGES}) or to change together (up to ${MAX_BATCH_IMAGES})`
+                  : selectedIds.size <= MAX_SELECTED_IMAGES
+                    ? `${selectedIds.size} image${selectedIds.size > 1 ? "s" : ""} selected`
+                    : `${selectedIds.size} images selected (edit up to ${MAX_SELECTED_IMAGES} at a time)`}
+                <button
+                  onClick={() =>
+                    setSelectedIds(new Set([...selectedIds, ...images.map((img) => img.id)].slice(0, MAX_BATCH_IMAGES)))
+                  }
+                  className="ml-3 text-blue-600 dark:text-blue-400 hover:underline"
                 >
+                  Select loaded
+                </button>
+                {selectedIds.size > 0 && (
                   <button
-                    onClick={() => {
-                      if (selectMultipleMode || selectedIds.size === 0) {
-                        toggleSelection(image.id);
-                      }
-                    }}
-                    className={getContainerClasses(isSelected, canSelect)}
+                    onClick={() => setSelectedIds(new Set())}
+                    className="ml-3 text-blue-600 dark:text-blue-400 hover:underline"
                   >
-                    <img src={image.url} alt={image.filename} className={getImageClasses()} />
-                    {/* Type Badge */}
-                    <div className="absolute top-2 right-2">
-                      <div
-                        className={`px-2 py-0.5 text-xs font-semibold rounded ${
-                          image.type === "uploaded" ? "bg-green-500 text-white" : "bg-purple-500 text-white"
-                        }`}
-                      >
-                        {image.type === "uploaded" ? "U" : "G"}
-                      </div>
-                    </div>
-                    {/* Selection Checkmark */}
-                    {isSelected && (
-                      <div className="absolute top-2 left-2">
-                        <div className="w-6 h-6 bg-blue-500 rounded-full flex items-center justify-center">
-                          <svg className="w-4 h-4 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
-                          </svg>
-                        </div>
-                      </div>
-                    )}
-                    {/* Hover Buttons */}
-                    {hoveredImageId === image.id && (
-                      <div className="absolute inset-0 bg-black bg-opacity-40 flex items-center justify-center gap-3 rounded-lg">
-                        <button
-                          onClick={(e) => handleDeleteImage(e, image.id)}
-                          className="p-2 bg-red-600 hover:bg-red-700 text-white rounded-full transition-colors"
-                          title="Delete"
-                        >
-                          <Trash2 className="w-5 h-5" />
-                        </button>
-                        <button
-                          onClick={(e) => handleFavoriteImage(e, image)}
-                          className={`p-2 rounded-full transition-colors ${
-                            image.favoritedAt
-                              ? "bg-yellow-500 hover:bg-yellow-600 text-white"
-                              : "bg-gray-700 hover:bg-gray-600 text-white"
-                          }`}
-                          title={image.favoritedAt ? "Unfavorite" : "Favorite"}
-                        >
-                          <Star className={`w-5 h-5 ${image.favoritedAt ? "fill-current" : ""}`} />
-                        </button>
-                      </div>
-                    )}
+                    Clear
                   </button>
+                )}
+              </div>
+              {selectedIds.size > 0 && selectedIds.size <= MAX_SELECTED_IMAGES && (
+                <button
+                  onClick={handleEdit}
+                  className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 transition-colors flex items-center gap-2"
+                >
+                  <Edit className="w-4 h-4" />
+                  Edit {selectedIds.size} image{selectedIds.size > 1 ? "s" : ""}
+                </button>
+              )}
+            </div>
+            {selectedIds.size > 0 && (
+              <div className="flex items-center gap-2 flex-wrap">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={bulkBusy}
+                  onClick={() => handleBulkChange({ action: "favorite" })}
+                >
+                  <Star className="w-4 h-4" />
+                  Favorite
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={bulkBusy}
+                  onClick={() => handleBulkChange({ action: "unfavorite" })}
+                >
+                  <StarOff className="w-4 h-4" />
+                  Unfavorite
+                </Button>
+                <Button variant="outline" size="sm" disabled={bulkBusy} onClick={handleBulkDownload}>
+                  <Download className="w-4 h-4" />
+                  Download ZIP
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={bulkBusy}
+                  onClick={() => handleBulkChange({ action: "delete" })}
+                  className="text-red-600 dark:text-red-400"
+                >
+                  <Trash2 className="w-4 h-4" />
+                  Delete
+                </Button>
+                <div className="flex items-center gap-1">
+                  <Input
+                    value={bulkTagInput}
+                    onChange={(e) => setBulkTagInput(e.target.value)}
+                    placeholder="tag, another tag"
+                    className="h-8 w-40"
+                  />
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={bulkBusy || bulkTags.length === 0}
+                    onClick={() => handleBulkChange({ action: "addTags", tags: bulkTags })}
+                  >
+                    <Tag className="w-4 h-4" />
+                    Add tag
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={bulkBusy || bulkTags.length === 0}
+                    onClick={() => handleBulkChange({ action: "removeTags", tags: bulkTags })}
+                  >
+                    Remove tag
+                  </Button>
+                </div>
+                <div className="flex items-center gap-1">
+                  <Input
+                    value={bulkAlbumInput}
+                    onChange={(e) => setBulkAlbumInput(e.target.value)}
+                    placeholder="Album"
+                    list="gallery-album-names"
+                    className="h-8 w-40"
+                  />
+                  <datalist id="gallery-album-names">
+                    {albums.map((album) => (
+                      <option key={album.name} value={album.name} />
+                    ))}
+                  </datalist>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={bulkBusy || !bulkAlbumInput.trim()}
+                    onClick={() => handleBulkChange({ action: "moveToAlbum", album: bulkAlbumInput.trim() })}
+                  >
+                    <FolderInput className="w-4 h-4" />
+                    Move to album
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={bulkBusy}
+                    onClick={() => handleBulkChange({ action: "moveToAlbum", album: null })}
+                  >
+                    Remove from album
+                  </Button>
                 </div>
-              );
-            })}
-          </div>
-
-          {/* Pagination Controls */}
-          {totalPages > 1 && (
-            <div className="flex items-center justify-center gap-2 mt-6">
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={() => handlePageChange(currentPage - 1)}
-                disabled={currentPage === 1}
-                className="flex items-center gap-1"
-              >
-                <ChevronLeft className="w-4 h-4" />
-                Previous
-              </Button>
-
-              <div className="flex items-center gap-1">
-                {Array.from({ length: totalPages }, (_, i) => i + 1).map((page) => {
-                  // Show first page, last page, current page, and pages around current
-                  if (page === 1 || page === totalPages || (page >= currentPage - 1 && page <= currentPage + 1)) {
-                    return (
-                      <Button
-                        key={page}
-                        variant={currentPage === page ? "default" : "outline"}
-                        size="sm"
-                        onClick={() => handlePageChange(page)}
-                        className="min-w-10"
-                      >
-                        {page}
-                      </Button>
-                    );
-                  } else if (page === currentPage - 2 || page === currentPage + 2) {
-                    return (
-                      <span key={page} className="px-2 text-gray-500 dark:text-gray-400">
-                        ...
-                      </span>
-                    );
-                  }
-                  return null;
-                })}
               </div>
+            )}
+            {bulkError && <div className="text-sm text-red-600 dark:text-red-400">{bulkError}</div>}
+          </div>
+        )}
 
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={() => handlePageChange(currentPage + 1)}
-                disabled={currentPage === totalPages}
-                className="flex items-center gap-1"
-              >
-                Next
-                <ChevronRight className="w-4 h-4" />
-              </Button>
+        {/* Image Grid */}
+        {imagesQuery.isError ? (
+          <div className="text-sm text-red-600 dark:text-red-400">{imagesQuery.error.message}</div>
+        ) : images.length === 0 ? (
+          <div className="text-gray-500 dark:text-gray-400 text-sm">
+            {showTrash
+              ? "Trash is empty"
+              : `No ${filter === "all" ? "" : filter === "favorites" ? "favorite " : filter + " "}images found${
+                  selectedAlbum !== null ? ` in ${selectedAlbum}` : ""
+                }${selectedTag !== null ? ` tagged #${selectedTag}` : ""}`}
+          </div>
+        ) : (
+          <>
+            <div className={`grid ${getGridCols()} gap-4`}>
+              {images.map((image) => {
+                const isSelected = selectedIds.has(image.id);
+                const canSelect = !showTrash && (selectMultipleMode || selectedIds.size === 0);
+                return (
+                  <div
+                    key={image.id}
+                    className="relative"
+                    onMouseEnter={() => setHoveredImageId(image.id)}
+                    onMouseLeave={() => setHoveredImageId(null)}
+                  >
+                    <button
+                      onClick={() => {
+                        if (canSelect) {
+                          toggleSelection(image.id);
+                        }
+                      }}
+                      className={getContainerClasses(isSelected, canSelect || showTrash)}
+                    >
+                      <img src={getImageSrc(image)} alt={image.filename} className={getImageClasses()} />
+                      {/* Type Badge */}
+                      <div className="absolute top-2 right-2">
+                        <div
+                          className={`px-2 py-0.5 text-xs font-semibold rounded ${
+                            image.type === "uploaded" ? "bg-green-500 text-white" : "bg-purple-500 text-white"
+                          }`}
+                        >
+                          {image.type === "uploaded" ? "U" : "G"}
+                        </div>
+                      </div>
+                      {/* Tag Chips */}
+                      {!!image.tags?.length && (
+                        <div className="absolute bottom-2 left-2 right-2 flex flex-wrap gap-1 pointer-events-none">
+                          {image.tags.slice(0, 3).map((tag) => (
+                            <span
+                              key={tag}
+                              className="px-1.5 py-0.5 text-[10px] rounded bg-black/60 text-white truncate max-w-full"
+                            >
+                              #{tag}
+                            </span>
+                          ))}
+                          {image.tags.length > 3 && (
+                            <span className="px-1.5 py-0.5 text-[10px] rounded bg-black/60 text-white">
+                              +{image.tags.length - 3}
+                            </span>
+                          )}
+                        </div>
+                      )}
+                      {/* Selection Checkmark */}
+                      {isSelected && (
+                        <div className="absolute top-2 left-2">
+                          <div className="w-6 h-6 bg-blue-500 rounded-full flex items-center justify-center">
+                            <svg className="w-4 h-4 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+                            </svg>
+                          </div>
+                        </div>
+                      )}
+                      {/* Hover Buttons (trash) */}
+                      {hoveredImageId === image.id && showTrash && (
+                        <div className="absolute inset-0 bg-black bg-opacity-40 flex items-center justify-center gap-3 rounded-lg">
+                          <button
+                            onClick={(e) => handleRestoreImage(e, image.id)}
+                            className="p-2 bg-gray-700 hover:bg-gray-600 text-white rounded-full transition-colors"
+                            title="Restore"
+                          >
+                            <RotateCcw className="w-5 h-5" />
+                          </button>
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation(); // Prevent triggering the image selection
+                              purgeImage(image.id);
+                            }}
+                            className="p-2 bg-red-600 hover:bg-red-700 text-white rounded-full transition-colors"
+                            title="Delete forever"
+                          >
+                            <Trash2 className="w-5 h-5" />
+                          </button>
+                        </div>
+                      )}
+                      {/* Hover Buttons */}
+                      {hoveredImageId === image.id && !showTrash && (
+                        <div className="absolute inset-0 bg-black bg-opacity-40 flex items-center justify-center gap-3 rounded-lg">
+                          <button
+                            onClick={(e) => handleDeleteImage(e, image.id)}
+                            className="p-2 bg-red-600 hover:bg-red-700 text-white rounded-full transition-colors"
+                            title="Delete"
+                          >
+                            <Trash2 className="w-5 h-5" />
+                          </button>
+                          <button
+                            onClick={(e) => handleFavoriteImage(e, image)}
+                            className={`p-2 rounded-full transition-colors ${
+                              image.favoritedAt
+                                ? "bg-yellow-500 hover:bg-yellow-600 text-white"
+                                : "bg-gray-700 hover:bg-gray-600 text-white"
+                            }`}
+                            title={image.favoritedAt ? "Unfavorite" : "Favorite"}
+                          >
+                            <Star className={`w-5 h-5 ${image.favoritedAt ? "fill-current" : ""}`} />
+                          </button>
+                          {onShowLineage && (
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation(); // Prevent triggering the image selection
+                                onShowLineage(image.id);
+                              }}
+                              className="p-2 bg-gray-700 hover:bg-gray-600 text-white rounded-full transition-colors"
+                              title="Lineage"
+                            >
+                              <GitBranch className="w-5 h-5" />
+                            </button>
+                          )}
+                        </div>
+                      )}
+                    </button>
+                  </div>
+                );
+              })}
             </div>
-          )}
 
-          {/* Pagination Info */}
-          {filteredImages.length > 0 && (
-            <div className="text-center text-sm text-gray-600 dark:text-gray-400 mt-2">
-              Showing {startIndex + 1}-{Math.min(endIndex, filteredImages.length)} of {filteredImages.length} images
-            </div>
-          )}
-        </>
-      )}
+            {/* Infinite scroll: more images load as this comes into view */}
+            <div ref={loadMoreRef} />
+            {isFetchingNextPage && (
+              <div className="text-center text-sm text-gray-600 dark:text-gray-400">Loading more images...</div>
+            )}
+
+            {/* Count Info */}
+            {images.length > 0 && (
+              <div className="text-center text-sm text-gray-600 dark:text-gray-400 mt-2">
+                {showTrash
+                  ? `Showing ${images.length} of ${totalImages} image${totalImages === 1 ? "" : "s"} in the trash`
+                  : `Showing ${images.length} of ${totalImages} images`}
+              </div>
+            )}
+          </>
+        )}
+      </div>
     </div>
   );
 }
@@ -0,0 +1,78 @@
+import { useState, type ReactNode } from "react";
+
+// "lightingMatch" -> "Lighting match"
+export function formatCriterionId(id: string): string {
+  const words = id.replace(/([a-z0-9])([A-Z])/g, "$1 $2").toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+interface JudgeFeedbackBadgeProps {
+  criteria: Record<string, number> | null | undefined;
+  rationales: Record<string, string> | null | undefined;
+  defects: string[] | null | undefined;
+  children: ReactNode; // The score badge
+}
+
+/**
+ * Wraps a judge score badge with the judge's written feedback: the rationale for each criterion and the
+ * defects it found. The panel shows on hover and stays open after a click until clicked again.
+ */
+export function JudgeFeedbackBadge({ criteria, rationales, defects, children }: JudgeFeedbackBadgeProps) {
+  const [hovered, setHovered] = useState(false);
+  const [pinned, setPinned] = useState(false);
+
+  const rationaleEntries = Object.entries(rationales ?? {});
+  const defectList = defects ?? [];
+  if (rationaleEntries.length === 0 && defectList.length === 0) {
+    return <>{children}</>;
+  }
+
+  return (
+    <div
+      className="relative"
+      onMouseEnter={() => setHovered(true)}
+      onMouseLeave={() => setHovered(false)}
+      onClick={(e) => {
+        // Don't select the thumbnail when opening the feedback
+        e.stopPropagation();
+        setPinned((prev) => !prev);
+      }}
+    >
+      <div className={`cursor-help ${pinned ? "ring-1 ring-blue-400 dark:ring-blue-500 rounded-full" : ""}`}>
+        {children}
+      </div>
+      {(hovered || pinned) && (
+        <div
+          className="absolute right-0 top-full mt-1 z-20 w-64 rounded-md border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 shadow-lg p-2 space-y-2 text-left cursor-auto"
+          onClick={(e) => e.stopPropagation()}
+        >
+          {rationaleEntries.length > 0 && (
+            <div className="space-y-1.5">
+              {rationaleEntries.map(([id, rationale]) => (
+                <div key={id}>
+                  <div className="text-[10px] font-semibold text-gray-900 dark:text-gray-100">
+                    {formatCriterionId(id)}
+                    {criteria?.[id] !== undefined && (
+                      <span className="ml-1 font-normal text-gray-500 dark:text-gray-400">{criteria[id]}/10</span>
+                    )}
+                  </div>
+                  <p className="text-[10px] leading-snug text-gray-600 dark:text-gray-300">{rationale}</p>
+                </div>
+              ))}
+            </div>
+          )}
+          {defectList.length > 0 && (
+            <div>
+              <div className="text-[10px] font-semibold text-red-600 dark:text-red-400">Defects</div>
+              <ul className="list-disc pl-3.5 text-[10px] leading-snug text-gray-600 dark:text-gray-300">
+                {defectList.map((defect) => (
+                  <li key={defect}>{defect}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+import { Edit } from "lucide-react";
+import type { RunSummary } from "../lib/storage/generation-runs";
+import { calculateCost, formatDuration } from "../utils/cost";
+import { formatDate } from "../utils/date";
+import { DEFAULT_GENERATION_MODEL_ID } from "../utils/constants";
+import { Button } from "./ui/button";
+
+interface RunHistoryItemProps {
+  run: RunSummary;
+  onReopen: (run: RunSummary) => void;
+}
+
+export function getRunBestScore(run: RunSummary): number | null {
+  const scores = run.generations
+    .map((generation) => generation.judgeResult?.score)
+    .filter((score): score is number => score !== undefined);
+  return scores.length > 0 ? Math.max(...scores) : null;
+}
+
+function getRunCost(run: RunSummary): number {
+  const generationModelId = run.settings.generationModelId ?? DEFAULT_GENERATION_MODEL_ID;
+  return run.generations.reduce((total, generation) => {
+    const generationCost = calculateCost(generation.usage ?? null, generationModelId)?.totalCost ?? 0;
+    return total + generationCost + (generation.judgeResult?.cost ?? 0);
+  }, run.pairwiseRanking?.cost ?? 0);
+}
+
+function getRunDurationMs(run: RunSummary): number {
+  return run.generations.reduce(
+    (total, generation) => total + (generation.imageGenerationDurationMs ?? 0) + (generation.judgeDurationMs ?? 0),
+    0
+  );
+}
+
+export function RunHistoryItem({ run, onReopen }: RunHistoryItemProps) {
+  const bestScore = getRunBestScore(run);
+  const canReopen = run.sourceImages.length > 0 && run.sourceImages.every((image) => image && !image.deletedAt);
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 shadow-sm p-4 space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div className="min-w-0 flex-1">
+          <div className="text-xs text-gray-500 dark:text-gray-400">{formatDate(run.createdAt)}</div>
+          <p className="mt-1 text-sm text-gray-900 dark:text-gray-100 whitespace-pre-wrap wrap-break-word">
+            {run.prompt}
+          </p>
+          <div className="mt-2 flex flex-wrap gap-3 text-xs text-gray-600 dark:text-gray-400">
+            <span>
+              {run.generations.length} generation{run.generations.length === 1 ? "" : "s"}
+            </span>
+            <span>Best score: {bestScore !== null ? `${bestScore}/10` : "—"}</span>
+            <span>Cost: ${getRunCost(run).toFixed(4)}</span>
+            <span>Duration: {formatDuration(getRunDurationMs(run) || undefined) ?? "—"}</span>
+            {run.refinement && (
+              <span title={run.refinement.promptLineage.join("\n→ ")}>Auto-refine round {run.refinement.round}</span>
+            )}
+          </div>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onReopen(run)}
+          disabled={!canReopen}
+          title={canReopen ? "Reopen in editor" : "Source images are no longer available"}
+        >
+          <Edit className="w-4 h-4" />
+          Reopen in editor
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap gap-6">
+        <div>
+          <div className="text-xs font-medium text-gray-700 dark:text-gray-300 mb-2">Source</div>
+          <div className="flex gap-2">
+            {run.sourceImages.map((image, index) => (
+              <div
+                key={index}
+                className="w-24 h-24 bg-gray-100 dark:bg-gray-900 rounded overflow-hidden border border-gray-200 dark:border-gray-700"
+              >
+                {image ? (
+                  <img src={image.url} alt={`Source ${index + 1}`} className="w-full h-full object-cover" />
+                ) : (
+                  <div className="w-full h-full flex items-center justify-center text-xs text-gray-500 dark:text-gray-400">
+                    Missing
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {run.annotatedImageUrls.length > 0 && (
+          <div>
+            <div className="text-xs font-medium text-gray-700 dark:text-gray-300 mb-2">Annotated input</div>
+            <div className="flex gap-2">
+              {run.annotatedImageUrls.map((url, index) => (
+                <div
+                  key={url}
+                  className="w-24 h-24 bg-gray-100 dark:bg-gray-900 rounded overflow-hidden border border-gray-200 dark:border-gray-700"
+                >
+                  <img src={url} alt={`Annotated input ${index + 1}`} className="w-full h-full object-cover" />
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="min-w-0 flex-1">
+          <div className="text-xs font-medium text-gray-700 dark:text-gray-300 mb-2">Generations</div>
+          {run.generations.length === 0 ? (
+            <div className="text-xs text-gray-500 dark:text-gray-400">No generations</div>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {run.generations.map((generation, index) =>
+                !generation.imageUrl ? (
+                  // The LLM call failed before producing an image
+                  <div
+                    key={generation.generationId}
+                    title={generation.failure?.message}
+                    className="w-24 h-24 flex items-center justify-center p-2 rounded border border-red-200 dark:border-red-900 bg-red-50 dark:bg-red-950/30 text-[10px] text-center text-red-600 dark:text-red-400"
+                  >
+                    Failed{generation.failure ? ` (${generation.failure.kind})` : ""}
+                  </div>
+                ) : (
+                  <a
+                    key={generation.generationId}
+                    href={generation.imageUrl}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="relative w-24 h-24 bg-gray-100 dark:bg-gray-900 rounded overflow-hidden border border-gray-200 dark:border-gray-700 hover:border-blue-400 dark:hover:border-blue-500"
+                  >
+                    <img
+                      src={generation.imageUrl}
+                      alt={`Generation ${index + 1}`}
+                      className="w-full h-full object-cover"
+                    />
+                    {generation.judgeResult && (
+                      <div className="absolute bottom-1 right-1 px-1.5 py-0.5 rounded bg-black/70 text-white text-[10px] font-semibold">
+                        {generation.judgeResult.score}/10
+                      </div>
+                    )}
+                    {generation.status === "failed" && (
+                      <div
+                        title={generation.failure?.message}
+                        className="absolute bottom-1 right-1 px-1.5 py-0.5 rounded bg-red-600/80 text-white text-[10px] font-semibold"
+                      >
+                        Judge failed
+                      </div>
+                    )}
+                  </a>
+                )
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
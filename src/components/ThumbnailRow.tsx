@@ -1,16 +1,31 @@
-import { Plus, Loader2, X, MousePointerClick, Play } from "lucide-react";
+import { Plus, Loader2, X, MousePointerClick, Play, AlertTriangle, ThumbsUp, ThumbsDown } from "lucide-react";
 import { useState, useEffect, useRef, useImperativeHandle, forwardRef } from "react";
 import type { Image } from "../utils/storage";
+import type { ProviderErrorKind } from "../lib/ai/provider-call";
+import type { GenerationFailure, HumanRating } from "../lib/storage/generation-runs";
+import type { JudgeEnsemble } from "../lib/ai/judge/ensemble";
+import type { PixelDiffMetrics } from "../utils/pixelMetrics";
+import { JUDGE_MODEL_SUMMARY } from "../utils/constants";
+import { getThumbnailUrl } from "../utils/thumbnails";
+import { JudgeFeedbackBadge, formatCriterionId } from "./JudgeFeedbackPanel";
 
 interface GenerationAttempt {
   generationId: string;
-  status: "pending" | "generating" | "completed" | "judging" | "judged";
+  status: "pending" | "generating" | "completed" | "judging" | "judged" | "failed";
   image: Image | null;
+  failure?: GenerationFailure | null;
   judgeScore: number | null;
   judgeChangesCorrect: number | null;
   judgePreservation: number | null;
   judgeBlueBorderRemoved: boolean | null;
   judgeProposedPrompt: string | null;
+  judgeCriteria?: Record<string, number> | null;
+  judgeRationales?: Record<string, string> | null;
+  judgeDefects?: string[] | null;
+  judgeEnsemble?: JudgeEnsemble | null;
+  pairwiseRank?: number | null;
+  pixelMetrics?: PixelDiffMetrics | null;
+  humanRating?: HumanRating | null;
   usage: {
     inputTokens: number;
     outputTokens: number;
@@ -23,6 +38,127 @@ interface GenerationAttempt {
   } | null;
   imageGenerationDurationMs?: number;
   judgeDurationMs?: number;
+  refinementRound?: number;
+}
+
+const FAILURE_LABELS: Record<ProviderErrorKind, string> = {
+  "rate-limit": "Rate limited",
+  server: "Provider error",
+  timeout: "Timed out",
+  quota: "Quota exceeded",
+  safety: "Safety block",
+  "no-image": "No image returned",
+  schema: "Invalid judge response",
+  cancelled: "Cancelled",
+  unknown: "Failed",
+};
+
+// Short reason for a failed attempt, e.g. "Judge failed: Timed out"
+function getFailureLabel(failure: GenerationFailure | null | undefined): string {
+  if (!failure) {
+    return "Failed";
+  }
+  const label = FAILURE_LABELS[failure.kind] ?? FAILURE_LABELS.unknown;
+  return failure.stage === "judge" ? `Judge failed: ${label}` : label;
+}
+
+// Per-judge scores of an ensemble, one per line, for tooltips
+function getEnsembleSummary(ensemble: JudgeEnsemble): string {
+  const lines = ensemble.judges.map(
+    (judge) => `${JUDGE_MODEL_SUMMARY[judge.modelId]?.name ?? judge.modelId}: ${judge.score}/10`
+  );
+  ensemble.failedJudges.forEach((judge) => {
+    lines.push(`${JUDGE_MODEL_SUMMARY[judge.modelId]?.name ?? judge.modelId}: failed`);
+  });
+  lines.push(`Combined (${ensemble.aggregation}), spread ${ensemble.agreement.spread}`);
+  return lines.join("\n");
+}
+
+// Criteria with dedicated rows; other rubric criteria are listed by id
+const BUILT_IN_CRITERIA = ["changesCorrect", "preservation"];
+
+function formatPercent(ratio: number): string {
+  return `${Math.round(ratio * 100)}%`;
+}
+
+// Pixel-diff detail for tooltips: share of changed pixels and SSIM inside and outside the selection
+function getPixelMetricsSummary(metrics: PixelDiffMetrics): string {
+  const lines: string[] = [];
+  if (metrics.inside) {
+    lines.push(
+      `Selected cells: ${formatPercent(metrics.inside.changedPixelRatio)} changed, SSIM ${metrics.inside.ssim.toFixed(2)}`
+    );
+  }
+  if (metrics.outside) {
+    lines.push(
+      `Other cells: ${formatPercent(metrics.outside.changedPixelRatio)} changed, SSIM ${metrics.outside.ssim.toFixed(2)}`
+    );
+  }
+  if (metrics.blueBorderPixelRatio !== null) {
+    lines.push(`Blue on selection outline: ${formatPercent(metrics.blueBorderPixelRatio)}`);
+  }
+  return lines.join("\n");
+}
+
+export type HumanRatingInput = Pick<HumanRating, "thumb" | "score">;
+
+const HUMAN_SCORE_OPTIONS = Array.from({ length: 10 }, (_, i) => i + 1);
+
+interface HumanRatingControlsProps {
+  rating: HumanRating | null | undefined;
+  onRate: (rating: HumanRatingInput) => void;
+  compact?: boolean; // Row layout: smaller controls
+}
+
+// Thumbs up/down and a 1-10 score for the user's own verdict; clicking the active thumb clears it
+function HumanRatingControls({ rating, onRate, compact = false }: HumanRatingControlsProps) {
+  const thumb = rating?.thumb ?? null;
+  const score = rating?.score ?? null;
+  const iconClass = compact ? "w-2.5 h-2.5" : "w-3 h-3";
+  const buttonClass = (active: boolean, activeColor: string) =>
+    `p-0.5 rounded transition-colors ${
+      active ? activeColor : "text-gray-400 dark:text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+    }`;
+
+  return (
+    <div
+      className="flex items-center gap-1 text-[10px] text-gray-600 dark:text-gray-400"
+      onClick={(e) => e.stopPropagation()}
+    >
+      {!compact && <span className="font-medium">You:</span>}
+      <button
+        type="button"
+        onClick={() => onRate({ thumb: thumb === "up" ? null : "up", score })}
+        className={buttonClass(thumb === "up", "text-emerald-600 dark:text-emerald-400")}
+        title="Good result"
+        aria-pressed={thumb === "up"}
+      >
+        <ThumbsUp className={iconClass} />
+      </button>
+      <button
+        type="button"
+        onClick={() => onRate({ thumb: thumb === "down" ? null : "down", score })}
+        className={buttonClass(thumb === "down", "text-red-600 dark:text-red-400")}
+        title="Bad result"
+        aria-pressed={thumb === "down"}
+      >
+        <ThumbsDown className={iconClass} />
+      </button>
+      <select
+        value={score ?? ""}
+        onChange={(e) => onRate({ thumb, score: e.target.value ? Number(e.target.value) : null })}
+        className="h-5 rounded border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 px-0.5 text-[10px] text-gray-900 dark:text-gray-100"
+        title="Your score (1-10)"
+      >
+        <option value="">–</option>
+        {HUMAN_SCORE_OPTIONS.map((option) => (
+          <option key={option} value={option}>
+            {option}/10
+          </option>
+        ))}
+      </select>
+    </div>
+  );
 }
 
 interface ThumbnailRowProps {
@@ -43,6 +179,7 @@ interface ThumbnailRowProps {
   promptError?: string | null;
   variant?: "column" | "row"; // New prop to control layout
   onRunProposedPrompt?: (proposedPrompt: string) => void;
+  onRateAttempt?: (attempt: GenerationAttempt, rating: HumanRatingInput) => void;
 }
 
 export interface ThumbnailRowRef {
@@ -67,6 +204,7 @@ export const ThumbnailRow = forwardRef<ThumbnailRowRef, ThumbnailRowProps>(funct
     promptError,
     variant = "column",
     onRunProposedPrompt,
+    onRateAttempt,
   },
   ref
 ) {
@@ -129,7 +267,11 @@ export const ThumbnailRow = forwardRef<ThumbnailRowRef, ThumbnailRowProps>(funct
           >
             <div className={`${isColumn ? "w-32 shrink-0" : "w-full"}`}>
               <div className="relative w-full aspect-square bg-gray-100 dark:bg-gray-800 rounded overflow-hidden">
-                <img src={originalImage.url} alt="Original image" className="w-full h-full object-cover" />
+                <img
+                  src={getThumbnailUrl(originalImage.url, 320)}
+                  alt="Original image"
+                  className="w-full h-full object-cover"
+                />
               </div>
             </div>
             {isColumn && (
@@ -141,7 +283,14 @@ export const ThumbnailRow = forwardRef<ThumbnailRowRef, ThumbnailRowProps>(funct
           </div>
         )}
         {generationAttempts.map((attempt, index) => {
-          const hasScores = attempt.judgeChangesCorrect !== null;
+          // Custom rubrics may not score the built-in criteria
+          const extraCriteria = Object.entries(attempt.judgeCriteria ?? {}).filter(
+            ([id]) => !BUILT_IN_CRITERIA.includes(id)
+          );
+          const hasScores = attempt.judgeChangesCorrect !== null || extraCriteria.length > 0;
+          // Only finished images can be rated
+          const canRate =
+            onRateAttempt && attempt.image && attempt.status !== "pending" && attempt.status !== "generating";
 
           return (
             <div
@@ -167,7 +316,7 @@ export const ThumbnailRow = forwardRef<ThumbnailRowRef, ThumbnailRowProps>(funct
                     <>
                       {attempt.image ? (
                         <img
-                          src={attempt.image.url}
+                          src={getThumbnailUrl(attempt.image.url, 320)}
                           alt={`Generation ${index + 1}`}
                           className="w-full h-full object-cover opacity-75"
                         />
@@ -175,13 +324,26 @@ export const ThumbnailRow = forwardRef<ThumbnailRowRef, ThumbnailRowProps>(funct
                     </>
                   ) : attempt.image ? (
                     <img
-                      src={attempt.image.url}
+                      src={getThumbnailUrl(attempt.image.url, 320)}
                       alt={`Generation ${index + 1}`}
                       className="w-full h-full object-cover"
                     />
                   ) : (
-                    <div className="w-full h-full flex items-center justify-center bg-gray-50 dark:bg-gray-900">
-                      <div className="text-xs text-gray-500 dark:text-gray-400">Error</div>
+                    <div
+                      className="w-full h-full flex items-center justify-center p-2 bg-red-50 dark:bg-red-950/30"
+                      title={attempt.failure?.message}
+                    >
+                      <div className="text-xs text-center text-red-600 dark:text-red-400">
+                        {attempt.status === "failed" ? getFailureLabel(attempt.failure) : "Error"}
+                      </div>
+                    </div>
+                  )}
+                  {attempt.pairwiseRank != null && (
+                    <div
+                      className="absolute top-1 left-1 px-1.5 py-0.5 rounded bg-black/70 text-white text-[10px] font-semibold"
+                      title="Rank from head-to-head comparisons with the run's other generations"
+                    >
+                      Rank {attempt.pairwiseRank}
                     </div>
                   )}
                 </div>
@@ -189,34 +351,54 @@ export const ThumbnailRow = forwardRef<ThumbnailRowRef, ThumbnailRowProps>(funct
               {isColumn ? (
                 <div className="flex-1 min-w-0 py-1">
                   <div className="flex items-center justify-between mb-1.5">
-                    <div className="text-xs font-semibold text-gray-900 dark:text-gray-100">Variation #{index + 1}</div>
-                    <div
-                      className={`px-2 py-0.5 rounded-full text-[10px] font-medium ${
-                        attempt.status === "judging"
-                          ? "bg-blue-50 text-blue-600 dark:bg-blue-500/10 dark:text-blue-300"
-                          : attempt.status === "judged"
-                            ? "bg-emerald-50 text-emerald-600 dark:bg-emerald-500/10 dark:text-emerald-300"
-                            : "bg-gray-100 text-gray-600 dark:bg-gray-800 dark:text-gray-300"
-                      }`}
-                    >
-                      {attempt.status === "judging"
-                        ? "Judging…"
-                        : attempt.status === "judged"
-                          ? `${attempt.judgeScore ?? "-"}/10`
-                          : attempt.status === "completed"
-                            ? "Generated"
-                            : "Pending"}
+                    <div className="text-xs font-semibold text-gray-900 dark:text-gray-100">
+                      Variation #{index + 1}
+                      {attempt.refinementRound && (
+                        <span className="ml-1 font-normal text-gray-500 dark:text-gray-400">
+                          · Round {attempt.refinementRound}
+                        </span>
+                      )}
                     </div>
+                    <JudgeFeedbackBadge
+                      criteria={attempt.judgeCriteria}
+                      rationales={attempt.judgeRationales}
+                      defects={attempt.judgeDefects}
+                    >
+                      <div
+                        className={`px-2 py-0.5 rounded-full text-[10px] font-medium ${
+                          attempt.status === "judging"
+                            ? "bg-blue-50 text-blue-600 dark:bg-blue-500/10 dark:text-blue-300"
+                            : attempt.status === "judged"
+                              ? "bg-emerald-50 text-emerald-600 dark:bg-emerald-500/10 dark:text-emerald-300"
+                              : attempt.status === "failed"
+                                ? "bg-red-50 text-red-600 dark:bg-red-500/10 dark:text-red-300"
+                                : "bg-gray-100 text-gray-600 dark:bg-gray-800 dark:text-gray-300"
+                        }`}
+                        title={attempt.status === "failed" ? attempt.failure?.message : undefined}
+                      >
+                        {attempt.status === "judging"
+                          ? "Judging…"
+                          : attempt.status === "judged"
+                            ? `${attempt.judgeScore ?? "-"}/10`
+                            : attempt.status === "failed"
+                              ? getFailureLabel(attempt.failure)
+                              : attempt.status === "completed"
+                                ? "Generated"
+                                : "Pending"}
+                      </div>
+                    </JudgeFeedbackBadge>
                   </div>
                   <div className="min-h-[60px]">
                     {hasScores && (
                       <div className="space-y-1.5 mb-1.5">
-                        <div className="flex items-center gap-2 text-[10px] text-gray-600 dark:text-gray-400">
-                          <span className="font-medium">Correct:</span>
-                          <span className="font-semibold text-gray-900 dark:text-gray-100">
-                            {attempt.judgeChangesCorrect}/10
-                          </span>
-                        </div>
+                        {attempt.judgeChangesCorrect !== null && (
+                          <div className="flex items-center gap-2 text-[10px] text-gray-600 dark:text-gray-400">
+                            <span className="font-medium">Correct:</span>
+                            <span className="font-semibold text-gray-900 dark:text-gray-100">
+                              {attempt.judgeChangesCorrect}/10
+                            </span>
+                          </div>
+                        )}
                         {attempt.judgePreservation !== null && (
                           <div className="flex items-center gap-2 text-[10px] text-gray-600 dark:text-gray-400">
                             <span className="font-medium">Preserve:</span>
@@ -225,6 +407,15 @@ export const ThumbnailRow = forwardRef<ThumbnailRowRef, ThumbnailRowProps>(funct
                             </span>
                           </div>
                         )}
+                        {extraCriteria.map(([id, score]) => (
+                          <div
+                            key={id}
+                            className="flex items-center gap-2 text-[10px] text-gray-600 dark:text-gray-400"
+                          >
+                            <span className="font-medium">{formatCriterionId(id)}:</span>
+                            <span className="font-semibold text-gray-900 dark:text-gray-100">{score}/10</span>
+                          </div>
+                        ))}
                         {attempt.judgeBlueBorderRemoved !== null && (
                           <div className="flex items-center gap-2 text-[10px] text-gray-600 dark:text-gray-400">
                             <span className="font-medium">Border:</span>
@@ -233,6 +424,55 @@ export const ThumbnailRow = forwardRef<ThumbnailRowRef, ThumbnailRowProps>(funct
                             </span>
                           </div>
                         )}
+                        {attempt.judgeEnsemble && (
+                          <div
+                            className="flex items-center gap-2 text-[10px] text-gray-600 dark:text-gray-400"
+                            title={getEnsembleSummary(attempt.judgeEnsemble)}
+                          >
+                            <span className="font-medium">Judges:</span>
+                            <span className="font-semibold text-gray-900 dark:text-gray-100">
+                              {attempt.judgeEnsemble.judges.map((judge) => judge.score).join(" · ")}
+                            </span>
+                            {attempt.judgeEnsemble.agreement.disagreement && (
+                              <span className="flex items-center gap-0.5 text-amber-600 dark:text-amber-400">
+                                <AlertTriangle className="w-3 h-3" />
+                                Disagree
+                              </span>
+                            )}
+                          </div>
+                        )}
+                      </div>
+                    )}
+                    {attempt.pixelMetrics && (
+                      <div
+                        className="flex items-center gap-2 text-[10px] text-gray-600 dark:text-gray-400 mb-1.5"
+                        title={getPixelMetricsSummary(attempt.pixelMetrics)}
+                      >
+                        <span className="font-medium">Pixels:</span>
+                        <span className="font-semibold text-gray-900 dark:text-gray-100">
+                          {[
+                            attempt.pixelMetrics.inside &&
+                              `in ${formatPercent(attempt.pixelMetrics.inside.changedPixelRatio)}`,
+                            attempt.pixelMetrics.outside &&
+                              `out ${formatPercent(attempt.pixelMetrics.outside.changedPixelRatio)}`,
+                          ]
+                            .filter(Boolean)
+                            .join(" · ")}
+                        </span>
+                        {attempt.pixelMetrics.blueBorderDetected && (
+                          <span className="flex items-center gap-0.5 text-amber-600 dark:text-amber-400">
+                            <AlertTriangle className="w-3 h-3" />
+                            Blue left
+                          </span>
+                        )}
+                      </div>
+                    )}
+                    {canRate && (
+                      <div className="mb-1.5">
+                        <HumanRatingControls
+                          rating={attempt.humanRating}
+                          onRate={(rating) => onRateAttempt(attempt, rating)}
+                        />
                       </div>
                     )}
                     {attempt.judgeProposedPrompt && (
@@ -266,24 +506,62 @@ export const ThumbnailRow = forwardRef<ThumbnailRowRef, ThumbnailRowProps>(funct
               ) : (
                 <div className="w-full flex flex-col gap-1 min-h-[60px]">
                   <div className="flex items-center justify-between">
-                    <div className="text-[10px] font-medium text-gray-900 dark:text-gray-100">#{index + 1}</div>
+                    <div className="text-[10px] font-medium text-gray-900 dark:text-gray-100">
+                      #{index + 1}
+                      {attempt.refinementRound && (
+                        <span className="ml-0.5 font-normal text-gray-500 dark:text-gray-400">
+                          R{attempt.refinementRound}
+                        </span>
+                      )}
+                    </div>
                     {attempt.status === "judging" ? (
                       <div className="text-[10px] text-blue-600 dark:text-blue-400 font-medium">Judging…</div>
                     ) : attempt.status === "judged" && attempt.judgeScore !== null ? (
-                      <div className="text-[10px] font-semibold text-gray-700 dark:text-gray-300">
-                        {attempt.judgeScore}/10
+                      <JudgeFeedbackBadge
+                        criteria={attempt.judgeCriteria}
+                        rationales={attempt.judgeRationales}
+                        defects={attempt.judgeDefects}
+                      >
+                        <div
+                          className="flex items-center gap-0.5 text-[10px] font-semibold text-gray-700 dark:text-gray-300"
+                          title={attempt.judgeEnsemble ? getEnsembleSummary(attempt.judgeEnsemble) : undefined}
+                        >
+                          {attempt.judgeEnsemble?.agreement.disagreement && (
+                            <AlertTriangle className="w-3 h-3 text-amber-600 dark:text-amber-400" />
+                          )}
+                          {attempt.judgeScore}/10
+                        </div>
+                      </JudgeFeedbackBadge>
+                    ) : attempt.status === "failed" && attempt.image ? (
+                      <div
+                        className="text-[10px] font-medium text-red-600 dark:text-red-400 truncate"
+                        title={attempt.failure?.message}
+                      >
+                        {getFailureLabel(attempt.failure)}
                       </div>
                     ) : null}
                   </div>
                   {hasScores && (
                     <div className="text-[10px] text-gray-600 dark:text-gray-300 leading-tight space-y-0.5">
-                      <div>Correct: {attempt.judgeChangesCorrect}/10</div>
+                      {attempt.judgeChangesCorrect !== null && <div>Correct: {attempt.judgeChangesCorrect}/10</div>}
+                      {extraCriteria.map(([id, score]) => (
+                        <div key={id}>
+                          {formatCriterionId(id)}: {score}/10
+                        </div>
+                      ))}
                       {attempt.judgePreservation !== null && <div>Preserve: {attempt.judgePreservation}/10</div>}
                       {attempt.judgeBlueBorderRemoved !== null && (
                         <div>Border: {attempt.judgeBlueBorderRemoved ? "✓" : "✗"}</div>
                       )}
                     </div>
                   )}
+                  {canRate && (
+                    <HumanRatingControls
+                      rating={attempt.humanRating}
+                      onRate={(rating) => onRateAttempt(attempt, rating)}
+                      compact
+                    />
+                  )}
                   {attempt.judgeProposedPrompt && (
                     <div className="text-[10px] text-blue-600 dark:text-blue-400 mt-0.5 leading-tight whitespace-pre-wrap wrap-break-word relative group pr-5">
                       <span>{attempt.judgeProposedPrompt}</span>
@@ -8,6 +8,8 @@ interface TokenUsage {
 }
 
 interface TokenUsageDisplayProps {
+  generationModelId?: string;
+  judgeModelId?: string;
   tokenUsage: TokenUsage | null;
   imageGenerationUsage: TokenUsage | null;
   judgeUsage: TokenUsage | null;
@@ -17,6 +19,8 @@ interface TokenUsageDisplayProps {
 }
 
 export function TokenUsageDisplay({
+  generationModelId = DEFAULT_GENERATION_MODEL_ID,
+  judgeModelId = DEFAULT_JUDGE_MODEL_ID,
   tokenUsage,
   imageGenerationUsage,
   judgeUsage,
@@ -30,10 +34,10 @@ export function TokenUsageDisplay({
 
   // Calculate costs separately for each component to use correct pricing
   const imageGenerationCost = imageGenerationUsage 
-    ? calculateCost(imageGenerationUsage, DEFAULT_GENERATION_MODEL_ID)
+    ? calculateCost(imageGenerationUsage, generationModelId)
     : null;
   const judgeCost = judgeUsage 
-    ? calculateCost(judgeUsage, DEFAULT_JUDGE_MODEL_ID)
+    ? calculateCost(judgeUsage, judgeModelId)
     : null;
   const totalCost = imageGenerationCost && judgeCost
     ? {
@@ -0,0 +1,152 @@
+import { useEffect, useState } from "react";
+import {
+  DEFAULT_AUTO_REFINE_BUDGET_USD,
+  DEFAULT_AUTO_REFINE_ROUNDS,
+  DEFAULT_AUTO_REFINE_TARGET_SCORE,
+  DEFAULT_GENERATION_MODEL_ID,
+  DEFAULT_IMAGES_PER_RUN,
+  DEFAULT_JUDGE_AGGREGATION,
+  DEFAULT_JUDGE_MODEL_ID,
+  DEFAULT_JUDGE_RUBRIC_ID,
+  GENERATION_MODEL_IDS,
+  JUDGE_AGGREGATIONS,
+  JUDGE_MODEL_IDS,
+  MAX_AUTO_REFINE_ROUNDS,
+  MAX_LLM_CALLS_PER_RUN,
+  MIN_LLM_CALLS_PER_RUN,
+  USE_JUDGES,
+  calculateLLMCallsNeeded,
+  calculateTotalImages,
+  type JudgeAggregation,
+} from "../utils/constants";
+
+const STORAGE_KEY = "generationSettings";
+
+export interface GenerationSettings {
+  generationModelId: string;
+  judgeModelId: string;
+  ensembleJudgeModelIds: string[]; // Extra judges scoring alongside judgeModelId (empty: single judge)
+  judgeAggregation: JudgeAggregation;
+  judgeRubricId: string; // Built-in or stored rubric the judges score against
+  judgeRegionCrops: boolean; // Also send the judges full-resolution crops of the selection (costs extra tokens)
+  imagesPerRun: number;
+  useJudges: boolean;
+  pairwiseRanking: boolean; // Rank each finished run's generations head-to-head
+  autoRefine: boolean; // Regenerate with the best proposed prompt until a stop condition is hit
+  autoRefineRounds: number;
+  autoRefineTargetScore: number;
+  autoRefineBudgetUsd: number;
+}
+
+export const DEFAULT_GENERATION_SETTINGS: GenerationSettings = {
+  generationModelId: DEFAULT_GENERATION_MODEL_ID,
+  judgeModelId: DEFAULT_JUDGE_MODEL_ID,
+  ensembleJudgeModelIds: [],
+  judgeAggregation: DEFAULT_JUDGE_AGGREGATION,
+  judgeRubricId: DEFAULT_JUDGE_RUBRIC_ID,
+  judgeRegionCrops: false,
+  imagesPerRun: DEFAULT_IMAGES_PER_RUN,
+  useJudges: USE_JUDGES,
+  pairwiseRanking: false,
+  autoRefine: false,
+  autoRefineRounds: DEFAULT_AUTO_REFINE_ROUNDS,
+  autoRefineTargetScore: DEFAULT_AUTO_REFINE_TARGET_SCORE,
+  autoRefineBudgetUsd: DEFAULT_AUTO_REFINE_BUDGET_USD,
+};
+
+function clampNumber(value: unknown, min: number, max: number, fallback: number): number {
+  return typeof value === "number" && Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+}
+
+// Drop stored values that no longer apply (removed models, changed limits)
+function sanitizeSettings(stored: Partial<GenerationSettings>): GenerationSettings {
+  const llmCalls =
+    typeof stored.imagesPerRun === "number" && Number.isFinite(stored.imagesPerRun)
+      ? Math.min(MAX_LLM_CALLS_PER_RUN, Math.max(MIN_LLM_CALLS_PER_RUN, calculateLLMCallsNeeded(stored.imagesPerRun)))
+      : null;
+
+  const judgeModelId =
+    stored.judgeModelId && JUDGE_MODEL_IDS.includes(stored.judgeModelId)
+      ? stored.judgeModelId
+      : DEFAULT_GENERATION_SETTINGS.judgeModelId;
+
+  return {
+    generationModelId:
+      stored.generationModelId && GENERATION_MODEL_IDS.includes(stored.generationModelId)
+        ? stored.generationModelId
+        : DEFAULT_GENERATION_SETTINGS.generationModelId,
+    judgeModelId,
+    ensembleJudgeModelIds: Array.isArray(stored.ensembleJudgeModelIds)
+      ? JUDGE_MODEL_IDS.filter((modelId) => modelId !== judgeModelId && stored.ensembleJudgeModelIds!.includes(modelId))
+      : DEFAULT_GENERATION_SETTINGS.ensembleJudgeModelIds,
+    judgeAggregation:
+      stored.judgeAggregation && JUDGE_AGGREGATIONS.includes(stored.judgeAggregation)
+        ? stored.judgeAggregation
+        : DEFAULT_GENERATION_SETTINGS.judgeAggregation,
+    // Rubrics live on the server; one that was deleted since is reset once the list loads
+    judgeRubricId:
+      typeof stored.judgeRubricId === "string" && /^[\w-]+$/.test(stored.judgeRubricId)
+        ? stored.judgeRubricId
+        : DEFAULT_GENERATION_SETTINGS.judgeRubricId,
+    judgeRegionCrops:
+      typeof stored.judgeRegionCrops === "boolean"
+        ? stored.judgeRegionCrops
+        : DEFAULT_GENERATION_SETTINGS.judgeRegionCrops,
+    imagesPerRun: llmCalls !== null ? calculateTotalImages(llmCalls) : DEFAULT_GENERATION_SETTINGS.imagesPerRun,
+    useJudges: typeof stored.useJudges === "boolean" ? stored.useJudges : DEFAULT_GENERATION_SETTINGS.useJudges,
+    pairwiseRanking:
+      typeof stored.pairwiseRanking === "boolean"
+        ? stored.pairwiseRanking
+        : DEFAULT_GENERATION_SETTINGS.pairwiseRanking,
+    autoRefine: typeof stored.autoRefine === "boolean" ? stored.autoRefine : DEFAULT_GENERATION_SETTINGS.autoRefine,
+    autoRefineRounds: Math.round(
+      clampNumber(stored.autoRefineRounds, 1, MAX_AUTO_REFINE_ROUNDS, DEFAULT_GENERATION_SETTINGS.autoRefineRounds)
+    ),
+    autoRefineTargetScore: clampNumber(
+      stored.autoRefineTargetScore,
+      1,
+      10,
+      DEFAULT_GENERATION_SETTINGS.autoRefineTargetScore
+    ),
+    autoRefineBudgetUsd: clampNumber(
+      stored.autoRefineBudgetUsd,
+      0,
+      Number.MAX_SAFE_INTEGER,
+      DEFAULT_GENERATION_SETTINGS.autoRefineBudgetUsd
+    ),
+  };
+}
+
+export function useGenerationSettings() {
+  // Always start with defaults to match server render and avoid hydration mismatch
+  const [settings, setSettings] = useState<GenerationSettings>(DEFAULT_GENERATION_SETTINGS);
+  const [mounted, setMounted] = useState(false);
+
+  // Load stored settings after mount
+  useEffect(() => {
+    setMounted(true);
+
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (stored) {
+        setSettings(sanitizeSettings(JSON.parse(stored)));
+      }
+    } catch (error) {
+      console.warn("Failed to read generation settings:", error);
+    }
+  }, []);
+
+  // Persist changes (only after the stored settings were loaded, so defaults never overwrite them)
+  useEffect(() => {
+    if (!mounted) {
+      return;
+    }
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  }, [settings, mounted]);
+
+  const updateSettings = (updates: Partial<GenerationSettings>) => {
+    setSettings((prev) => ({ ...prev, ...updates }));
+  };
+
+  return { settings, updateSettings, mounted };
+}
@@ -0,0 +1,82 @@
+import { useEffect, useRef } from "react";
+import type { RunEvent, RunEventsSnapshot } from "../lib/storage/run-events";
+
+const RUN_EVENT_TYPES: RunEvent["type"][] = [
+  "generating",
+  "completed",
+  "judging",
+  "judged",
+  "failed",
+  "ranked",
+  "finished",
+];
+
+// Retry delays after the server closes a stream (EventSource only retries dropped connections by itself)
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30 * 1000;
+
+interface RunEventHandlers {
+  onSnapshot: (snapshot: RunEventsSnapshot) => void;
+  onEvent: (event: RunEvent) => void;
+}
+
+// Subscribe to /api/runs/$runId/events for each run. Every (re)connect starts with a snapshot of the run,
+// so handlers must merge idempotently.
+export function useRunEvents(runIds: string[], handlers: RunEventHandlers) {
+  // Keep the latest handlers without reopening the streams on every render
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  const runIdsKey = runIds.join(",");
+
+  useEffect(() => {
+    if (!runIdsKey) {
+      return;
+    }
+
+    const cleanups = runIdsKey.split(",").map((runId) => {
+      let eventSource: EventSource | null = null;
+      let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+      let attempt = 0;
+      let stopped = false;
+
+      const connect = () => {
+        eventSource = new EventSource(`/api/runs/${runId}/events`);
+
+        eventSource.addEventListener("snapshot", (message) => {
+          attempt = 0;
+          handlersRef.current.onSnapshot(JSON.parse((message as MessageEvent).data));
+        });
+        RUN_EVENT_TYPES.forEach((type) => {
+          eventSource!.addEventListener(type, (message) => {
+            handlersRef.current.onEvent(JSON.parse((message as MessageEvent).data));
+          });
+        });
+
+        eventSource.onerror = () => {
+          if (stopped || eventSource?.readyState !== EventSource.CLOSED) {
+            return;
+          }
+          const delay = Math.min(RECONNECT_MAX_DELAY_MS, RECONNECT_BASE_DELAY_MS * 2 ** attempt);
+          attempt++;
+          console.warn(`[RunEvents] Stream for run ${runId} closed, reconnecting in ${delay}ms`);
+          reconnectTimer = setTimeout(connect, delay);
+        };
+      };
+
+      connect();
+
+      return () => {
+        stopped = true;
+        if (reconnectTimer) {
+          clearTimeout(reconnectTimer);
+        }
+        eventSource?.close();
+      };
+    });
+
+    return () => {
+      cleanups.forEach((cleanup) => cleanup());
+    };
+  }, [runIdsKey]);
+}
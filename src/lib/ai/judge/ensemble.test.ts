@@ -0,0 +1,141 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { ProviderError } from "../provider-call";
+import { aggregateScores, judgeImageEnsemble, measureAgreement } from "./ensemble";
+import { JudgeCallError, judgeImage, type JudgeResult } from "./index";
+
+vi.mock("./index", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./index")>()),
+  judgeImage: vi.fn(),
+}));
+
+const judgeImageMock = vi.mocked(judgeImage);
+
+function createJudgeResult(score: number, cost: number, overrides: Partial<JudgeResult> = {}): JudgeResult {
+  return {
+    score,
+    changesCorrect: score,
+    preservation: score,
+    criteria: { changesCorrect: score, preservation: score },
+    checks: { blueBorderRemoved: true },
+    rationales: { changesCorrect: `Scored ${score}` },
+    defects: [],
+    rubricId: "default",
+    proposedPrompt: `Prompt ${score}`,
+    usage: { inputTokens: 100, outputTokens: 10, totalTokens: 110, cachedInputTokens: 0 },
+    cost,
+    durationMs: score * 100,
+    ...overrides,
+  };
+}
+
+// Each model answers with its scripted result or failure, in the order the ensemble lists them
+function scriptJudges(outcomes: Record<string, JudgeResult | Error>) {
+  judgeImageMock.mockImplementation(async (_original, _modified, _prompt, modelId) => {
+    const outcome = outcomes[modelId!];
+    if (outcome instanceof Error) {
+      throw outcome;
+    }
+    return outcome;
+  });
+}
+
+const judgeWith = (modelIds: string[]) =>
+  judgeImageEnsemble(Buffer.alloc(0), Buffer.alloc(0), "Make it red", modelIds, "mean");
+
+describe("aggregateScores", () => {
+  it("takes the mean rounded to one decimal", () => {
+    expect(aggregateScores([7, 8, 8], "mean")).toBe(7.7);
+  });
+
+  it("takes the median of odd and even numbers of scores", () => {
+    expect(aggregateScores([9, 2, 6], "median")).toBe(6);
+    expect(aggregateScores([9, 2, 6, 5], "median")).toBe(5.5);
+  });
+
+  it("takes the lowest score", () => {
+    expect(aggregateScores([9, 2.5, 6], "min")).toBe(2.5);
+  });
+
+  it("returns a single score as is", () => {
+    expect(aggregateScores([6.5], "mean")).toBe(6.5);
+    expect(aggregateScores([6.5], "median")).toBe(6.5);
+  });
+});
+
+describe("measureAgreement", () => {
+  it("reports spread and population standard deviation", () => {
+    expect(measureAgreement([4, 6, 8])).toEqual({ spread: 4, stdDev: 1.6, disagreement: true });
+  });
+
+  it("flags disagreement once the spread reaches the threshold", () => {
+    expect(measureAgreement([5, 7.9]).disagreement).toBe(false);
+    expect(measureAgreement([5, 8]).disagreement).toBe(true);
+  });
+
+  it("agrees with itself for identical scores", () => {
+    expect(measureAgreement([7, 7])).toEqual({ spread: 0, stdDev: 0, disagreement: false });
+  });
+});
+
+describe("judgeImageEnsemble", () => {
+  beforeEach(() => {
+    judgeImageMock.mockReset();
+  });
+
+  it("combines the judges' scores, usage and cost", async () => {
+    scriptJudges({ a: createJudgeResult(6, 0.01), b: createJudgeResult(8, 0.02) });
+
+    const result = await judgeWith(["a", "b"]);
+
+    expect(result.score).toBe(7);
+    expect(result.criteria).toEqual({ changesCorrect: 7, preservation: 7 });
+    expect(result.proposedPrompt).toBe("Prompt 6");
+    expect(result.usage).toEqual({ inputTokens: 200, outputTokens: 20, totalTokens: 220, cachedInputTokens: 0 });
+    expect(result.cost).toBeCloseTo(0.03);
+    expect(result.durationMs).toBe(800);
+    expect(result.ensemble.failedJudges).toEqual([]);
+  });
+
+  it("counts what a failed judge was billed, without its score", async () => {
+    const billedUsage = { inputTokens: 100, outputTokens: 50, totalTokens: 150, cachedInputTokens: 0 };
+    scriptJudges({
+      a: new JudgeCallError(new ProviderError("schema", "No object generated"), billedUsage, 0.005),
+      b: createJudgeResult(8, 0.02),
+      c: new ProviderError("timeout", "Timed out"),
+    });
+
+    const result = await judgeWith(["a", "b", "c"]);
+
+    expect(result.score).toBe(8);
+    expect(result.proposedPrompt).toBe("Prompt 8");
+    expect(result.ensemble.judges.map((judge) => judge.modelId)).toEqual(["b"]);
+    expect(result.ensemble.failedJudges).toEqual([
+      { modelId: "a", error: "No object generated", cost: 0.005 },
+      { modelId: "c", error: "Timed out", cost: 0 },
+    ]);
+    expect(result.usage).toEqual({ inputTokens: 200, outputTokens: 60, totalTokens: 260, cachedInputTokens: 0 });
+    expect(result.cost).toBeCloseTo(0.025);
+  });
+
+  it("decides checks by majority vote, with ties failing", async () => {
+    scriptJudges({
+      a: createJudgeResult(6, 0, { checks: { blueBorderRemoved: true } }),
+      b: createJudgeResult(8, 0, { checks: { blueBorderRemoved: false } }),
+    });
+
+    expect((await judgeWith(["a", "b"])).checks).toEqual({ blueBorderRemoved: false });
+  });
+
+  it("throws the first failure with the total billed when every judge fails", async () => {
+    const billedUsage = { inputTokens: 100, outputTokens: 50, totalTokens: 150, cachedInputTokens: 0 };
+    scriptJudges({
+      a: new ProviderError("quota", "Quota exceeded"),
+      b: new JudgeCallError(new ProviderError("schema", "No object generated"), billedUsage, 0.005),
+    });
+
+    const error = await judgeWith(["a", "b"]).catch((error) => error);
+
+    expect(error).toBeInstanceOf(JudgeCallError);
+    expect(error).toMatchObject({ kind: "quota", message: "Quota exceeded", cost: 0.005, usage: billedUsage });
+  });
+});
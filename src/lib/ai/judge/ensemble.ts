@@ -0,0 +1,167 @@
+import { JUDGE_DISAGREEMENT_THRESHOLD, type JudgeAggregation } from "~/utils/constants";
+import { classifyProviderError } from "../provider-call";
+import { JudgeCallError, judgeImage, type JudgeRegionSource, type JudgeResult } from "./index";
+import { DEFAULT_JUDGE_RUBRIC, type JudgeRubric } from "./rubric";
+
+// One ensemble member's verdict (usage is summed into the combined result)
+export interface JudgeVerdict extends Omit<JudgeResult, "usage"> {
+  modelId: string;
+}
+
+export interface JudgeAgreement {
+  spread: number; // Highest minus lowest score
+  stdDev: number; // Population standard deviation of the scores
+  disagreement: boolean; // Spread reached JUDGE_DISAGREEMENT_THRESHOLD
+}
+
+export interface JudgeEnsemble {
+  aggregation: JudgeAggregation;
+  judges: JudgeVerdict[];
+  // Judges that errored and don't count, with what their failed call was billed (missing on older results)
+  failedJudges: Array<{ modelId: string; error: string; cost?: number }>;
+  agreement: JudgeAgreement;
+}
+
+export interface EnsembleJudgeResult extends JudgeResult {
+  ensemble: JudgeEnsemble;
+}
+
+const NO_USAGE: JudgeResult["usage"] = { inputTokens: 0, outputTokens: 0, totalTokens: 0, cachedInputTokens: 0 };
+
+function addUsage(total: JudgeResult["usage"], usage: JudgeResult["usage"]): JudgeResult["usage"] {
+  return {
+    inputTokens: total.inputTokens + usage.inputTokens,
+    outputTokens: total.outputTokens + usage.outputTokens,
+    totalTokens: total.totalTokens + usage.totalTokens,
+    cachedInputTokens: (total.cachedInputTokens ?? 0) + (usage.cachedInputTokens ?? 0),
+  };
+}
+
+function roundScore(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+export function aggregateScores(scores: number[], aggregation: JudgeAggregation): number {
+  if (aggregation === "min") {
+    return Math.min(...scores);
+  }
+  if (aggregation === "median") {
+    const sorted = [...scores].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return roundScore(sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle]);
+  }
+  return roundScore(scores.reduce((sum, score) => sum + score, 0) / scores.length);
+}
+
+export function measureAgreement(scores: number[]): JudgeAgreement {
+  const mean = scores.reduce((sum, score) => sum + score, 0) / scores.length;
+  const variance = scores.reduce((sum, score) => sum + (score - mean) ** 2, 0) / scores.length;
+  const spread = Math.max(...scores) - Math.min(...scores);
+  return {
+    spread,
+    stdDev: roundScore(Math.sqrt(variance)),
+    disagreement: spread >= JUDGE_DISAGREEMENT_THRESHOLD,
+  };
+}
+
+/**
+ * Judge a modified image with several judge models in parallel and combine their scores.
+ * The proposed prompt comes from the first judge (in the given order) that answered.
+ * Criteria are combined with the same aggregation as the score; checks by majority vote.
+ * Judges that fail are listed in ensemble.failedJudges; if every judge fails the first error is thrown.
+ * Usage and cost include what failed judges were billed, so they report everything the ensemble spent.
+ */
+export async function judgeImageEnsemble(
+  originalImageBuffer: Buffer,
+  modifiedImageBuffer: Buffer,
+  userPrompt: string,
+  modelIds: string[],
+  aggregation: JudgeAggregation,
+  selectAllMode: boolean = false,
+  maskImageBuffer?: Buffer,
+  rubric: JudgeRubric = DEFAULT_JUDGE_RUBRIC,
+  regionSource?: JudgeRegionSource,
+  annotationMode: "grid" | "coords" = "grid"
+): Promise<EnsembleJudgeResult> {
+  const settled = await Promise.allSettled(
+    modelIds.map((modelId) =>
+      judgeImage(
+        originalImageBuffer,
+        modifiedImageBuffer,
+        userPrompt,
+        modelId,
+        selectAllMode,
+        maskImageBuffer,
+        rubric,
+        regionSource,
+        annotationMode
+      )
+    )
+  );
+
+  const results = settled.flatMap((outcome, index) =>
+    outcome.status === "fulfilled" ? [{ modelId: modelIds[index], result: outcome.value }] : []
+  );
+  const failures = settled.flatMap((outcome, index) => {
+    if (outcome.status === "fulfilled") {
+      return [];
+    }
+    const error = classifyProviderError(outcome.reason);
+    const billed = error instanceof JudgeCallError ? error : { usage: NO_USAGE, cost: 0 };
+    return [{ modelId: modelIds[index], error, usage: billed.usage, cost: billed.cost }];
+  });
+  const failedJudges = failures.map(({ modelId, error, cost }) => ({ modelId, error: error.message, cost }));
+  const failedUsage = failures.reduce((total, failure) => addUsage(total, failure.usage), NO_USAGE);
+  const failedCost = failures.reduce((total, failure) => total + failure.cost, 0);
+  if (results.length === 0) {
+    throw new JudgeCallError(failures[0].error, failedUsage, failedCost);
+  }
+
+  const judges: JudgeVerdict[] = results.map(({ modelId, result: { usage: _usage, ...verdict } }) => ({
+    modelId,
+    ...verdict,
+  }));
+  const scores = judges.map((judge) => judge.score);
+  // Every judge answered the same rubric, so the first one's items are everyone's
+  const criteria = Object.fromEntries(
+    Object.keys(judges[0].criteria).map((id) => [
+      id,
+      aggregateScores(
+        judges.map((judge) => judge.criteria[id]),
+        aggregation
+      ),
+    ])
+  );
+  // Majority vote; ties count as failed
+  const checks = Object.fromEntries(
+    Object.keys(judges[0].checks).map((id) => [
+      id,
+      judges.filter((judge) => judge.checks[id]).length > judges.length / 2,
+    ])
+  );
+
+  return {
+    score: aggregateScores(scores, aggregation),
+    ...("changesCorrect" in criteria ? { changesCorrect: criteria.changesCorrect } : {}),
+    ...("preservation" in criteria ? { preservation: criteria.preservation } : {}),
+    ...("blueBorderRemoved" in checks ? { blueBorderRemoved: checks.blueBorderRemoved } : {}),
+    criteria,
+    checks,
+    // Rationales explain one judge's scores, so they come from the same judge as the proposed prompt;
+    // defects any judge found are all kept
+    rationales: judges[0].rationales,
+    defects: Array.from(new Set(judges.flatMap((judge) => judge.defects))),
+    rubricId: rubric.id,
+    proposedPrompt: judges[0].proposedPrompt,
+    usage: results.reduce((total, { result }) => addUsage(total, result.usage), failedUsage),
+    cost: judges.reduce((total, judge) => total + judge.cost, failedCost),
+    // Judges run in parallel, so the ensemble takes as long as its slowest judge
+    durationMs: Math.max(...judges.map((judge) => judge.durationMs ?? 0)),
+    ensemble: {
+      aggregation,
+      judges,
+      failedJudges,
+      agreement: measureAgreement(scores),
+    },
+  };
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { pearsonCorrelation, spearmanCorrelation } from "./evaluation";
+
+describe("pearsonCorrelation", () => {
+  it("is 1 or -1 for exactly linear series", () => {
+    expect(pearsonCorrelation([1, 2, 3, 4], [3, 5, 7, 9])).toBeCloseTo(1);
+    expect(pearsonCorrelation([1, 2, 3, 4], [8, 6, 4, 2])).toBeCloseTo(-1);
+  });
+
+  it("measures the linear correlation of known series", () => {
+    // Covariance 6, variances 10 and 6
+    expect(pearsonCorrelation([1, 2, 3, 4, 5], [2, 4, 5, 4, 5])).toBeCloseTo(6 / Math.sqrt(60));
+  });
+
+  it("is null with fewer than two pairs", () => {
+    expect(pearsonCorrelation([], [])).toBeNull();
+    expect(pearsonCorrelation([5], [7])).toBeNull();
+  });
+
+  it("is null instead of dividing by zero when a series is constant", () => {
+    expect(pearsonCorrelation([5, 5, 5], [1, 2, 3])).toBeNull();
+    expect(pearsonCorrelation([1, 2, 3], [7, 7, 7])).toBeNull();
+  });
+
+  it("rejects series of different lengths", () => {
+    expect(() => pearsonCorrelation([1, 2, 3], [1, 2])).toThrow("same length");
+  });
+});
+
+describe("spearmanCorrelation", () => {
+  it("is 1 for any monotonic relation", () => {
+    expect(spearmanCorrelation([1, 2, 3, 4], [1, 8, 27, 64])).toBeCloseTo(1);
+    expect(spearmanCorrelation([1, 2, 3, 4], [10, 9, 2, 1])).toBeCloseTo(-1);
+  });
+
+  it("gives tied values their average rank", () => {
+    // Ranks [1.5, 1.5, 3, 4] against [1, 2, 3, 4]
+    expect(spearmanCorrelation([2, 2, 5, 9], [1, 2, 3, 4])).toBeCloseTo(4.5 / Math.sqrt(4.5 * 5));
+    expect(spearmanCorrelation([3, 3, 1, 1], [4, 4, 2, 2])).toBeCloseTo(1);
+  });
+
+  it("is null when every value ties", () => {
+    expect(spearmanCorrelation([4, 4, 4], [1, 2, 3])).toBeNull();
+  });
+
+  it("rejects series of different lengths", () => {
+    expect(() => spearmanCorrelation([1, 2], [1, 2, 3])).toThrow("same length");
+  });
+});
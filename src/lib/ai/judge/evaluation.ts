@@ -0,0 +1,259 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { z } from "zod";
+import { resizeImageForJudge } from "~/utils/imageProcessing";
+import { classifyProviderError } from "../provider-call";
+import { judgeImage } from "./index";
+import { DEFAULT_JUDGE_RUBRIC, type JudgeRubric } from "./rubric";
+
+// case.json next to original.png, modified.png and (for mask transport cases) mask.png
+const benchmarkCaseSchema = z.object({
+  prompt: z.string().min(1),
+  humanScore: z.number().min(1).max(10),
+  selectAllMode: z.boolean().optional(),
+  notes: z.string().optional(),
+});
+
+export interface BenchmarkCase {
+  name: string; // Folder name
+  prompt: string;
+  humanScore: number;
+  selectAllMode: boolean;
+  originalImageBuffer: Buffer;
+  modifiedImageBuffer: Buffer;
+  maskImageBuffer?: Buffer;
+}
+
+export interface CaseEvaluation {
+  caseName: string;
+  humanScore: number;
+  judgeScore: number | null; // null when the judge call failed
+  error?: string;
+  cost: number;
+  durationMs: number;
+}
+
+export interface ModelEvaluation {
+  modelId: string;
+  rubricId: string;
+  cases: CaseEvaluation[];
+  failedCases: number;
+  pearson: number | null; // null with fewer than two scored cases or no variance
+  spearman: number | null;
+  meanAbsoluteError: number | null;
+  meanBias: number | null; // Judge minus human; positive means the judge is lenient
+  judgeHistogram: number[]; // Count of judge scores per rounded score 1-10 (index 0 is score 1)
+  humanHistogram: number[];
+  totalCost: number;
+  latencyMs: { mean: number; p50: number; p95: number };
+}
+
+export interface JudgeEvaluationReport {
+  casesDir: string;
+  caseCount: number;
+  models: ModelEvaluation[];
+  createdAt: string;
+}
+
+async function readOptionalFile(filepath: string): Promise<Buffer | undefined> {
+  try {
+    return await fs.readFile(filepath);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Load benchmark cases: every subfolder of casesDir with a case.json, original.png and modified.png.
+ * Folders missing one of them are reported and skipped; an invalid case.json is an error.
+ */
+export async function loadBenchmarkCases(casesDir: string): Promise<BenchmarkCase[]> {
+  const entries = await fs.readdir(casesDir, { withFileTypes: true });
+  const cases = await Promise.all(
+    entries
+      .filter((entry) => entry.isDirectory())
+      .map(async ({ name }): Promise<BenchmarkCase | undefined> => {
+        const caseDir = path.join(casesDir, name);
+        const [caseJson, originalImageBuffer, modifiedImageBuffer, maskImageBuffer] = await Promise.all([
+          readOptionalFile(path.join(caseDir, "case.json")),
+          readOptionalFile(path.join(caseDir, "original.png")),
+          readOptionalFile(path.join(caseDir, "modified.png")),
+          readOptionalFile(path.join(caseDir, "mask.png")),
+        ]);
+        if (!caseJson || !originalImageBuffer || !modifiedImageBuffer) {
+          console.warn(`[Judge eval] Skipping ${name}: needs case.json, original.png and modified.png`);
+          return undefined;
+        }
+
+        const parsed = benchmarkCaseSchema.safeParse(JSON.parse(caseJson.toString("utf-8")));
+        if (!parsed.success) {
+          throw new Error(`Invalid case.json in ${name}: ${parsed.error.issues[0]?.message}`);
+        }
+        return {
+          name,
+          prompt: parsed.data.prompt,
+          humanScore: parsed.data.humanScore,
+          selectAllMode: parsed.data.selectAllMode ?? false,
+          originalImageBuffer,
+          modifiedImageBuffer,
+          maskImageBuffer,
+        };
+      })
+  );
+  return cases
+    .filter((benchmarkCase): benchmarkCase is BenchmarkCase => benchmarkCase !== undefined)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+// Correlation of paired series; null with fewer than two pairs, or when either series is constant
+export function pearsonCorrelation(xs: number[], ys: number[]): number | null {
+  if (xs.length !== ys.length) {
+    throw new Error(`Correlated series must have the same length (${xs.length} and ${ys.length})`);
+  }
+  if (xs.length < 2) {
+    return null;
+  }
+  const meanX = mean(xs);
+  const meanY = mean(ys);
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  xs.forEach((x, i) => {
+    covariance += (x - meanX) * (ys[i] - meanY);
+    varianceX += (x - meanX) ** 2;
+    varianceY += (ys[i] - meanY) ** 2;
+  });
+  return varianceX === 0 || varianceY === 0 ? null : covariance / Math.sqrt(varianceX * varianceY);
+}
+
+// Ranks starting at 1; tied values share their average rank
+function toRanks(values: number[]): number[] {
+  const order = values.map((value, index) => ({ value, index })).sort((a, b) => a.value - b.value);
+  const ranks = new Array<number>(values.length);
+  let start = 0;
+  while (start < order.length) {
+    let end = start;
+    while (end + 1 < order.length && order[end + 1].value === order[start].value) {
+      end++;
+    }
+    const averageRank = (start + end) / 2 + 1;
+    for (let i = start; i <= end; i++) {
+      ranks[order[i].index] = averageRank;
+    }
+    start = end + 1;
+  }
+  return ranks;
+}
+
+// Rank correlation of paired series, with ties ranked by their average; null as for pearsonCorrelation
+export function spearmanCorrelation(xs: number[], ys: number[]): number | null {
+  return pearsonCorrelation(toRanks(xs), toRanks(ys));
+}
+
+function toHistogram(scores: number[]): number[] {
+  const histogram = new Array<number>(10).fill(0);
+  scores.forEach((score) => {
+    histogram[Math.max(1, Math.min(10, Math.round(score))) - 1]++;
+  });
+  return histogram;
+}
+
+function percentile(sortedValues: number[], fraction: number): number {
+  if (sortedValues.length === 0) {
+    return 0;
+  }
+  return sortedValues[Math.min(sortedValues.length - 1, Math.ceil(fraction * sortedValues.length) - 1)];
+}
+
+function round(value: number | null, digits: number = 3): number | null {
+  return value === null ? null : Math.round(value * 10 ** digits) / 10 ** digits;
+}
+
+export function summarizeModelEvaluation(modelId: string, rubricId: string, cases: CaseEvaluation[]): ModelEvaluation {
+  const scored = cases.filter((c): c is CaseEvaluation & { judgeScore: number } => c.judgeScore !== null);
+  const judgeScores = scored.map((c) => c.judgeScore);
+  const humanScores = scored.map((c) => c.humanScore);
+  const durations = cases.map((c) => c.durationMs).sort((a, b) => a - b);
+
+  return {
+    modelId,
+    rubricId,
+    cases,
+    failedCases: cases.length - scored.length,
+    pearson: round(pearsonCorrelation(judgeScores, humanScores)),
+    spearman: round(spearmanCorrelation(judgeScores, humanScores)),
+    meanAbsoluteError: scored.length > 0 ? round(mean(scored.map((c) => Math.abs(c.judgeScore - c.humanScore)))) : null,
+    meanBias: scored.length > 0 ? round(mean(scored.map((c) => c.judgeScore - c.humanScore))) : null,
+    judgeHistogram: toHistogram(judgeScores),
+    humanHistogram: toHistogram(cases.map((c) => c.humanScore)),
+    totalCost: cases.reduce((sum, c) => sum + c.cost, 0),
+    latencyMs: {
+      mean: durations.length > 0 ? Math.round(mean(durations)) : 0,
+      p50: percentile(durations, 0.5),
+      p95: percentile(durations, 0.95),
+    },
+  };
+}
+
+/**
+ * Judge every benchmark case with one judge model, on the same thumbnails the app's judge sees,
+ * and compare the scores with the human labels. Failed judge calls are recorded, not thrown.
+ */
+export async function evaluateJudgeModel(
+  cases: BenchmarkCase[],
+  modelId: string,
+  { rubric = DEFAULT_JUDGE_RUBRIC, concurrency = 2 }: { rubric?: JudgeRubric; concurrency?: number } = {}
+): Promise<ModelEvaluation> {
+  const results = new Array<CaseEvaluation>(cases.length);
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < cases.length) {
+      const index = nextIndex++;
+      const benchmarkCase = cases[index];
+      const startTime = Date.now();
+      try {
+        const [originalThumbnail, modifiedThumbnail, maskThumbnail] = await Promise.all([
+          resizeImageForJudge(benchmarkCase.originalImageBuffer),
+          resizeImageForJudge(benchmarkCase.modifiedImageBuffer),
+          benchmarkCase.maskImageBuffer ? resizeImageForJudge(benchmarkCase.maskImageBuffer) : undefined,
+        ]);
+        const judgeResult = await judgeImage(
+          originalThumbnail,
+          modifiedThumbnail,
+          benchmarkCase.prompt,
+          modelId,
+          benchmarkCase.selectAllMode,
+          maskThumbnail,
+          rubric
+        );
+        results[index] = {
+          caseName: benchmarkCase.name,
+          humanScore: benchmarkCase.humanScore,
+          judgeScore: judgeResult.score,
+          cost: judgeResult.cost,
+          durationMs: judgeResult.durationMs ?? Date.now() - startTime,
+        };
+      } catch (error) {
+        results[index] = {
+          caseName: benchmarkCase.name,
+          humanScore: benchmarkCase.humanScore,
+          judgeScore: null,
+          error: classifyProviderError(error).message,
+          cost: 0,
+          durationMs: Date.now() - startTime,
+        };
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, cases.length)) }, worker));
+  return summarizeModelEvaluation(modelId, rubric.id, results);
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { toStandings, type PairwiseComparison, type PairwiseWinner } from "./pairwise";
+
+const candidates = (...ids: string[]) => ids.map((generationId) => ({ generationId, imageBuffer: Buffer.alloc(0) }));
+
+const match = (generationIdA: string, generationIdB: string, winner: PairwiseWinner): PairwiseComparison => ({
+  generationIdA,
+  generationIdB,
+  winner,
+  reason: "",
+});
+
+describe("toStandings", () => {
+  it("counts wins, ties and losses whichever side the candidate was shown on", () => {
+    const standings = toStandings(candidates("a", "b", "c"), [
+      match("a", "b", "A"),
+      match("c", "a", "tie"),
+      match("b", "c", "B"),
+    ]);
+
+    expect(standings).toEqual([
+      { generationId: "a", rank: 1, wins: 1, losses: 0, ties: 1, points: 1.5 },
+      { generationId: "c", rank: 1, wins: 1, losses: 0, ties: 1, points: 1.5 },
+      { generationId: "b", rank: 3, wins: 0, losses: 2, ties: 0, points: 0 },
+    ]);
+  });
+
+  it("breaks level points by the head-to-head result", () => {
+    // x and y both win twice, and x beat y; w and z both win once, and w beat z
+    const standings = toStandings(candidates("y", "z", "w", "x"), [
+      match("x", "y", "A"),
+      match("x", "z", "B"),
+      match("w", "x", "B"),
+      match("y", "z", "A"),
+      match("w", "y", "B"),
+      match("z", "w", "B"),
+    ]);
+
+    expect(standings.map(({ generationId, rank, points }) => ({ generationId, rank, points }))).toEqual([
+      { generationId: "x", rank: 1, points: 2 },
+      { generationId: "y", rank: 2, points: 2 },
+      { generationId: "w", rank: 3, points: 1 },
+      { generationId: "z", rank: 4, points: 1 },
+    ]);
+  });
+
+  it("gives candidates still level after the head-to-head the same rank, in candidate order", () => {
+    const standings = toStandings(candidates("b", "a"), [match("a", "b", "tie")]);
+
+    expect(standings.map(({ generationId, rank }) => [generationId, rank])).toEqual([
+      ["b", 1],
+      ["a", 1],
+    ]);
+  });
+
+  it("lists candidates without comparisons with no points", () => {
+    const standings = toStandings(candidates("a", "b", "c"), [match("a", "b", "B")]);
+
+    expect(standings.map(({ generationId, rank, points }) => [generationId, rank, points])).toEqual([
+      ["b", 1, 1],
+      ["a", 2, 0],
+      ["c", 2, 0],
+    ]);
+  });
+});
@@ -0,0 +1,239 @@
+import { generateObject } from "ai";
+import { z } from "zod";
+import { callProvider } from "../provider-call";
+import { getJudgeModel, getJudgeModelConfig, calculateJudgeCost, DEFAULT_JUDGE_MODEL_ID } from "./models";
+
+const pairwiseResponseSchema = z.object({
+  winner: z
+    .enum(["A", "B", "tie"])
+    .describe('Which candidate better satisfies the request: "A", "B", or "tie" if neither is clearly better.'),
+  reason: z.string().describe("One or two sentences on the deciding difference between the candidates."),
+});
+
+export type PairwiseWinner = z.infer<typeof pairwiseResponseSchema>["winner"];
+
+export interface PairwiseComparison {
+  generationIdA: string; // Shown to the judge as candidate A
+  generationIdB: string;
+  winner: PairwiseWinner;
+  reason: string;
+}
+
+export interface PairwiseStanding {
+  generationId: string;
+  rank: number; // 1 is best; tied candidates share a rank
+  wins: number;
+  losses: number;
+  ties: number;
+  points: number; // 1 per win, 0.5 per tie
+}
+
+export interface PairwiseRanking {
+  modelId: string;
+  standings: PairwiseStanding[]; // Best first
+  comparisons: PairwiseComparison[];
+  usage: {
+    inputTokens: number;
+    outputTokens: number;
+    totalTokens: number;
+  };
+  cost: number; // Cost in USD
+  durationMs: number;
+  createdAt: string;
+}
+
+export interface PairwiseCandidate {
+  generationId: string;
+  imageBuffer: Buffer;
+}
+
+interface PairwiseOptions {
+  modelId?: string;
+  selectAllMode?: boolean;
+  maskImageBuffer?: Buffer; // Mask transport: the original is unannotated and the mask marks the selected areas
+  annotationMode?: "grid" | "coords"; // Whether the mask is a cell selection mask or a coordinate marker layer
+  // Wraps each comparison, e.g. to hold a provider concurrency slot
+  runComparison?: <T>(compare: () => Promise<T>) => Promise<T>;
+}
+
+/**
+ * Compare two candidate edits of the same original head-to-head.
+ * The judge sees the original, candidate A, candidate B and (in mask transport) the selection mask or marker layer.
+ */
+async function compareCandidates(
+  originalImageBuffer: Buffer,
+  candidateA: PairwiseCandidate,
+  candidateB: PairwiseCandidate,
+  userPrompt: string,
+  modelId: string,
+  selectAllMode: boolean,
+  maskImageBuffer?: Buffer,
+  annotationMode: "grid" | "coords" = "grid"
+) {
+  const modelConfig = getJudgeModelConfig(modelId);
+  const selectionDescription = selectAllMode
+    ? "The user requested modifications to the entire image."
+    : maskImageBuffer
+      ? annotationMode === "grid"
+        ? "The last image is a selection mask: white areas were selected for modification and black areas must stay unchanged."
+        : "The last image is a marker layer: numbered markers (points and lines) drawn on black show where the user wants modifications; the rest of the image must stay unchanged and the markers must not appear in the candidates."
+      : "The original image contains blue borders marking the areas selected for modification; candidates should have them removed.";
+
+  const system = `You are a CRITICAL image modification judge comparing two candidate edits of the same original image.
+
+The first image is the original. The second image is candidate A and the third image is candidate B. ${selectionDescription}
+
+Decide which candidate better satisfies the user's request. Weigh, in order:
+1. Were the requested changes made correctly and completely?
+2. Were areas that should stay unchanged preserved?
+3. Is the result natural, with no artifacts or leftover annotations?
+
+Judge the images, not their order: being shown first is not an advantage. Answer "tie" only when neither candidate is clearly better.`;
+
+  const { object, usage } = await callProvider(`Pairwise judge ${modelId}`, () =>
+    generateObject({
+      model: getJudgeModel(modelId),
+      schema: pairwiseResponseSchema,
+      system,
+      messages: [
+        {
+          role: "user",
+          content: [
+            { type: "text", text: `User's modification instructions: "${userPrompt}"` },
+            { type: "image", image: originalImageBuffer, mediaType: "image/png" },
+            { type: "image", image: candidateA.imageBuffer, mediaType: "image/png" },
+            { type: "image", image: candidateB.imageBuffer, mediaType: "image/png" },
+            ...(maskImageBuffer ? [{ type: "image" as const, image: maskImageBuffer, mediaType: "image/png" }] : []),
+          ],
+        },
+      ],
+      ...(modelConfig?.providerOptions ? { providerOptions: modelConfig.providerOptions } : {}),
+      maxRetries: 0,
+    })
+  );
+
+  return {
+    comparison: {
+      generationIdA: candidateA.generationId,
+      generationIdB: candidateB.generationId,
+      winner: object.winner,
+      reason: object.reason.trim(),
+    },
+    usage: {
+      inputTokens: usage?.inputTokens ?? 0,
+      outputTokens: usage?.outputTokens ?? 0,
+      totalTokens: usage?.totalTokens ?? 0,
+      cachedInputTokens: usage?.cachedInputTokens ?? 0,
+    },
+  };
+}
+
+// Order standings by points, breaking ties by the head-to-head result; candidates still level share a rank
+export function toStandings(candidates: PairwiseCandidate[], comparisons: PairwiseComparison[]): PairwiseStanding[] {
+  const standings = new Map(
+    candidates.map(({ generationId }) => [
+      generationId,
+      { generationId, rank: 0, wins: 0, losses: 0, ties: 0, points: 0 },
+    ])
+  );
+  comparisons.forEach(({ generationIdA, generationIdB, winner }) => {
+    const a = standings.get(generationIdA)!;
+    const b = standings.get(generationIdB)!;
+    if (winner === "tie") {
+      a.ties++;
+      b.ties++;
+      a.points += 0.5;
+      b.points += 0.5;
+    } else {
+      const [winnerStanding, loserStanding] = winner === "A" ? [a, b] : [b, a];
+      winnerStanding.wins++;
+      winnerStanding.points++;
+      loserStanding.losses++;
+    }
+  });
+
+  const headToHead = (x: string, y: string): number => {
+    const match = comparisons.find(
+      (c) => (c.generationIdA === x && c.generationIdB === y) || (c.generationIdA === y && c.generationIdB === x)
+    );
+    if (!match || match.winner === "tie") {
+      return 0;
+    }
+    const winnerId = match.winner === "A" ? match.generationIdA : match.generationIdB;
+    return winnerId === x ? -1 : 1;
+  };
+  const compare = (x: PairwiseStanding, y: PairwiseStanding) =>
+    y.points - x.points || headToHead(x.generationId, y.generationId);
+
+  const sorted = Array.from(standings.values()).sort(compare);
+  sorted.forEach((standing, index) => {
+    const previous = sorted[index - 1];
+    standing.rank = previous && compare(previous, standing) === 0 ? previous.rank : index + 1;
+  });
+  return sorted;
+}
+
+/**
+ * Rank candidate edits of one run with a round-robin of head-to-head comparisons.
+ * Candidate order alternates between pairs so no candidate is always shown first.
+ */
+export async function rankCandidatesPairwise(
+  originalImageBuffer: Buffer,
+  candidates: PairwiseCandidate[],
+  userPrompt: string,
+  {
+    modelId = DEFAULT_JUDGE_MODEL_ID,
+    selectAllMode = false,
+    maskImageBuffer,
+    annotationMode = "grid",
+    runComparison = (compare) => compare(),
+  }: PairwiseOptions = {}
+): Promise<PairwiseRanking> {
+  if (candidates.length < 2) {
+    throw new Error("Pairwise ranking needs at least two candidates");
+  }
+
+  const pairs = candidates.flatMap((first, i) =>
+    candidates.slice(i + 1).map((second, offset) => ((i + offset) % 2 === 0 ? [first, second] : [second, first]))
+  );
+
+  const startTime = Date.now();
+  const results = await Promise.all(
+    pairs.map(([candidateA, candidateB]) =>
+      runComparison(() =>
+        compareCandidates(
+          originalImageBuffer,
+          candidateA,
+          candidateB,
+          userPrompt,
+          modelId,
+          selectAllMode,
+          maskImageBuffer,
+          annotationMode
+        )
+      )
+    )
+  );
+  const durationMs = Date.now() - startTime;
+
+  const comparisons = results.map((result) => result.comparison);
+  const usage = results.reduce(
+    (total, result) => ({
+      inputTokens: total.inputTokens + result.usage.inputTokens,
+      outputTokens: total.outputTokens + result.usage.outputTokens,
+      totalTokens: total.totalTokens + result.usage.totalTokens,
+      cachedInputTokens: total.cachedInputTokens + result.usage.cachedInputTokens,
+    }),
+    { inputTokens: 0, outputTokens: 0, totalTokens: 0, cachedInputTokens: 0 }
+  );
+
+  return {
+    modelId,
+    standings: toStandings(candidates, comparisons),
+    comparisons,
+    usage: { inputTokens: usage.inputTokens, outputTokens: usage.outputTokens, totalTokens: usage.totalTokens },
+    cost: calculateJudgeCost(modelId, usage.inputTokens, usage.outputTokens, usage.cachedInputTokens),
+    durationMs,
+    createdAt: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,169 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_JUDGE_RUBRIC,
+  buildRubricResponseSchema,
+  buildRubricSystemPrompt,
+  computeRubricScore,
+  judgeRubricSchema,
+  parseCriterionScores,
+  type JudgeRubric,
+} from "./rubric";
+
+// Three criteria weighted 3:1:1, one of them only scored when part of the image was selected
+const RUBRIC: JudgeRubric = {
+  id: "test",
+  name: "Test",
+  criteria: [
+    { id: "accuracy", name: "Accuracy", description: "Is the change right?", weight: 3 },
+    { id: "realism", name: "Realism", description: "Does it look real?", weight: 1 },
+    {
+      id: "preservation",
+      name: "Preservation",
+      description: "Is the rest unchanged?",
+      selectAllDescription: "Is the style kept?",
+      weight: 1,
+      appliesTo: ["borders", "mask"],
+    },
+  ],
+  checks: [{ id: "bordersGone", name: "Borders gone", description: "Are the borders gone?", appliesTo: ["borders"] }],
+};
+
+describe("computeRubricScore", () => {
+  it("weights the criterion scores", () => {
+    expect(computeRubricScore(RUBRIC, "mask", { accuracy: 10, realism: 5, preservation: 5 })).toBe(8);
+    expect(computeRubricScore(RUBRIC, "mask", { accuracy: 7, realism: 4, preservation: 2 })).toBe(5.4);
+  });
+
+  it("weights the built-in rubric's changes twice as much as preservation", () => {
+    expect(computeRubricScore(DEFAULT_JUDGE_RUBRIC, "borders", { changesCorrect: 9, preservation: 3 })).toBe(7);
+  });
+
+  it("only weights the criteria that apply to the mode", () => {
+    // preservation doesn't apply in select-all mode, so its score is ignored
+    expect(computeRubricScore(RUBRIC, "selectAll", { accuracy: 8, realism: 4, preservation: 1 })).toBe(7);
+  });
+
+  it("clamps scores to 1-10", () => {
+    expect(computeRubricScore(RUBRIC, "mask", { accuracy: 14, realism: 10, preservation: 10 })).toBe(10);
+    expect(computeRubricScore(RUBRIC, "mask", { accuracy: -3, realism: 0, preservation: 1 })).toBe(1);
+  });
+
+  it("rescales the weights over the criteria that have a score", () => {
+    expect(computeRubricScore(RUBRIC, "mask", { accuracy: 9, realism: 5 })).toBe(8);
+    expect(computeRubricScore(RUBRIC, "mask", { accuracy: 6, realism: Number.NaN, preservation: 6 })).toBe(6);
+  });
+
+  it("throws when no criterion has a score", () => {
+    expect(() => computeRubricScore(RUBRIC, "mask", {})).toThrow("no scores");
+  });
+});
+
+describe("parseCriterionScores", () => {
+  it("rounds and clamps the applicable criterion scores", () => {
+    expect(parseCriterionScores(RUBRIC, "mask", { accuracy: 7.6, realism: 12, preservation: 0, extra: 5 })).toEqual({
+      accuracy: 8,
+      realism: 10,
+      preservation: 1,
+    });
+  });
+
+  it("accepts numeric strings and leaves out missing or non-numeric scores", () => {
+    expect(parseCriterionScores(RUBRIC, "mask", { accuracy: "6", realism: "high", preservation: null })).toEqual({
+      accuracy: 6,
+    });
+    expect(parseCriterionScores(RUBRIC, "mask", { accuracy: "", realism: true })).toEqual({});
+  });
+});
+
+describe("buildRubricResponseSchema", () => {
+  it("asks for defects, rationales, each applicable criterion and check, and a proposed prompt", () => {
+    const schema = buildRubricResponseSchema(RUBRIC, "borders");
+
+    expect(Object.keys(schema.shape)).toEqual([
+      "defects",
+      "rationales",
+      "accuracy",
+      "realism",
+      "preservation",
+      "bordersGone",
+      "proposedPrompt",
+    ]);
+    expect(Object.keys(buildRubricResponseSchema(RUBRIC, "selectAll").shape)).toEqual([
+      "defects",
+      "rationales",
+      "accuracy",
+      "realism",
+      "proposedPrompt",
+    ]);
+  });
+
+  it("only accepts integer scores from 1 to 10", () => {
+    const schema = buildRubricResponseSchema(RUBRIC, "mask");
+    const response = {
+      defects: [],
+      rationales: { accuracy: "Good", realism: "Good", preservation: "Good" },
+      accuracy: 8,
+      realism: 1,
+      preservation: 10,
+      proposedPrompt: "Make it red",
+    };
+
+    expect(schema.safeParse(response).success).toBe(true);
+    expect(schema.safeParse({ ...response, accuracy: 11 }).success).toBe(false);
+    expect(schema.safeParse({ ...response, realism: 0 }).success).toBe(false);
+    expect(schema.safeParse({ ...response, preservation: 7.5 }).success).toBe(false);
+  });
+});
+
+describe("buildRubricSystemPrompt", () => {
+  it("lists the criteria by weight with their share of the score", () => {
+    const prompt = buildRubricSystemPrompt(RUBRIC, "mask");
+
+    expect(prompt).toContain('"accuracy" (1-10, REQUIRED, 60% of the overall score)');
+    expect(prompt.indexOf('"accuracy"')).toBeLessThan(prompt.indexOf('"realism"'));
+    expect(prompt).not.toContain('"bordersGone"');
+  });
+
+  it("uses the select-all description of a criterion when the whole image was selected", () => {
+    const rubric: JudgeRubric = {
+      ...RUBRIC,
+      criteria: RUBRIC.criteria.map((criterion) => ({ ...criterion, appliesTo: undefined })),
+    };
+
+    expect(buildRubricSystemPrompt(rubric, "selectAll")).toContain("Is the style kept?");
+    expect(buildRubricSystemPrompt(rubric, "mask")).toContain("Is the rest unchanged?");
+  });
+
+  it("describes the mask layer as a selection mask for cells and a marker layer for coordinates", () => {
+    const cellPrompt = buildRubricSystemPrompt(RUBRIC, "mask");
+    const markerPrompt = buildRubricSystemPrompt(RUBRIC, "mask", { annotationMode: "coords" });
+
+    expect(cellPrompt).toContain("selection mask");
+    expect(cellPrompt).not.toContain("marker layer");
+    expect(markerPrompt).toContain("marker layer");
+    expect(markerPrompt).not.toContain("white areas were selected");
+  });
+});
+
+describe("judgeRubricSchema", () => {
+  it("accepts the built-in rubric", () => {
+    expect(judgeRubricSchema.safeParse(DEFAULT_JUDGE_RUBRIC).success).toBe(true);
+  });
+
+  it("rejects duplicate and reserved item ids", () => {
+    const duplicate = { ...RUBRIC, checks: [{ ...RUBRIC.checks[0], id: "accuracy" }] };
+    const reserved = { ...RUBRIC, criteria: [...RUBRIC.criteria, { ...RUBRIC.criteria[0], id: "defects" }] };
+
+    expect(judgeRubricSchema.safeParse(duplicate).success).toBe(false);
+    expect(judgeRubricSchema.safeParse(reserved).success).toBe(false);
+  });
+
+  it("rejects rubrics that leave a mode without a scored criterion", () => {
+    const rubric = {
+      ...RUBRIC,
+      criteria: RUBRIC.criteria.map((criterion) => ({ ...criterion, appliesTo: ["borders" as const] })),
+    };
+
+    expect(judgeRubricSchema.safeParse(rubric).success).toBe(false);
+  });
+});
@@ -0,0 +1,249 @@
+import { z } from "zod";
+import { DEFAULT_JUDGE_RUBRIC_ID } from "~/utils/constants";
+
+// How the selection reached the model, which decides what the judge is shown and which rubric items apply
+export type JudgeMode = "borders" | "mask" | "selectAll";
+
+const JUDGE_MODES = ["borders", "mask", "selectAll"] as const;
+
+// Keys of the judge's structured response that every rubric gets
+const RESERVED_RESPONSE_KEYS = ["defects", "rationales", "proposedPrompt"];
+
+// Rubric item ids become keys of the judge's structured response
+const rubricItemIdSchema = z
+  .string()
+  .regex(/^[a-zA-Z][a-zA-Z0-9]*$/, "Ids must be camelCase identifiers")
+  .refine((id) => !RESERVED_RESPONSE_KEYS.includes(id), "defects, rationales and proposedPrompt are reserved");
+
+const rubricCriterionSchema = z.object({
+  id: rubricItemIdSchema,
+  name: z.string().min(1),
+  description: z.string().min(1), // What the judge scores 1-10
+  selectAllDescription: z.string().min(1).optional(), // Replaces description when the whole image was selected
+  weight: z.number().positive(), // Relative weight in the overall score
+  appliesTo: z.array(z.enum(JUDGE_MODES)).min(1).optional(), // Every mode when missing
+});
+
+const rubricCheckSchema = z.object({
+  id: rubricItemIdSchema,
+  name: z.string().min(1),
+  description: z.string().min(1), // Yes/no question; checks are reported but don't affect the score
+  appliesTo: z.array(z.enum(JUDGE_MODES)).min(1).optional(),
+});
+
+export const judgeRubricSchema = z
+  .object({
+    id: z.string().regex(/^[\w-]+$/, "Rubric ids may only contain letters, numbers, dashes and underscores"),
+    name: z.string().min(1),
+    description: z.string().optional(),
+    guidelines: z.array(z.string().min(1)).optional(), // Extra evaluation rules added to the judge prompt
+    criteria: z.array(rubricCriterionSchema).min(1),
+    checks: z.array(rubricCheckSchema).default([]),
+  })
+  .superRefine((rubric, ctx) => {
+    const ids = [...rubric.criteria, ...rubric.checks].map((item) => item.id);
+    const duplicate = ids.find((id, index) => ids.indexOf(id) !== index);
+    if (duplicate) {
+      ctx.addIssue({ code: "custom", message: `Duplicate rubric item id: ${duplicate}` });
+    }
+    if (!JUDGE_MODES.every((mode) => rubric.criteria.some((criterion) => appliesTo(criterion, mode)))) {
+      ctx.addIssue({ code: "custom", message: "Every judge mode needs at least one scored criterion" });
+    }
+  });
+
+export type JudgeRubric = z.infer<typeof judgeRubricSchema>;
+export type JudgeRubricCriterion = JudgeRubric["criteria"][number];
+export type JudgeRubricCheck = JudgeRubric["checks"][number];
+
+export { DEFAULT_JUDGE_RUBRIC_ID };
+
+// The built-in rubric: the criteria the judge has always scored, with changes weighted twice as much as preservation
+export const DEFAULT_JUDGE_RUBRIC: JudgeRubric = {
+  id: DEFAULT_JUDGE_RUBRIC_ID,
+  name: "Default",
+  description: "Correct changes first, then preservation of everything else.",
+  criteria: [
+    {
+      id: "changesCorrect",
+      name: "Changes correct",
+      description:
+        'Do the changes match what was requested in the prompt? This is CRITICAL - be very strict here. Score low (1-5) if the changes don\'t accurately reflect the user\'s intent, even if something changed. Examples: If user says "remove pillar" but pillar is still visible = 1-3. If user says "change to red" but it\'s pink = 2-4. If user says "add object" but it\'s missing = 1-3.',
+      weight: 2,
+    },
+    {
+      id: "preservation",
+      name: "Preservation",
+      description:
+        "Were non-selected areas preserved? Be strict: any unintended changes should lower this score significantly.",
+      selectAllDescription:
+        "Is the overall structure and style of the image preserved? (Should be high if only requested changes were made) Be strict: any unintended changes should lower this score significantly.",
+      weight: 1,
+    },
+  ],
+  checks: [
+    {
+      id: "blueBorderRemoved",
+      name: "Border removed",
+      description:
+        "Were all blue borders completely removed from the modified image? Answer true only if NO blue borders remain.",
+      appliesTo: ["borders"],
+    },
+  ],
+};
+
+function appliesTo(item: { appliesTo?: readonly JudgeMode[] }, mode: JudgeMode): boolean {
+  return !item.appliesTo || item.appliesTo.includes(mode);
+}
+
+export function getRubricCriteria(rubric: JudgeRubric, mode: JudgeMode): JudgeRubricCriterion[] {
+  return rubric.criteria.filter((criterion) => appliesTo(criterion, mode));
+}
+
+export function getRubricChecks(rubric: JudgeRubric, mode: JudgeMode): JudgeRubricCheck[] {
+  return rubric.checks.filter((check) => appliesTo(check, mode));
+}
+
+const DEFECTS_DESCRIPTION =
+  'Concrete problems in the modified image, each naming what is wrong and where (e.g. "pillar still visible in upper-left", "seam along the right edge of the selection"). Empty if there are none.';
+
+const PROPOSED_PROMPT_DESCRIPTION =
+  "A prompt to use with the ORIGINAL image (first image) in the next attempt, not the modified image being judged. If the user's prompt could have been improved, suggest a better prompt. If the prompt was good, provide the same prompt or a minor refinement.";
+
+/**
+ * Build the judge's structured response schema for a rubric: the defects found, a short rationale per
+ * applicable criterion, one 1-10 integer per criterion, one boolean per applicable check, and the proposed prompt.
+ * Defects and rationales come first so the judge writes down what it saw before scoring.
+ */
+export function buildRubricResponseSchema(rubric: JudgeRubric, mode: JudgeMode) {
+  const criteria = getRubricCriteria(rubric, mode);
+  const shape: Record<string, z.ZodTypeAny> = {
+    defects: z.array(z.string()).describe(DEFECTS_DESCRIPTION),
+    rationales: z
+      .object(
+        Object.fromEntries(
+          criteria.map((criterion) => [
+            criterion.id,
+            z.string().describe(`One or two sentences explaining the "${criterion.id}" score.`),
+          ])
+        )
+      )
+      .describe("Why each criterion got its score, keyed by criterion."),
+  };
+  criteria.forEach((criterion) => {
+    shape[criterion.id] = z
+      .number()
+      .int()
+      .min(1)
+      .max(10)
+      .describe(`Score 1-10: ${getCriterionDescription(criterion, mode)}`);
+  });
+  getRubricChecks(rubric, mode).forEach((check) => {
+    shape[check.id] = z.boolean().describe(`${check.description} This does not affect the scores.`);
+  });
+  shape.proposedPrompt = z.string().describe(PROPOSED_PROMPT_DESCRIPTION);
+  return z.object(shape);
+}
+
+function getCriterionDescription(criterion: JudgeRubricCriterion, mode: JudgeMode): string {
+  return mode === "selectAll" && criterion.selectAllDescription
+    ? criterion.selectAllDescription
+    : criterion.description;
+}
+
+/**
+ * Build the judge system prompt for a rubric. The introduction explains how the selection is shown for the
+ * mode (in mask mode, annotationMode tells a cell selection mask from a coordinate marker layer); criteria are
+ * listed by weight so the judge knows which matter most. With hasRegionCrops the prompt also explains the two
+ * full-resolution crops of the selected region that follow the other images.
+ */
+export function buildRubricSystemPrompt(
+  rubric: JudgeRubric,
+  mode: JudgeMode,
+  {
+    hasRegionCrops = false,
+    annotationMode = "grid",
+  }: { hasRegionCrops?: boolean; annotationMode?: "grid" | "coords" } = {}
+): string {
+  const selectionDescription =
+    mode === "selectAll"
+      ? `The user requested modifications to be applied to the entire image.`
+      : mode === "borders"
+        ? `The original image (first image) contains blue borders marking areas selected for modification. The modified image (second image) should have those borders removed and the selected areas changed.`
+        : annotationMode === "grid"
+          ? `The original image (first image) is unannotated. The third image is a selection mask of the same size: white areas were selected for modification and black areas must stay unchanged. The modified image (second image) should have the selected areas changed.`
+          : `The original image (first image) is unannotated. The third image is a marker layer of the same size: numbered markers (points and lines) drawn on black show where the user wants modifications. The modified image (second image) should have the marked locations changed and the rest of the image preserved; the markers themselves must not appear in it.`;
+
+  const regionCropDescription = hasRegionCrops
+    ? `\n\nThe last two images are full-resolution crops of the selected region (with a small margin around it): first from the original image, then from the modified image. The crop of the original is unannotated. Use them to inspect fine details of the change that are too small to see in the whole images.`
+    : "";
+
+  const criteria = [...getRubricCriteria(rubric, mode)].sort((a, b) => b.weight - a.weight);
+  const checks = getRubricChecks(rubric, mode);
+  const totalWeight = criteria.reduce((sum, criterion) => sum + criterion.weight, 0);
+  const [primary] = criteria;
+
+  const criteriaLines = criteria.map(
+    (criterion) =>
+      `- "${criterion.id}" (1-10, REQUIRED, ${Math.round((criterion.weight / totalWeight) * 100)}% of the overall score): ${getCriterionDescription(criterion, mode)}`
+  );
+  const checkLines = checks.map(
+    (check) =>
+      `- "${check.id}" (boolean, REQUIRED): ${check.description} This is a separate requirement that does NOT affect the scores.`
+  );
+  const guidelines = [
+    "Think deeply about the user's INTENT, not just literal compliance. What were they really trying to achieve?",
+    "Be STRICT: Partial implementations, subtle failures, or incomplete changes should receive LOW scores (1-5)",
+    "Only give HIGH scores (8-10) when the request is COMPLETELY and ACCURATELY satisfied",
+    "Look for subtle issues: wrong colors, incorrect styles, missing details, incomplete transformations",
+    "Consider context: Does the result make sense? Would the user be satisfied?",
+    `Be particularly critical of "${primary.id}" - it carries the most weight`,
+    ...(rubric.guidelines ?? []),
+  ];
+
+  return `You are a CRITICAL and STRICT image modification judge. Your role is to carefully evaluate whether a modified image truly and completely satisfies the user's intent. Be skeptical and thorough - do not give high scores unless the request was FULLY and ACCURATELY implemented.
+
+${selectionDescription} Compare the original image (first image) with the modified image (second image).${regionCropDescription}
+
+CRITICAL EVALUATION GUIDELINES:
+${guidelines.map((guideline) => `- ${guideline}`).join("\n")}
+
+Evaluate the following criteria:
+${[...criteriaLines, ...checkLines].join("\n")}
+- "defects" (list of strings, REQUIRED): ${DEFECTS_DESCRIPTION}
+- "rationales" (object, REQUIRED): For each criterion above, one or two sentences explaining its score. Refer to the defects where they apply.
+- "proposedPrompt" (string, REQUIRED): ${PROPOSED_PROMPT_DESCRIPTION}`;
+}
+
+// Criterion scores are integers from 1 to 10, whatever the judge returned
+function clampScore(score: number): number {
+  return Math.max(1, Math.min(10, Math.round(score)));
+}
+
+// Criterion scores from the judge's response, clamped to 1-10; criteria without a numeric score are left out
+export function parseCriterionScores(
+  rubric: JudgeRubric,
+  mode: JudgeMode,
+  response: Record<string, unknown>
+): Record<string, number> {
+  return Object.fromEntries(
+    getRubricCriteria(rubric, mode).flatMap((criterion) => {
+      const value = response[criterion.id];
+      const score = typeof value === "number" || (typeof value === "string" && value.trim()) ? Number(value) : NaN;
+      return Number.isFinite(score) ? [[criterion.id, clampScore(score)]] : [];
+    })
+  );
+}
+
+/**
+ * Weighted mean of the criterion scores (each clamped to 1-10), rounded to one decimal.
+ * Criteria without a score are left out and the remaining weights rescaled; throws when none has a score.
+ */
+export function computeRubricScore(rubric: JudgeRubric, mode: JudgeMode, scores: Record<string, number>): number {
+  const scored = getRubricCriteria(rubric, mode).filter((criterion) => Number.isFinite(scores[criterion.id]));
+  if (scored.length === 0) {
+    throw new Error(`Judge returned no scores for rubric ${rubric.id}`);
+  }
+  const totalWeight = scored.reduce((sum, criterion) => sum + criterion.weight, 0);
+  const weighted = scored.reduce((sum, criterion) => sum + clampScore(scores[criterion.id]) * criterion.weight, 0);
+  return Math.round((weighted / totalWeight) * 10) / 10;
+}
@@ -1,6 +1,6 @@
-import { google } from "@ai-sdk/google";
-import { generateText } from "ai";
 import { DEFAULT_GENERATION_MODEL_ID, IMAGES_PER_LLM_CALL, MODEL_SUMMARY } from "~/utils/constants";
+import { ProviderError, callProvider } from "../provider-call";
+import { getGenerationModel, type GenerationSelection } from "./models";
 
 const generationPricing = MODEL_SUMMARY[DEFAULT_GENERATION_MODEL_ID]?.pricing;
 
@@ -88,10 +88,39 @@ RULES FOR NUMBERED COORDINATE MARKERS:
 
 ${IMAGES_PER_LLM_CALL > 1 ? "All variations must remove all coordinate markers completely. " : ""}Remember: The numbered markers are visual references only - they must be completely absent from your final output.`;
 
+// Selection mask instructions (inserted instead of border instructions when the mask is sent as a separate image)
+const MASK_LAYER_INSTRUCTIONS = `
+
+RULES FOR THE SELECTION MASK:
+- The image to edit is unannotated. It is followed by a black-and-white selection mask of the same size
+- ONLY modify pixels under the WHITE areas of the mask - this is the ONLY area you can touch
+- Keep EVERYTHING under the black areas completely unchanged - no modifications, adjustments, or alterations
+- The mask is a guide only - never draw it, outline it, or reproduce it in your output
+
+${IMAGES_PER_LLM_CALL > 1 ? "All variations must strictly respect the mask boundaries. " : ""}Remember: The white mask areas are your ONLY workspace. Everything else is OFF-LIMITS.`;
+
+// Marker layer instructions (inserted instead of marker removal instructions when markers are sent as a separate image)
+const MARKER_LAYER_INSTRUCTIONS = `
+
+RULES FOR THE MARKER LAYER:
+- The image to edit is unannotated. It is followed by a marker layer of the same size, drawn on a black background
+- The marker layer shows numbered points (blue circles with white numbers) and/or numbered lines that the user may mention in their prompt (e.g., "draw a line from point 1 to point 2" or "modify along line 3")
+- Map each marker to the same position on the image you are editing
+- The markers are references only - never draw them or any part of the marker layer in your output
+
+${IMAGES_PER_LLM_CALL > 1 ? "All variations must keep the markers out of the output. " : ""}Remember: Edit the unannotated image; the marker layer only tells you where.`;
+
+// Note for multi-image requests where some images carry their own mask/marker layer
+const MULTI_IMAGE_MASK_INSTRUCTIONS = `Some images are followed by a separate mask or marker layer, labelled as such. White mask areas and markers indicate regions of interest in the image they follow - use them as guides only. Mask and marker layers are NOT input images and must NOT appear in your output.`;
+
 /**
  * Modifies an image based on the user's prompt.
  * When multiple images are provided, combines them into a new image incorporating the user's changes.
  * Returns the modified image buffer and token usage.
+ *
+ * When maskImageBuffers are given, originalImageBuffers are expected to be unannotated and each
+ * non-null mask (a cell mask in grid mode, a marker layer in coords mode) is sent right after its image.
+ * The base image's selection is passed on for models that take an edit mask instead of annotations.
  */
 export async function modifyImage(
   originalImageBuffers: Buffer[],
@@ -100,10 +129,15 @@ export async function modifyImage(
   hasCoordinateMarkers: boolean = false,
   annotationMode: "grid" | "coords" = "grid",
   hasCoordinatePoints: boolean = false,
-  hasCoordinateLines: boolean = false
+  hasCoordinateLines: boolean = false,
+  maskImageBuffers: Array<Buffer | null> = [],
+  generationModelId: string = DEFAULT_GENERATION_MODEL_ID,
+  selection?: GenerationSelection,
+  abortSignal?: AbortSignal
 ): Promise<ModifyImageResult> {
   // Always expect an array (single image is just array with one element)
   const isMultiImage = originalImageBuffers.length > 1;
+  const hasMaskLayers = maskImageBuffers.some((buffer) => buffer !== null);
 
   // Build system prompt by combining base instructions with conditional phrases
   const parts: string[] = [];
@@ -111,6 +145,15 @@ export async function modifyImage(
   // Add mode-specific instructions
   if (isMultiImage) {
     parts.push(MULTI_IMAGE_INSTRUCTIONS);
+    if (hasMaskLayers) {
+      parts.push(MULTI_IMAGE_MASK_INSTRUCTIONS);
+    }
+  } else if (hasMaskLayers) {
+    // Single image with a separate mask/marker layer: nothing is drawn on the image, so nothing needs removing
+    parts.push(BASE_INSTRUCTIONS);
+    if (!selectAllMode) {
+      parts.push(annotationMode === "grid" ? MASK_LAYER_INSTRUCTIONS : MARKER_LAYER_INSTRUCTIONS);
+    }
   } else {
     // Single image mode: adapt instructions based on annotation mode
     parts.push(BASE_INSTRUCTIONS);
@@ -157,73 +200,40 @@ export async function modifyImage(
   console.log("=".repeat(80));
   console.log();
 
-  // Prepare model
-  const model = google(DEFAULT_GENERATION_MODEL_ID);
-
-  // Workaround: Ensure specificationVersion is v3 (Nitro bundling issue)
-  if (model.specificationVersion !== "v3") {
-    Object.defineProperty(model, "specificationVersion", {
-      value: "v3",
-      writable: false,
-      enumerable: true,
-      configurable: true,
-    });
-  }
-
-  // Build content array for images only (no text, since it's in system prompt)
+  // Log image order for multi-image requests
   // Order: base image (index 0) first, then reference images (indices 1+)
   // This matches MULTI_IMAGE_INSTRUCTIONS: "The first image in the prompt list is the base image, the following image(s) are reference images"
-  const imageContent = originalImageBuffers.map((buffer, index) => {
-    if (isMultiImage) {
+  if (isMultiImage) {
+    originalImageBuffers.forEach((_, index) => {
       const role = index === 0 ? "base" : "reference";
       console.log(`[IMAGE ORDER] Image ${index}: ${role} image`);
-    }
-    return {
-      type: "image" as const,
-      image: buffer,
-      mediaType: "image/png" as const,
-    };
-  });
-
-  // Generate modified image
-  // Since we put the user query in the system prompt, we only pass images (no text in user message)
+    });
+  }
+
+  // Generate modified image with the selected model
+  const model = getGenerationModel(generationModelId);
   const startTime = Date.now();
-  const result = await generateText({
-    model,
-    system: systemPrompt,
-    prompt: [
-      {
-        role: "user",
-        content: imageContent,
-      },
-    ],
-    providerOptions: {
-      google: {
-        responseModalities: ["IMAGE"],
-      },
-    },
-  });
+  const { imageBuffers, usage, finishReason } = await callProvider(
+    `Generation ${generationModelId}`,
+    () =>
+      model.generate({
+        systemPrompt,
+        imageBuffers: originalImageBuffers,
+        maskImageBuffers,
+        annotationMode,
+        selection,
+        abortSignal,
+      }),
+    { abortSignal }
+  );
   const durationMs = Date.now() - startTime;
 
-  // Extract all images returned
-  const allImageFiles = result.files?.filter((file) => file.mediaType.startsWith("image/")) || [];
-
-  if (allImageFiles.length === 0) {
-    throw new Error("No images were generated in the response");
+  if (imageBuffers.length === 0) {
+    throw finishReason === "content-filter"
+      ? new ProviderError("safety", "The response was blocked by the provider's safety filters")
+      : new ProviderError("no-image", "No images were generated in the response");
   }
 
-  // Convert all image files to buffers
-  const imageBuffers = allImageFiles.map((file) => Buffer.from(file.uint8Array));
-
-  // Extract token usage if available
-  const usage = result.usage
-    ? {
-        inputTokens: result.usage.inputTokens ?? 0,
-        outputTokens: result.usage.outputTokens ?? 0,
-        totalTokens: result.usage.totalTokens ?? 0,
-      }
-    : undefined;
-
   return {
     imageBuffers,
     usage,
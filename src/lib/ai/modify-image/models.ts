@@ -0,0 +1,264 @@
+import { google } from "@ai-sdk/google";
+import { generateText } from "ai";
+import sharp from "sharp";
+import { createMarkerMask, createSelectionMask, type NormalizedMarkers } from "~/utils/maskCompositing";
+import {
+  DEFAULT_GENERATION_MODEL_ID as BASE_DEFAULT_GENERATION_MODEL_ID,
+  GENERATION_MODEL_SUMMARY,
+  IMAGES_PER_LLM_CALL,
+  type GenerationModelSummary,
+} from "~/utils/constants";
+
+export const DEFAULT_GENERATION_MODEL_ID = BASE_DEFAULT_GENERATION_MODEL_ID;
+
+// What the user selected on the base image, independent of how it was drawn for the model
+export type GenerationSelection =
+  | { type: "cells"; selectedCells: string[]; gridRows: number; gridCols: number }
+  | ({ type: "markers" } & NormalizedMarkers);
+
+// Provider-neutral input for a single generation call, assembled by modifyImage
+export interface GenerationModelRequest {
+  systemPrompt: string;
+  imageBuffers: Buffer[]; // Base image first, then reference images
+  maskImageBuffers: Array<Buffer | null>; // Mask/marker layer per image (mask transport only)
+  annotationMode: "grid" | "coords";
+  selection?: GenerationSelection; // Missing in select-all mode: the whole base image may change
+  abortSignal?: AbortSignal; // Cancels the provider request
+}
+
+export interface GenerationModelResponse {
+  imageBuffers: Buffer[];
+  finishReason?: string; // "content-filter" when the provider blocked the output
+  usage?: {
+    inputTokens: number;
+    outputTokens: number;
+    totalTokens: number;
+  };
+}
+
+export interface GenerationModel {
+  generate: (request: GenerationModelRequest) => Promise<GenerationModelResponse>;
+}
+
+export interface GenerationModelConfig extends GenerationModelSummary, GenerationModel {}
+
+type GenerationModelFactory = {
+  getModel: () => GenerationModel;
+};
+
+// Gemini image models: images go through generateText with IMAGE response modality
+function createGeminiImageModel(modelId: string): GenerationModel {
+  return {
+    generate: async ({ systemPrompt, imageBuffers, maskImageBuffers, annotationMode, abortSignal }) => {
+      const model = google(modelId);
+
+      // Workaround: Ensure specificationVersion is v3 (Nitro bundling issue)
+      if (model.specificationVersion !== "v3") {
+        Object.defineProperty(model, "specificationVersion", {
+          value: "v3",
+          writable: false,
+          enumerable: true,
+          configurable: true,
+        });
+      }
+
+      // Mask/marker layers follow their image with a text label so the model can't mistake them for inputs
+      const isMultiImage = imageBuffers.length > 1;
+      const imageContent = imageBuffers.flatMap((buffer, index) => {
+        const image = {
+          type: "image" as const,
+          image: buffer,
+          mediaType: "image/png" as const,
+        };
+        const maskImageBuffer = maskImageBuffers[index];
+        if (!maskImageBuffer) {
+          return [image];
+        }
+        const layerName = isMultiImage
+          ? "Mask or marker layer"
+          : annotationMode === "grid"
+            ? "Selection mask"
+            : "Marker layer";
+        return [
+          image,
+          { type: "text" as const, text: `${layerName} for the image above (guide only, do not reproduce):` },
+          { type: "image" as const, image: maskImageBuffer, mediaType: "image/png" as const },
+        ];
+      });
+
+      // Since the user query is in the system prompt, only images (plus mask labels) go in the user message
+      const result = await generateText({
+        model,
+        system: systemPrompt,
+        prompt: [
+          {
+            role: "user",
+            content: imageContent,
+          },
+        ],
+        providerOptions: {
+          google: {
+            responseModalities: ["IMAGE"],
+          },
+        },
+        abortSignal,
+        // Retries are handled by callProvider in modifyImage
+        maxRetries: 0,
+      });
+
+      const allImageFiles = result.files?.filter((file) => file.mediaType.startsWith("image/")) || [];
+
+      return {
+        imageBuffers: allImageFiles.map((file) => Buffer.from(file.uint8Array)),
+        finishReason: result.finishReason,
+        usage: result.usage
+          ? {
+              inputTokens: result.usage.inputTokens ?? 0,
+              outputTokens: result.usage.outputTokens ?? 0,
+              totalTokens: result.usage.totalTokens ?? 0,
+            }
+          : undefined,
+      };
+    },
+  };
+}
+
+// Radius around coordinate markers the OpenAI edit mask opens up, as a fraction of the image's shorter side
+const OPENAI_MARKER_MASK_RADIUS = 0.08;
+
+// OpenAI expects edit masks as PNGs of the base image's size whose fully transparent pixels mark the editable area
+async function createOpenAIEditMask(baseImageBuffer: Buffer, selection: GenerationSelection): Promise<Buffer> {
+  const { width = 0, height = 0 } = await sharp(baseImageBuffer).metadata();
+  const mask =
+    selection.type === "cells"
+      ? await createSelectionMask(width, height, selection.selectedCells, selection.gridRows, selection.gridCols)
+      : await createMarkerMask(width, height, selection, OPENAI_MARKER_MASK_RADIUS);
+  const alpha = Buffer.from(mask.map((value) => 255 - value));
+  return sharp({ create: { width, height, channels: 3, background: "#000000" } })
+    .joinChannel(alpha, { raw: { width, height, channels: 1 } })
+    .png()
+    .toBuffer();
+}
+
+function toPngBlob(buffer: Buffer): Blob {
+  return new Blob([new Uint8Array(buffer)], { type: "image/png" });
+}
+
+/**
+ * OpenAI image models: the image edit endpoint. The edit mask is drawn here from the base image's selection
+ * (cells or coordinate markers) in both transports; annotation layers are never sent, since the endpoint
+ * would take them as more images to edit.
+ */
+function createOpenAIImageEditModel(modelId: string): GenerationModel {
+  return {
+    generate: async ({ systemPrompt, imageBuffers, selection, abortSignal }) => {
+      const apiKey = process.env.OPENAI_API_KEY;
+      if (!apiKey) {
+        throw new Error("OPENAI_API_KEY not configured. Please add it to .env file to use OpenAI generation models");
+      }
+
+      const formData = new FormData();
+      formData.append("model", modelId);
+      formData.append("prompt", systemPrompt);
+      formData.append("n", String(IMAGES_PER_LLM_CALL));
+      imageBuffers.forEach((buffer, index) => {
+        formData.append("image[]", toPngBlob(buffer), `image-${index}.png`);
+      });
+      if (selection) {
+        formData.append("mask", toPngBlob(await createOpenAIEditMask(imageBuffers[0], selection)), "mask.png");
+      }
+
+      const response = await fetch("https://api.openai.com/v1/images/edits", {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+        },
+        body: formData,
+        signal: abortSignal,
+      });
+      if (!response.ok) {
+        // Gateways and proxies answer some errors (429, 502, 504) with HTML or plain text instead of JSON
+        const body = await response.text().catch(() => "");
+        let message = response.statusText;
+        try {
+          message = JSON.parse(body).error?.message || message;
+        } catch {
+          message = body.trim().slice(0, 200) || message;
+        }
+        // Carry the status so callProvider can tell rate limits and server errors apart
+        throw Object.assign(new Error(`OpenAI image edit failed (${response.status}): ${message}`), {
+          status: response.status,
+        });
+      }
+      const data = await response.json();
+
+      const images: Array<{ b64_json?: string }> = data.data || [];
+      return {
+        imageBuffers: images.flatMap((image) => (image.b64_json ? [Buffer.from(image.b64_json, "base64")] : [])),
+        usage: data.usage
+          ? {
+              inputTokens: data.usage.input_tokens ?? 0,
+              outputTokens: data.usage.output_tokens ?? 0,
+              totalTokens: data.usage.total_tokens ?? 0,
+            }
+          : undefined,
+      };
+    },
+  };
+}
+
+const GENERATION_MODEL_FACTORIES: Record<string, GenerationModelFactory> = {
+  "gemini-2.5-flash-image": {
+    getModel: () => createGeminiImageModel("gemini-2.5-flash-image"),
+  },
+  "gemini-3-pro-image-preview": {
+    getModel: () => createGeminiImageModel("gemini-3-pro-image-preview"),
+  },
+  "gemini-3.1-flash-image-preview": {
+    getModel: () => createGeminiImageModel("gemini-3.1-flash-image-preview"),
+  },
+  "gpt-image-1": {
+    getModel: () => createOpenAIImageEditModel("gpt-image-1"),
+  },
+};
+
+// Validate that all generation models in constants have factories
+const missingFactories = Object.keys(GENERATION_MODEL_SUMMARY).filter(
+  (modelId) => !(modelId in GENERATION_MODEL_FACTORIES)
+);
+if (missingFactories.length > 0) {
+  throw new Error(
+    `Missing factory definitions for generation models: ${missingFactories.join(", ")}. ` +
+      `Please add factory entries in src/lib/ai/modify-image/models.ts for all models defined in src/utils/constants.ts`
+  );
+}
+
+export function getGenerationModel(modelId: string): GenerationModel {
+  const factory = GENERATION_MODEL_FACTORIES[modelId];
+  if (!factory || !GENERATION_MODEL_SUMMARY[modelId]) {
+    const availableModels = Object.keys(GENERATION_MODEL_SUMMARY).join(", ");
+    throw new Error(
+      `Generation model "${modelId}" is not available. ` +
+        `Available models: ${availableModels}. ` +
+        `Please add it to src/utils/constants.ts and src/lib/ai/modify-image/models.ts or use one of the available models.`
+    );
+  }
+  return factory.getModel();
+}
+
+export function getAvailableGenerationModelIds(): string[] {
+  // Return all generation models from constants (validation ensures they all have factories)
+  return Object.keys(GENERATION_MODEL_SUMMARY);
+}
+
+export function getGenerationModelConfig(modelId: string): GenerationModelConfig | undefined {
+  const summary = GENERATION_MODEL_SUMMARY[modelId];
+  const factory = GENERATION_MODEL_FACTORIES[modelId];
+  if (!summary || !factory) {
+    return undefined;
+  }
+  return {
+    ...summary,
+    ...factory.getModel(),
+  };
+}
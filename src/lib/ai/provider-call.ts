@@ -0,0 +1,135 @@
+import { APICallError, JSONParseError, NoObjectGeneratedError, RetryError, TypeValidationError } from "ai";
+
+// Why a provider call (image generation or judge) failed
+export type ProviderErrorKind =
+  | "rate-limit" // 429 without an exhausted quota: retried
+  | "server" // 5xx from the provider: retried
+  | "timeout" // Request or network timeout: retried
+  | "quota" // Quota or billing limit reached
+  | "safety" // Blocked by the provider's safety filters
+  | "no-image" // The model answered without an image
+  | "schema" // The judge's answer didn't match the response schema
+  | "cancelled"
+  | "unknown";
+
+const RETRYABLE_KINDS: ProviderErrorKind[] = ["rate-limit", "server", "timeout"];
+
+export class ProviderError extends Error {
+  readonly kind: ProviderErrorKind;
+
+  constructor(kind: ProviderErrorKind, message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "ProviderError";
+    this.kind = kind;
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_KINDS.includes(this.kind);
+  }
+}
+
+const SAFETY_PATTERN = /safety|moderation|blocked|prohibited|content[ _-]?(filter|policy)/i;
+const QUOTA_PATTERN = /quota|billing|insufficient_quota|RESOURCE_EXHAUSTED.*(day|month)/i;
+const TIMEOUT_PATTERN = /timed? ?out|ETIMEDOUT|ECONNRESET|socket hang up/i;
+
+export function classifyProviderError(error: unknown): ProviderError {
+  if (error instanceof ProviderError) {
+    return error;
+  }
+  // The AI SDK wraps errors of its own retries
+  if (RetryError.isInstance(error) && error.lastError) {
+    return classifyProviderError(error.lastError);
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  const name = error instanceof Error ? error.name : "";
+  const toError = (kind: ProviderErrorKind) => new ProviderError(kind, message, { cause: error });
+
+  if (name === "AbortError") {
+    return toError("cancelled");
+  }
+  if (name === "TimeoutError" || TIMEOUT_PATTERN.test(message)) {
+    return toError("timeout");
+  }
+  if (
+    NoObjectGeneratedError.isInstance(error) ||
+    TypeValidationError.isInstance(error) ||
+    JSONParseError.isInstance(error)
+  ) {
+    return toError("schema");
+  }
+
+  const statusCode = APICallError.isInstance(error) ? error.statusCode : (error as { status?: number })?.status;
+  const details = APICallError.isInstance(error) ? `${message} ${error.responseBody ?? ""}` : message;
+  if (SAFETY_PATTERN.test(details)) {
+    return toError("safety");
+  }
+  if (statusCode === 429 || statusCode === 402) {
+    return toError(QUOTA_PATTERN.test(details) || statusCode === 402 ? "quota" : "rate-limit");
+  }
+  if (QUOTA_PATTERN.test(details)) {
+    return toError("quota");
+  }
+  if (statusCode === 408 || statusCode === 504) {
+    return toError("timeout");
+  }
+  if (statusCode !== undefined && statusCode >= 500) {
+    return toError("server");
+  }
+  return toError("unknown");
+}
+
+interface ProviderCallOptions {
+  abortSignal?: AbortSignal;
+  maxAttempts?: number;
+  baseDelayMs?: number;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Call a provider, retrying rate limits, server errors and timeouts with exponential backoff.
+ * Any failure is rethrown as a classified ProviderError.
+ */
+export async function callProvider<T>(
+  label: string,
+  call: () => Promise<T>,
+  { abortSignal, maxAttempts = 3, baseDelayMs = 1000 }: ProviderCallOptions = {}
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await call();
+    } catch (error) {
+      const providerError = abortSignal?.aborted
+        ? new ProviderError("cancelled", "Request was cancelled", { cause: error })
+        : classifyProviderError(error);
+      if (!providerError.retryable || attempt >= maxAttempts) {
+        throw providerError;
+      }
+      const delay = baseDelayMs * 2 ** (attempt - 1);
+      console.warn(
+        `[Provider] ${label} failed (${providerError.kind}, attempt ${attempt}/${maxAttempts}), retrying in ${delay}ms: ${providerError.message}`
+      );
+      await sleep(delay, abortSignal);
+      if (abortSignal?.aborted) {
+        throw new ProviderError("cancelled", "Request was cancelled", { cause: error });
+      }
+    }
+  }
+}
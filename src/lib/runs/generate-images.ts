@@ -0,0 +1,645 @@
+import { uuidv7 } from "uuidv7";
+import sharp from "sharp";
+import {
+  resizeImageForAI,
+  formatCellsForPrompt,
+  formatCoordinatesForPrompt,
+  type CoordinatePoint,
+} from "~/utils/imageProcessing";
+import { modifyImage } from "~/lib/ai/modify-image";
+import { classifyProviderError, type ProviderErrorKind } from "~/lib/ai/provider-call";
+import {
+  DEFAULT_GENERATION_MODEL_ID,
+  getGenerationModelConfig,
+  type GenerationSelection,
+} from "~/lib/ai/modify-image/models";
+import { DEFAULT_JUDGE_RUBRIC_ID, type JudgeRubric } from "~/lib/ai/judge/rubric";
+import { getJudgeRubric } from "~/lib/storage/judge-rubrics";
+import { compositeWithSelectionMask } from "~/utils/maskCompositing";
+import { computePixelDiffMetrics, type PixelDiffMetrics } from "~/utils/pixelMetrics";
+import {
+  saveGeneratedImage,
+  saveAnnotatedImage,
+  addImagesToIndex,
+  createImageFromFilename,
+  getImage,
+  getImageId,
+  type Image,
+  type ImageLineage,
+} from "~/utils/storage";
+import {
+  createRun,
+  getRun,
+  addGeneration,
+  setRunAnnotatedImages,
+  setRunOriginalImage,
+  type GenerationRun,
+  type RunImageInput,
+  type RunRefinement,
+  type TokenUsage,
+} from "~/lib/storage/generation-runs";
+import { emitRunEvent } from "~/lib/storage/run-events";
+import {
+  DEFAULT_JUDGE_AGGREGATION,
+  DEFAULT_JUDGE_MODEL_ID,
+  DEFAULT_MASK_FEATHER_PX,
+  IMAGES_PER_LLM_CALL,
+  JUDGE_AGGREGATIONS,
+  JUDGE_MODEL_SUMMARY,
+  MAX_MASK_FEATHER_PX,
+  SEND_COORDINATES_AS_TEXT,
+  type AnnotationTransport,
+  type JudgeAggregation,
+} from "~/utils/constants";
+
+// Body of POST /api/generate-image: one LLM call's worth of images for a run. Arrays hold one entry per input image.
+export interface GenerateImagesRequest {
+  imageDataUrls: string[]; // Images with borders/annotations, or clean images in mask transport
+  selectedCellsArrays: string[][];
+  prompt: string;
+  originalFilenames?: string[];
+  gridRowsArrays?: number[];
+  gridColsArrays?: number[];
+  judgeModelId?: string;
+  judgeModelIds?: string[]; // Judge ensemble; its first model replaces judgeModelId
+  judgeAggregation?: JudgeAggregation; // How ensemble scores combine (default mean)
+  judgeRubricId?: string; // Rubric the judge scores against (default built-in rubric)
+  judgeRegionCrops?: boolean; // Also send the judges full-resolution crops of the selection (extra input tokens)
+  generationModelId?: string;
+  selectAllModeArray?: boolean[];
+  runId?: string; // If provided, use existing run, otherwise create new
+  coordinatePointsArrays?: CoordinatePoint[][];
+  coordinateLinesArrays?: Array<Array<{ x1: number; y1: number; x2: number; y2: number; number: number }>>;
+  annotationModeArray?: Array<"grid" | "coords">;
+  maskCompositing?: boolean; // Paste only the selected cells of the output back onto the original
+  maskFeatherPx?: number; // Feather radius for the compositing mask
+  annotationTransport?: AnnotationTransport; // "mask": imageDataUrls are unannotated and maskDataUrls carry the selection
+  maskDataUrls?: Array<string | null>; // Mask/marker layer for each image (null for images without one)
+  refinement?: { parentRunId: string; parentGenerationId: string }; // When auto-refining a run
+  llmCallId?: string; // Lets the caller match run events to its placeholders
+}
+
+export interface GeneratedImage {
+  generationId: string;
+  image: Image;
+  usage?: TokenUsage;
+  imageIndex: number;
+}
+
+// Failures carry the HTTP status the route responds with, and the LLM call if it had started
+export interface GenerateImagesFailure {
+  ok: false;
+  status: number;
+  error: string;
+  kind?: ProviderErrorKind; // Set when the work had started and then failed
+  startedLlmCall?: { runId: string; llmCallId: string; imageCount: number };
+}
+
+export type GenerateImagesResult =
+  | { ok: true; runId: string; llmCallId: string; generations: GeneratedImage[]; durationMs: number }
+  | GenerateImagesFailure;
+
+// Check a request before any work starts; also derives the refinement lineage from the parent run
+// and resolves a custom judge rubric
+export async function validateGenerateImagesRequest(
+  request: GenerateImagesRequest
+): Promise<GenerateImagesFailure | { ok: true; refinement?: RunRefinement; judgeRubric?: JudgeRubric }> {
+  const {
+    imageDataUrls,
+    selectedCellsArrays,
+    prompt,
+    judgeModelId = DEFAULT_JUDGE_MODEL_ID,
+    judgeModelIds,
+    judgeAggregation = DEFAULT_JUDGE_AGGREGATION,
+    judgeRubricId = DEFAULT_JUDGE_RUBRIC_ID,
+    judgeRegionCrops,
+    generationModelId = DEFAULT_GENERATION_MODEL_ID,
+    coordinatePointsArrays,
+    coordinateLinesArrays,
+    maskFeatherPx = DEFAULT_MASK_FEATHER_PX,
+    annotationTransport = "burned-in",
+    maskDataUrls,
+    refinement: refinementRequest,
+    llmCallId: requestedLlmCallId,
+  } = request;
+
+  if (!imageDataUrls || !Array.isArray(imageDataUrls) || imageDataUrls.length === 0) {
+    return { ok: false, status: 400, error: "Missing or invalid imageDataUrls array" };
+  }
+
+  // Validate that we have either cells or coordinates
+  const hasCells =
+    selectedCellsArrays &&
+    Array.isArray(selectedCellsArrays) &&
+    selectedCellsArrays.length > 0 &&
+    selectedCellsArrays.some((arr) => arr && arr.length > 0);
+  const hasCoordinatePoints =
+    coordinatePointsArrays &&
+    Array.isArray(coordinatePointsArrays) &&
+    coordinatePointsArrays.length > 0 &&
+    coordinatePointsArrays.some((arr: any[]) => arr && arr.length > 0);
+  const hasCoordinateLines =
+    coordinateLinesArrays &&
+    Array.isArray(coordinateLinesArrays) &&
+    coordinateLinesArrays.length > 0 &&
+    coordinateLinesArrays.some((arr: any[]) => arr && arr.length > 0);
+  const hasCoordinates = hasCoordinatePoints || hasCoordinateLines;
+
+  if (!hasCells && !hasCoordinates) {
+    return {
+      ok: false,
+      status: 400,
+      error: "Must provide either selectedCellsArrays or coordinatePointsArrays with at least one selection",
+    };
+  }
+
+  if (!prompt) {
+    return { ok: false, status: 400, error: "Missing prompt" };
+  }
+
+  if (imageDataUrls.length !== selectedCellsArrays.length) {
+    return { ok: false, status: 400, error: "Number of images must match number of selected cells arrays" };
+  }
+
+  if (
+    typeof maskFeatherPx !== "number" ||
+    !Number.isFinite(maskFeatherPx) ||
+    maskFeatherPx < 0 ||
+    maskFeatherPx > MAX_MASK_FEATHER_PX
+  ) {
+    return { ok: false, status: 400, error: `maskFeatherPx must be between 0 and ${MAX_MASK_FEATHER_PX}` };
+  }
+
+  if (annotationTransport !== "burned-in" && annotationTransport !== "mask") {
+    return { ok: false, status: 400, error: 'annotationTransport must be "burned-in" or "mask"' };
+  }
+
+  const useMaskTransport = annotationTransport === "mask";
+  if (useMaskTransport && (!Array.isArray(maskDataUrls) || maskDataUrls.length !== imageDataUrls.length)) {
+    return { ok: false, status: 400, error: "Number of mask layers must match number of images" };
+  }
+
+  const generationModelConfig = getGenerationModelConfig(generationModelId);
+  if (!generationModelConfig) {
+    return { ok: false, status: 400, error: `Unknown generation model: ${generationModelId}` };
+  }
+
+  if (!JUDGE_MODEL_SUMMARY[judgeModelId]) {
+    return { ok: false, status: 400, error: `Unknown judge model: ${judgeModelId}` };
+  }
+
+  if (judgeModelIds !== undefined) {
+    if (!Array.isArray(judgeModelIds) || judgeModelIds.length === 0) {
+      return { ok: false, status: 400, error: "judgeModelIds must be a non-empty array" };
+    }
+    const unknownJudgeModelId = judgeModelIds.find((modelId) => !JUDGE_MODEL_SUMMARY[modelId]);
+    if (unknownJudgeModelId !== undefined) {
+      return { ok: false, status: 400, error: `Unknown judge model: ${unknownJudgeModelId}` };
+    }
+    if (new Set(judgeModelIds).size !== judgeModelIds.length) {
+      return { ok: false, status: 400, error: "judgeModelIds must not repeat a model" };
+    }
+  }
+
+  if (!JUDGE_AGGREGATIONS.includes(judgeAggregation)) {
+    return { ok: false, status: 400, error: `judgeAggregation must be one of: ${JUDGE_AGGREGATIONS.join(", ")}` };
+  }
+
+  // Custom rubrics are copied onto the run; the built-in one is implied when none is stored
+  let judgeRubric: JudgeRubric | undefined;
+  if (judgeRubricId !== DEFAULT_JUDGE_RUBRIC_ID) {
+    judgeRubric = await getJudgeRubric(String(judgeRubricId));
+    if (!judgeRubric) {
+      return { ok: false, status: 400, error: `Unknown judge rubric: ${judgeRubricId}` };
+    }
+  }
+
+  if (judgeRegionCrops !== undefined && typeof judgeRegionCrops !== "boolean") {
+    return { ok: false, status: 400, error: "judgeRegionCrops must be a boolean" };
+  }
+
+  if (requestedLlmCallId !== undefined && !/^[\w-]+$/.test(String(requestedLlmCallId))) {
+    return { ok: false, status: 400, error: "Invalid llmCallId" };
+  }
+
+  // Validate API keys based on selected generation model
+  if (generationModelConfig.provider === "openai") {
+    const openaiApiKey = process.env.OPENAI_API_KEY;
+    if (!openaiApiKey) {
+      return {
+        ok: false,
+        status: 500,
+        error: "OPENAI_API_KEY not configured. Please add it to .env file to use OpenAI generation models",
+      };
+    }
+  } else {
+    const googleApiKey = process.env.GOOGLE_GENERATIVE_AI_API_KEY;
+    if (!googleApiKey) {
+      return {
+        ok: false,
+        status: 500,
+        error: "GOOGLE_GENERATIVE_AI_API_KEY not configured. Please add it to .env file",
+      };
+    }
+  }
+
+  // Derive the refinement lineage from the parent run rather than trusting the client with it
+  let refinement: RunRefinement | undefined;
+  if (refinementRequest) {
+    const { parentRunId, parentGenerationId } = refinementRequest;
+    const parentRun = typeof parentRunId === "string" ? await getRun(parentRunId) : undefined;
+    if (!parentRun || !parentRun.generations.has(parentGenerationId)) {
+      return { ok: false, status: 400, error: "Refinement parent run or generation not found" };
+    }
+    refinement = {
+      rootRunId: parentRun.refinement?.rootRunId ?? parentRun.runId,
+      parentRunId: parentRun.runId,
+      parentGenerationId,
+      round: (parentRun.refinement?.round ?? 1) + 1,
+      promptLineage: [...(parentRun.refinement?.promptLineage ?? []), parentRun.prompt],
+    };
+  }
+
+  return { ok: true, refinement, judgeRubric };
+}
+
+// Settings stored on a run; its grid, mode and filename are the first image's
+export function toRunSettings(request: GenerateImagesRequest, judgeRubric?: JudgeRubric): GenerationRun["settings"] {
+  const {
+    judgeModelId = DEFAULT_JUDGE_MODEL_ID,
+    judgeModelIds = [judgeModelId],
+    judgeAggregation = DEFAULT_JUDGE_AGGREGATION,
+    judgeRegionCrops = false,
+    generationModelId = DEFAULT_GENERATION_MODEL_ID,
+    annotationTransport = "burned-in",
+  } = request;
+
+  return {
+    gridRows: (request.gridRowsArrays && request.gridRowsArrays[0]) || 6,
+    gridCols: (request.gridColsArrays && request.gridColsArrays[0]) || 6,
+    judgeModelId: judgeModelIds[0],
+    // A single judge is stored as before, without ensemble settings
+    ...(judgeModelIds.length > 1 ? { judgeModelIds, judgeAggregation } : {}),
+    ...(judgeRubric ? { judgeRubric } : {}),
+    ...(judgeRegionCrops ? { judgeRegionCrops } : {}),
+    generationModelId,
+    selectAllMode: (request.selectAllModeArray && request.selectAllModeArray[0]) || false,
+    originalFilename: (request.originalFilenames && request.originalFilenames[0]) || "image.png",
+    annotationTransport,
+  };
+}
+
+// Run one LLM call for a run: creates the run on first use, stores each generated image and emits its events
+export async function generateImages(
+  request: GenerateImagesRequest,
+  abortSignal?: AbortSignal
+): Promise<GenerateImagesResult> {
+  const validation = await validateGenerateImagesRequest(request);
+  if (!validation.ok) {
+    return validation;
+  }
+  const { refinement, judgeRubric } = validation;
+
+  // Set once the LLM call has started, so the caller can report a failure to run event subscribers
+  let startedLlmCall: GenerateImagesFailure["startedLlmCall"] | null = null;
+  try {
+    const {
+      imageDataUrls, // Array of images (always an array, even for single image)
+      selectedCellsArrays, // Array of selected cells for each image
+      prompt,
+      originalFilenames, // Array of filenames for each image
+      gridRowsArrays, // Array of grid rows for each image
+      gridColsArrays, // Array of grid cols for each image
+      generationModelId = DEFAULT_GENERATION_MODEL_ID,
+      selectAllModeArray, // Array of selectAllMode for each image
+      runId,
+      coordinatePointsArrays, // Array of coordinate points for each image
+      coordinateLinesArrays, // Array of coordinate lines for each image
+      annotationModeArray, // Array of annotation modes for each image
+      maskCompositing = true,
+      maskFeatherPx = DEFAULT_MASK_FEATHER_PX,
+      annotationTransport = "burned-in",
+      maskDataUrls = [],
+      llmCallId: requestedLlmCallId,
+    } = request;
+    const useMaskTransport = annotationTransport === "mask";
+
+    // Convert data URLs to buffers (images with borders/annotations, or clean images in mask transport)
+    const dataUrlToBuffer = (dataUrl: string) => {
+      const base64Data = dataUrl.replace(/^data:image\/\w+;base64,/, "");
+      return Buffer.from(base64Data, "base64");
+    };
+    const annotatedImageBuffers: Buffer[] = imageDataUrls.map(dataUrlToBuffer);
+    const maskImageBuffers: Array<Buffer | null> = useMaskTransport
+      ? maskDataUrls.map((dataUrl: string | null) => (dataUrl ? dataUrlToBuffer(dataUrl) : null))
+      : [];
+
+    // Get or create run first to have runId for annotated images
+    // Use first image's data for run metadata
+    const firstSelectedCells = (selectedCellsArrays && selectedCellsArrays[0]) || [];
+    const firstGridRows = (gridRowsArrays && gridRowsArrays[0]) || 6;
+    const firstGridCols = (gridColsArrays && gridColsArrays[0]) || 6;
+    const firstSelectAllMode = (selectAllModeArray && selectAllModeArray[0]) || false;
+    const firstOriginalFilename = (originalFilenames && originalFilenames[0]) || "image.png";
+
+    // Record each image's annotations so the run can be reopened in the editor
+    const inputs: RunImageInput[] = imageDataUrls.map((_: string, index: number) => ({
+      filename: (originalFilenames && originalFilenames[index]) || `image-${index}.png`,
+      selectedCells: (selectedCellsArrays && selectedCellsArrays[index]) || [],
+      gridRows: gridRowsArrays && gridRowsArrays[index],
+      gridCols: gridColsArrays && gridColsArrays[index],
+      selectAllMode: Boolean(selectAllModeArray && selectAllModeArray[index]),
+      annotationMode: (annotationModeArray && annotationModeArray[index]) || "grid",
+      coordinatePoints: (coordinatePointsArrays && coordinatePointsArrays[index]) || [],
+      coordinateLines: (coordinateLinesArrays && coordinateLinesArrays[index]) || [],
+    }));
+
+    // Create the run, or reuse it when a parallel request for the same runId created it first
+    const actualRunId = await createRun(
+      Buffer.alloc(0), // Placeholder, will be updated after resize
+      prompt,
+      Array.from(firstSelectedCells),
+      toRunSettings(request, judgeRubric),
+      runId,
+      inputs,
+      refinement
+    );
+
+    // Save all annotated images (with borders) to data/annotated using runId
+    const annotatedFilenames = await Promise.all(
+      annotatedImageBuffers.map((buffer, index) =>
+        saveAnnotatedImage(
+          buffer,
+          (originalFilenames && originalFilenames[index]) || `image-${index}.png`,
+          actualRunId,
+          index
+        )
+      )
+    );
+    await setRunAnnotatedImages(actualRunId, annotatedFilenames);
+
+    // Resize images before processing
+    const originalImageBuffers = await Promise.all(annotatedImageBuffers.map((buffer) => resizeImageForAI(buffer)));
+
+    // Masks match their image's size, so resizing keeps them aligned
+    const resizedMaskImageBuffers = await Promise.all(
+      maskImageBuffers.map((buffer) => (buffer ? resizeImageForAI(buffer) : null))
+    );
+
+    // Update run with the actual image buffer (use first image for backward compatibility)
+    await setRunOriginalImage(actualRunId, originalImageBuffers[0], resizedMaskImageBuffers[0] ?? undefined);
+
+    // Compositing needs a cell selection on a single image: coordinate markers and select-all
+    // mode have no region to mask, and multi-image outputs don't map onto one original
+    const firstAnnotationModeForMask = (annotationModeArray && annotationModeArray[0]) || "grid";
+    const shouldComposite =
+      maskCompositing !== false &&
+      imageDataUrls.length === 1 &&
+      firstAnnotationModeForMask === "grid" &&
+      !firstSelectAllMode &&
+      firstSelectedCells.length > 0 &&
+      Boolean(originalFilenames && originalFilenames[0]);
+
+    // Pixel metrics compare against one original on the cell grid, including select-all mode
+    const shouldMeasurePixels =
+      imageDataUrls.length === 1 &&
+      firstAnnotationModeForMask === "grid" &&
+      Boolean(originalFilenames && originalFilenames[0]);
+
+    // The annotated image has borders burned in, so composite onto (and measure against) the clean source image instead
+    let cleanOriginalBuffer: Buffer | null = null;
+    if (shouldMeasurePixels && useMaskTransport) {
+      cleanOriginalBuffer = originalImageBuffers[0];
+    } else if (shouldMeasurePixels) {
+      try {
+        cleanOriginalBuffer = await resizeImageForAI(await getImage(firstOriginalFilename));
+      } catch (error) {
+        console.warn(`[Generate] Could not load clean original ${firstOriginalFilename}:`, error);
+      }
+    }
+    const compositeSourceBuffer = shouldComposite ? cleanOriginalBuffer : null;
+
+    // Generate LLM call ID (shared across all images from this invocation)
+    const llmCallId: string = requestedLlmCallId || uuidv7();
+
+    // Build enhanced prompt with coordinate or cell information
+    let enhancedPrompt = prompt;
+    const firstAnnotationMode = firstAnnotationModeForMask;
+    const firstCoordinatePoints = (coordinatePointsArrays && coordinatePointsArrays[0]) || [];
+    const firstCoordinateLines = (coordinateLinesArrays && coordinateLinesArrays[0]) || [];
+    let hasCoordinateMarkers = false;
+
+    const hasAnyCoordinateMarkers = firstCoordinatePoints.length > 0 || firstCoordinateLines.length > 0;
+    if (firstAnnotationMode === "coords" && hasAnyCoordinateMarkers) {
+      // Only set hasCoordinateMarkers if markers are rendered into the image (burned-in transport without text)
+      hasCoordinateMarkers = !SEND_COORDINATES_AS_TEXT && !useMaskTransport;
+      // Only send coordinates as text if SEND_COORDINATES_AS_TEXT is true
+      if (SEND_COORDINATES_AS_TEXT) {
+        // Get image dimensions from original annotated image (before resize) to match coordinate system
+        const originalMetadata = await sharp(annotatedImageBuffers[0]).metadata();
+        const coordInfo = formatCoordinatesForPrompt(
+          firstCoordinatePoints as CoordinatePoint[],
+          originalMetadata.width || 0,
+          originalMetadata.height || 0
+        );
+        if (coordInfo) {
+          enhancedPrompt = `${prompt}\n\n${coordInfo}`;
+        }
+      }
+    } else if (firstAnnotationMode === "grid" && firstSelectedCells && firstSelectedCells.length > 0) {
+      const cellInfo = formatCellsForPrompt(firstSelectedCells, firstGridRows);
+      if (cellInfo) {
+        enhancedPrompt = `${prompt}\n\n${cellInfo}`;
+      }
+    }
+
+    // Log request details
+    const imageCount = originalImageBuffers.length;
+    console.log(
+      `[Generate] LLM call ${llmCallId} for run ${actualRunId}: ${imageCount} image(s), model: ${generationModelId}, mode: ${firstAnnotationMode}, transport: ${annotationTransport}, prompt: "${enhancedPrompt.substring(0, 50)}..."`
+    );
+
+    startedLlmCall = { runId: actualRunId, llmCallId, imageCount: IMAGES_PER_LLM_CALL };
+    emitRunEvent({ type: "generating", runId: actualRunId, llmCallId, imageCount: IMAGES_PER_LLM_CALL });
+
+    // Determine coordinate marker types for nuanced instruction selection (for first image)
+    const firstImageHasCoordinatePoints = firstCoordinatePoints.length > 0;
+    const firstImageHasCoordinateLines = firstCoordinateLines.length > 0;
+
+    // The base image's selection, for models that edit through a mask. Markers are in pixels of the image
+    // the client annotated, so they are stored as fractions of its size.
+    let selection: GenerationSelection | undefined;
+    if (!firstSelectAllMode && firstAnnotationMode === "grid" && firstSelectedCells.length > 0) {
+      selection = {
+        type: "cells",
+        selectedCells: firstSelectedCells,
+        gridRows: firstGridRows,
+        gridCols: firstGridCols,
+      };
+    } else if (!firstSelectAllMode && firstAnnotationMode === "coords" && hasAnyCoordinateMarkers) {
+      const { width = 1, height = 1 } = await sharp(annotatedImageBuffers[0]).metadata();
+      selection = {
+        type: "markers",
+        points: firstCoordinatePoints.map(({ x, y }) => ({ x: x / width, y: y / height })),
+        lines: firstCoordinateLines.map(({ x1, y1, x2, y2 }) => ({
+          x1: x1 / width,
+          y1: y1 / height,
+          x2: x2 / width,
+          y2: y2 / height,
+        })),
+      };
+    }
+
+    // Generate modified images (returns array of IMAGES_PER_LLM_CALL images)
+    // Always pass array to modifyImage (single image is just array with one element)
+    const startTime = Date.now();
+    const modifyResult = await modifyImage(
+      originalImageBuffers,
+      enhancedPrompt,
+      firstSelectAllMode,
+      hasCoordinateMarkers, // Legacy parameter for backward compatibility
+      firstAnnotationMode,
+      firstImageHasCoordinatePoints,
+      firstImageHasCoordinateLines,
+      resizedMaskImageBuffers,
+      generationModelId,
+      selection,
+      abortSignal
+    );
+    const durationMs = Date.now() - startTime;
+
+    const imageBuffers = modifyResult.imageBuffers;
+    if (imageBuffers.length === 0) {
+      throw new Error("No images were generated");
+    }
+
+    // Process all images from this LLM call
+    const processed = await Promise.all(
+      imageBuffers.map(async (rawImageBuffer, imageIndex) => {
+        const generationId = uuidv7();
+
+        // Keep pixels outside the selection identical to the original
+        const imageBuffer = compositeSourceBuffer
+          ? await compositeWithSelectionMask(
+              compositeSourceBuffer,
+              rawImageBuffer,
+              firstSelectedCells,
+              firstGridRows,
+              firstGridCols,
+              maskFeatherPx
+            )
+          : rawImageBuffer;
+
+        // Measure the model's raw output, so changes outside the selection show even when compositing hides them
+        let pixelMetrics: PixelDiffMetrics | undefined;
+        if (cleanOriginalBuffer) {
+          try {
+            pixelMetrics = await computePixelDiffMetrics(
+              cleanOriginalBuffer,
+              rawImageBuffer,
+              firstSelectedCells,
+              firstGridRows,
+              firstGridCols,
+              firstSelectAllMode
+            );
+          } catch (error) {
+            console.warn(`[Generate] Could not compute pixel metrics for generation ${generationId}:`, error);
+          }
+        }
+
+        // Save the modified image (index will be updated via batch addImagesToIndex)
+        const modifiedFilename = await saveGeneratedImage(imageBuffer, firstOriginalFilename);
+
+        // Extract token usage (split across all images from this call)
+        const usage = modifyResult.usage
+          ? {
+              // Divide by number of images since usage is shared across all images from one call
+              inputTokens: Math.round(modifyResult.usage.inputTokens / imageBuffers.length),
+              outputTokens: Math.round(modifyResult.usage.outputTokens / imageBuffers.length),
+              totalTokens: Math.round(modifyResult.usage.totalTokens / imageBuffers.length),
+            }
+          : undefined;
+
+        // Create image object (will be added to index below)
+        const image = createImageFromFilename(modifiedFilename, "generated");
+
+        return {
+          generationId,
+          image,
+          usage,
+          imageIndex,
+          imageBuffer,
+          rawImageBuffer,
+          pixelMetrics,
+        };
+      })
+    );
+
+    // Batch add all images to index at once (more efficient and prevents race conditions)
+    // addImagesToIndex sets createdAt, so we can use that timestamp directly
+    const now = new Date().toISOString();
+    // Lineage ties each output to its source images and this run
+    const parentImageIds = (originalFilenames ?? []).map(getImageId);
+    const getLineage = (generationId: string): ImageLineage => ({
+      parentImageIds,
+      runId: actualRunId,
+      generationId,
+      prompt,
+      generationModelId,
+    });
+    await addImagesToIndex(
+      processed.map((gen) => ({
+        filename: gen.image.filename,
+        type: "generated" as const,
+        lineage: getLineage(gen.generationId),
+      }))
+    );
+
+    // Update image objects with createdAt (same timestamp used in addImagesToIndex)
+    processed.forEach((gen) => {
+      gen.image.createdAt = now;
+      gen.image.lineage = getLineage(gen.generationId);
+    });
+
+    // Add generations only once the lineage is indexed: a generation can be judged as soon as its "completed" event
+    // goes out, and judging writes the score into the lineage (skipped when the image has none yet)
+    const generations = await Promise.all(
+      processed.map(async ({ generationId, image, usage, imageIndex, imageBuffer, rawImageBuffer, pixelMetrics }) => {
+        await addGeneration(
+          actualRunId,
+          generationId,
+          imageBuffer,
+          image.url,
+          usage,
+          durationMs,
+          "completed",
+          llmCallId,
+          imageIndex,
+          {
+            ...(compositeSourceBuffer ? { rawImageBuffer, maskFeatherPx } : {}),
+            ...(pixelMetrics ? { pixelMetrics } : {}),
+          }
+        );
+        return { generationId, image, usage, imageIndex };
+      })
+    );
+
+    return {
+      ok: true,
+      runId: actualRunId,
+      llmCallId,
+      generations,
+      durationMs,
+    };
+  } catch (error) {
+    console.error("Image generation error:", error);
+    const providerError = classifyProviderError(error);
+    return {
+      ok: false,
+      status: 500,
+      error: providerError.message || "Image generation failed",
+      kind: providerError.kind,
+      startedLlmCall: startedLlmCall ?? undefined,
+    };
+  }
+}
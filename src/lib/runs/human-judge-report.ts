@@ -0,0 +1,136 @@
+import { pearsonCorrelation, spearmanCorrelation } from "~/lib/ai/judge/evaluation";
+import { listRuns, type HumanRating, type RunRecord } from "~/lib/storage/generation-runs";
+
+// Judge scores at or above this count as a thumbs-up when compared with human thumbs
+const JUDGE_THUMBS_UP_SCORE = 7;
+
+// How the selection was made, since the judge may be better calibrated for some kinds of edits than others
+export type EditType = "grid" | "coords" | "selectAll" | "multiImage";
+
+// Human ratings against the judge scores for one judge model or one edit type
+export interface HumanJudgeComparison {
+  key: string; // Judge model id or edit type
+  ratedCount: number; // Rated generations with a judge score from this model / of this type
+  scoredCount: number; // Of those, rated with a 1-10 score
+  pearson: number | null; // null with fewer than two scored generations or no variance
+  spearman: number | null;
+  meanAbsoluteError: number | null;
+  meanBias: number | null; // Judge minus human; positive means the judge is lenient
+  thumbsUpCount: number;
+  thumbsDownCount: number;
+  thumbsUpMeanJudgeScore: number | null;
+  thumbsDownMeanJudgeScore: number | null;
+  thumbAgreement: number | null; // Share of thumbs where the judge score is on the same side of JUDGE_THUMBS_UP_SCORE
+}
+
+export interface HumanJudgeReport {
+  ratedGenerations: number; // Rated generations that have a judge result
+  unjudgedRatings: number; // Rated generations the judge never scored (not compared)
+  thumbsUpScore: number;
+  byJudgeModel: HumanJudgeComparison[];
+  byEditType: HumanJudgeComparison[];
+  createdAt: string;
+}
+
+interface RatedSample {
+  humanRating: HumanRating;
+  judgeScore: number;
+}
+
+function getEditType(run: RunRecord): EditType {
+  if (run.inputs.length > 1) {
+    return "multiImage";
+  }
+  if (run.settings.selectAllMode) {
+    return "selectAll";
+  }
+  return run.inputs[0]?.annotationMode === "coords" ? "coords" : "grid";
+}
+
+function mean(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+}
+
+function round(value: number | null, digits: number = 3): number | null {
+  return value === null ? null : Math.round(value * 10 ** digits) / 10 ** digits;
+}
+
+function compareSamples(key: string, samples: RatedSample[]): HumanJudgeComparison {
+  const scored = samples.filter((sample) => sample.humanRating.score !== null);
+  const judgeScores = scored.map((sample) => sample.judgeScore);
+  const humanScores = scored.map((sample) => sample.humanRating.score as number);
+  const thumbsUp = samples.filter((sample) => sample.humanRating.thumb === "up");
+  const thumbsDown = samples.filter((sample) => sample.humanRating.thumb === "down");
+  const agreeing =
+    thumbsUp.filter((sample) => sample.judgeScore >= JUDGE_THUMBS_UP_SCORE).length +
+    thumbsDown.filter((sample) => sample.judgeScore < JUDGE_THUMBS_UP_SCORE).length;
+  const thumbCount = thumbsUp.length + thumbsDown.length;
+
+  return {
+    key,
+    ratedCount: samples.length,
+    scoredCount: scored.length,
+    pearson: round(pearsonCorrelation(judgeScores, humanScores)),
+    spearman: round(spearmanCorrelation(judgeScores, humanScores)),
+    meanAbsoluteError: round(mean(judgeScores.map((score, i) => Math.abs(score - humanScores[i])))),
+    meanBias: round(mean(judgeScores.map((score, i) => score - humanScores[i]))),
+    thumbsUpCount: thumbsUp.length,
+    thumbsDownCount: thumbsDown.length,
+    thumbsUpMeanJudgeScore: round(mean(thumbsUp.map((sample) => sample.judgeScore)), 2),
+    thumbsDownMeanJudgeScore: round(mean(thumbsDown.map((sample) => sample.judgeScore)), 2),
+    thumbAgreement: thumbCount > 0 ? round(agreeing / thumbCount) : null,
+  };
+}
+
+function compareGroups(groups: Map<string, RatedSample[]>): HumanJudgeComparison[] {
+  return Array.from(groups.entries())
+    .map(([key, samples]) => compareSamples(key, samples))
+    .sort((a, b) => b.ratedCount - a.ratedCount);
+}
+
+function addSample(groups: Map<string, RatedSample[]>, key: string, sample: RatedSample) {
+  const samples = groups.get(key) ?? [];
+  samples.push(sample);
+  groups.set(key, samples);
+}
+
+/**
+ * Compare human ratings with judge scores across all stored runs. Ensemble runs count once per member
+ * judge (with that judge's own score) in the per-model comparison, and with the combined score per edit type.
+ */
+export async function buildHumanJudgeReport(): Promise<HumanJudgeReport> {
+  const runs = await listRuns();
+  const byJudgeModel = new Map<string, RatedSample[]>();
+  const byEditType = new Map<string, RatedSample[]>();
+  let ratedGenerations = 0;
+  let unjudgedRatings = 0;
+
+  runs.forEach((run) => {
+    const editType = getEditType(run);
+    run.generations.forEach(({ humanRating, judgeResult }) => {
+      if (!humanRating) {
+        return;
+      }
+      if (!judgeResult) {
+        unjudgedRatings++;
+        return;
+      }
+      ratedGenerations++;
+
+      addSample(byEditType, editType, { humanRating, judgeScore: judgeResult.score });
+      const judgeScores = judgeResult.ensemble
+        ? judgeResult.ensemble.judges.map((judge) => ({ modelId: judge.modelId, score: judge.score }))
+        : [{ modelId: run.settings.judgeModelId, score: judgeResult.score }];
+      judgeScores.forEach(({ modelId, score }) => addSample(byJudgeModel, modelId, { humanRating, judgeScore: score }));
+    });
+  });
+
+  return {
+    ratedGenerations,
+    unjudgedRatings,
+    thumbsUpScore: JUDGE_THUMBS_UP_SCORE,
+    byJudgeModel: compareGroups(byJudgeModel),
+    byEditType: compareGroups(byEditType),
+    createdAt: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,251 @@
+import { promises as fs } from "fs";
+import { basename, join } from "path";
+import sharp from "sharp";
+import {
+  getRun,
+  updateGenerationStatus,
+  addJudgeResult,
+  reportJudgeFailure,
+  type GenerationRun,
+  type JudgeResult,
+} from "~/lib/storage/generation-runs";
+import { judgeImage, type JudgeRegionSource } from "~/lib/ai/judge";
+import { judgeImageEnsemble } from "~/lib/ai/judge/ensemble";
+import { DEFAULT_JUDGE_RUBRIC } from "~/lib/ai/judge/rubric";
+import { getJudgeModelConfig } from "~/lib/ai/judge/models";
+import { classifyProviderError } from "~/lib/ai/provider-call";
+import { getCellBounds, getCellCoordinates, resizeImageForJudge, type NormalizedRegion } from "~/utils/imageProcessing";
+import { getImage, getImageId, setImageLineageJudgeScore } from "~/utils/storage";
+import { DEFAULT_JUDGE_AGGREGATION } from "~/utils/constants";
+
+// Margin around the selection in region crops, as a fraction of the image size, so the judge sees the seams
+const REGION_CROP_PADDING = 0.05;
+// A selection covering more of the image than this is judged well enough from the thumbnails
+const REGION_CROP_MAX_AREA = 0.6;
+// Longest side of each region crop in pixels
+const REGION_CROP_MAX_DIMENSION = 1024;
+
+// Failures carry the HTTP status the route responds with
+export type JudgeGenerationResult =
+  | { ok: true; runId: string; generationId: string; judgeResult: JudgeResult }
+  | { ok: false; status: number; error: string };
+
+// Error message when a provider API key needed by the judge models is missing
+export function getJudgeApiKeyError(judgeModelIds: string[]): string | null {
+  const providers = new Set(judgeModelIds.map((modelId) => getJudgeModelConfig(modelId)?.provider));
+  if (providers.has("openai") && !process.env.OPENAI_API_KEY) {
+    return "OPENAI_API_KEY not configured. Please add it to .env file to use OpenAI judge models";
+  }
+  // Google models always need Google API key
+  if ([...providers].some((provider) => provider !== "openai") && !process.env.GOOGLE_GENERATIVE_AI_API_KEY) {
+    return "GOOGLE_GENERATIVE_AI_API_KEY not configured. Please add it to .env file";
+  }
+  return null;
+}
+
+function padRegion(left: number, top: number, right: number, bottom: number): NormalizedRegion {
+  const x = Math.max(0, left - REGION_CROP_PADDING);
+  const y = Math.max(0, top - REGION_CROP_PADDING);
+  return {
+    x,
+    y,
+    width: Math.min(1, right + REGION_CROP_PADDING) - x,
+    height: Math.min(1, bottom + REGION_CROP_PADDING) - y,
+  };
+}
+
+/**
+ * The selected region of a run's source image with the full-resolution images to crop it from, or undefined
+ * when region crops don't apply: several source images, select-all mode, no selection or a selection
+ * covering most of the image.
+ */
+async function getJudgeRegionSource(
+  run: GenerationRun,
+  modifiedImageBuffer: Buffer
+): Promise<JudgeRegionSource | undefined> {
+  const [input] = run.inputs;
+  if (run.inputs.length !== 1 || input.selectAllMode) {
+    return undefined;
+  }
+
+  // The clean source image, so the crop of the original has no borders or markers drawn on it
+  const originalImageBuffer = await getImage(input.filename);
+  let region: NormalizedRegion | undefined;
+
+  if (input.annotationMode === "grid" && input.selectedCells.length > 0) {
+    // Cell bounds on a 1x1 image are already fractions of the image size
+    const bounds = getCellBounds(
+      getCellCoordinates(input.selectedCells),
+      1,
+      1,
+      input.gridRows ?? run.settings.gridRows,
+      input.gridCols ?? run.settings.gridCols
+    );
+    region = padRegion(bounds.x, bounds.y, bounds.x + bounds.width, bounds.y + bounds.height);
+  } else if (input.annotationMode === "coords") {
+    // Markers are in pixels of the source image
+    const xs = [
+      ...input.coordinatePoints.map((point) => point.x),
+      ...input.coordinateLines.flatMap((line) => [line.x1, line.x2]),
+    ];
+    const ys = [
+      ...input.coordinatePoints.map((point) => point.y),
+      ...input.coordinateLines.flatMap((line) => [line.y1, line.y2]),
+    ];
+    const { width, height } = await sharp(originalImageBuffer).metadata();
+    if (xs.length > 0 && width && height) {
+      region = padRegion(
+        Math.min(...xs) / width,
+        Math.min(...ys) / height,
+        Math.max(...xs) / width,
+        Math.max(...ys) / height
+      );
+    }
+  }
+
+  if (!region || region.width * region.height > REGION_CROP_MAX_AREA) {
+    return undefined;
+  }
+  return { originalImageBuffer, modifiedImageBuffer, region, maxDimension: REGION_CROP_MAX_DIMENSION };
+}
+
+// Judge one completed generation of a run with the run's judge model and store the result
+export async function judgeGeneration(runId: string, generationId: string): Promise<JudgeGenerationResult> {
+  if (!runId || !generationId) {
+    return { ok: false, status: 400, error: "Missing runId or generationId" };
+  }
+
+  // Get the run
+  const run = await getRun(runId);
+  if (!run) {
+    return { ok: false, status: 404, error: "Run not found" };
+  }
+
+  // Validate API keys for every judge model of the run
+  const judgeModelIds = run.settings.judgeModelIds ?? [run.settings.judgeModelId];
+  const apiKeyError = getJudgeApiKeyError(judgeModelIds);
+  if (apiKeyError) {
+    return { ok: false, status: 500, error: apiKeyError };
+  }
+
+  // Get the generation
+  const generation = run.generations.get(generationId);
+  if (!generation) {
+    return { ok: false, status: 404, error: "Generation not found" };
+  }
+
+  // A generation whose judging failed can be judged again
+  const canRejudge = generation.status === "failed" && generation.failure?.stage === "judge";
+  if (generation.status !== "completed" && !canRejudge) {
+    return { ok: false, status: 400, error: `Generation not ready for judging. Status: ${generation.status}` };
+  }
+
+  try {
+    // Update status to judging
+    await updateGenerationStatus(runId, generationId, "judging");
+  } catch (error) {
+    console.error("Judge error:", error);
+    return { ok: false, status: 500, error: error instanceof Error ? error.message : "Judge evaluation failed" };
+  }
+
+  try {
+    // Create thumbnails for judge evaluation
+    const originalThumbnail = await resizeImageForJudge(run.originalImageBuffer);
+    const modifiedThumbnail = await resizeImageForJudge(generation.imageBuffer);
+    // Mask transport: the original is unannotated, so the judge needs the mask to know what was selected.
+    // The run's mask is its first image's cell mask or marker layer.
+    const maskThumbnail = run.maskImageBuffer ? await resizeImageForJudge(run.maskImageBuffer) : undefined;
+    const maskAnnotationMode = run.inputs[0]?.annotationMode ?? "grid";
+
+    // Save thumbnails for debugging
+    try {
+      const thumbnailDir = join(process.cwd(), "data", "judge-thumbnails", runId, generationId);
+      await fs.mkdir(thumbnailDir, { recursive: true });
+      await fs.writeFile(join(thumbnailDir, "original.png"), originalThumbnail);
+      await fs.writeFile(join(thumbnailDir, "modified.png"), modifiedThumbnail);
+      console.log(`[DEBUG] Saved judge thumbnails to ${thumbnailDir}`);
+    } catch (error) {
+      console.warn("[DEBUG] Failed to save judge thumbnails:", error);
+      // Non-blocking - continue even if save fails
+    }
+
+    // Runs started with judgeRegionCrops also send the judges full-resolution crops of the selection
+    const regionSource = run.settings.judgeRegionCrops
+      ? await getJudgeRegionSource(run, generation.imageBuffer).catch((error) => {
+          console.warn("[Judge] Could not prepare region crops, judging thumbnails only:", error);
+          return undefined;
+        })
+      : undefined;
+
+    // Judge the image using thumbnails, against the rubric copied onto the run (if any)
+    const judgeRubric = run.settings.judgeRubric ?? DEFAULT_JUDGE_RUBRIC;
+    const startTime = Date.now();
+    const ensembleResult =
+      judgeModelIds.length > 1
+        ? await judgeImageEnsemble(
+            originalThumbnail,
+            modifiedThumbnail,
+            run.prompt,
+            judgeModelIds,
+            run.settings.judgeAggregation ?? DEFAULT_JUDGE_AGGREGATION,
+            run.settings.selectAllMode,
+            maskThumbnail,
+            judgeRubric,
+            regionSource,
+            maskAnnotationMode
+          )
+        : null;
+    const judgeResult =
+      ensembleResult ??
+      (await judgeImage(
+        originalThumbnail,
+        modifiedThumbnail,
+        run.prompt,
+        run.settings.judgeModelId,
+        run.settings.selectAllMode,
+        maskThumbnail,
+        judgeRubric,
+        regionSource,
+        maskAnnotationMode
+      ));
+    const durationMs = Date.now() - startTime;
+
+    // Add judge result
+    const finalJudgeResult: JudgeResult = {
+      score: judgeResult.score,
+      changesCorrect: judgeResult.changesCorrect,
+      preservation: judgeResult.preservation,
+      blueBorderRemoved: judgeResult.blueBorderRemoved,
+      criteria: judgeResult.criteria,
+      checks: judgeResult.checks,
+      rationales: judgeResult.rationales,
+      defects: judgeResult.defects,
+      rubricId: judgeResult.rubricId,
+      proposedPrompt: judgeResult.proposedPrompt,
+      usage: {
+        inputTokens: judgeResult.usage.inputTokens,
+        outputTokens: judgeResult.usage.outputTokens,
+        totalTokens: judgeResult.usage.totalTokens,
+      },
+      cost: judgeResult.cost,
+      durationMs,
+      ensemble: ensembleResult?.ensemble,
+    };
+
+    await addJudgeResult(runId, generationId, finalJudgeResult);
+    // The gallery image's lineage shows the score too
+    await setImageLineageJudgeScore(getImageId(basename(generation.imageUrl)), finalJudgeResult.score).catch((error) =>
+      console.warn("Failed to record judge score in image lineage:", error)
+    );
+
+    return { ok: true, runId, generationId, judgeResult: finalJudgeResult };
+  } catch (error) {
+    console.error("Judge error:", error);
+    const providerError = classifyProviderError(error);
+    const message = providerError.message || "Judge evaluation failed";
+    await reportJudgeFailure(runId, generationId, { kind: providerError.kind, message }).catch((reportError) =>
+      console.warn("Failed to report judge failure:", reportError)
+    );
+    return { ok: false, status: 500, error: message };
+  }
+}
@@ -0,0 +1,179 @@
+import { uuidv7 } from "uuidv7";
+import { createRun, getRun, reportLlmCallFailure, setRunExecutionStatus } from "~/lib/storage/generation-runs";
+import { emitRunEvent, type PendingLlmCall, type RunExecutionStatus } from "~/lib/storage/run-events";
+import { IMAGES_PER_LLM_CALL, MAX_LLM_CALLS_PER_RUN, calculateLLMCallsNeeded } from "~/utils/constants";
+import {
+  generateImages,
+  toRunSettings,
+  validateGenerateImagesRequest,
+  type GenerateImagesFailure,
+  type GenerateImagesRequest,
+} from "./generate-images";
+import { judgeGeneration } from "./judge-generation";
+
+// Body of POST /api/runs: the generate-image request for every image of the run, plus how many to make
+export interface RunSpec extends Omit<GenerateImagesRequest, "runId" | "llmCallId"> {
+  count: number; // Images to generate
+  useJudges?: boolean;
+}
+
+// Provider calls (generations and judges) in flight across all runs
+const MAX_CONCURRENT_PROVIDER_CALLS = 4;
+
+interface RunExecution {
+  status: RunExecutionStatus;
+  abortController: AbortController;
+}
+
+// Runs this server process is executing; finished runs keep their final status in storage instead
+const executions = new Map<string, RunExecution>();
+
+let activeProviderCalls = 0;
+const waitingProviderCalls: Array<() => void> = [];
+
+async function acquireProviderSlot(): Promise<void> {
+  if (activeProviderCalls < MAX_CONCURRENT_PROVIDER_CALLS) {
+    activeProviderCalls++;
+    return;
+  }
+  // The releasing call hands its slot over, so the count stays the same
+  await new Promise<void>((resolve) => waitingProviderCalls.push(resolve));
+}
+
+function releaseProviderSlot() {
+  const next = waitingProviderCalls.shift();
+  if (next) {
+    next();
+  } else {
+    activeProviderCalls--;
+  }
+}
+
+// Run a provider call within the concurrency limit shared by all runs (retries happen inside the call)
+export async function withProviderSlot<T>(call: () => Promise<T>): Promise<T> {
+  await acquireProviderSlot();
+  try {
+    return await call();
+  } finally {
+    releaseProviderSlot();
+  }
+}
+
+// Returns null when the run was cancelled before the call could start
+function runProviderCall<T>(signal: AbortSignal, call: () => Promise<T>): Promise<T | null> {
+  return withProviderSlot(async () => (signal.aborted ? null : await call()));
+}
+
+// Store the final status before announcing it, so a client that connects afterwards still sees it. A run that
+// ended before any generate call stored it (e.g. every call failed early) is stored without images to hold it.
+async function finishRun(
+  runId: string,
+  spec: RunSpec,
+  execution: RunExecution,
+  status: Exclude<RunExecutionStatus, "running">
+) {
+  execution.status = status;
+  try {
+    if (!(await getRun(runId))) {
+      await createRun(
+        Buffer.alloc(0),
+        spec.prompt,
+        (spec.selectedCellsArrays && spec.selectedCellsArrays[0]) || [],
+        toRunSettings(spec),
+        runId
+      );
+    }
+    await setRunExecutionStatus(runId, status);
+  } catch (error) {
+    console.warn(`[Runs] Failed to store final status of run ${runId}:`, error);
+  }
+  emitRunEvent({ type: "finished", runId, status });
+}
+
+async function executeRun(runId: string, spec: RunSpec, llmCalls: PendingLlmCall[], execution: RunExecution) {
+  const { signal } = execution.abortController;
+  const { count: _count, useJudges = false, ...request } = spec;
+  const judgeTasks: Promise<unknown>[] = [];
+
+  const generated = await Promise.all(
+    llmCalls.map(async ({ llmCallId, imageCount }) => {
+      const result = await runProviderCall(signal, () => generateImages({ ...request, runId, llmCallId }, signal));
+      if (!result?.ok) {
+        const failure = signal.aborted
+          ? { kind: "cancelled" as const, message: "Run cancelled" }
+          : { kind: result?.kind ?? "unknown", message: result?.error ?? "Generation failed" };
+        await reportLlmCallFailure(runId, llmCallId, imageCount, failure).catch((reportError) =>
+          console.warn("Failed to report generation failure:", reportError)
+        );
+        return false;
+      }
+
+      if (useJudges) {
+        result.generations.forEach(({ generationId }) => {
+          judgeTasks.push(runProviderCall(signal, () => judgeGeneration(runId, generationId)));
+        });
+      }
+      return true;
+    })
+  );
+  await Promise.all(judgeTasks);
+
+  const status = signal.aborted ? "cancelled" : generated.some(Boolean) ? "completed" : "failed";
+  await finishRun(runId, spec, execution, status);
+  console.log(`[Runs] Run ${runId} finished: ${status}`);
+}
+
+// Validate a run spec and start executing it in the background; resolves as soon as the run is scheduled
+export async function startRun(
+  spec: RunSpec | null
+): Promise<{ ok: true; runId: string; llmCalls: PendingLlmCall[] } | GenerateImagesFailure> {
+  if (!spec || typeof spec !== "object") {
+    return { ok: false, status: 400, error: "Invalid run spec" };
+  }
+  const maxImages = MAX_LLM_CALLS_PER_RUN * IMAGES_PER_LLM_CALL;
+  if (!Number.isInteger(spec.count) || spec.count < 1 || spec.count > maxImages) {
+    return { ok: false, status: 400, error: `count must be an integer between 1 and ${maxImages}` };
+  }
+
+  const validation = await validateGenerateImagesRequest(spec);
+  if (!validation.ok) {
+    return validation;
+  }
+
+  const runId = uuidv7();
+  const llmCalls: PendingLlmCall[] = Array.from({ length: calculateLLMCallsNeeded(spec.count) }, (_, callIndex) => ({
+    llmCallId: uuidv7(),
+    imageCount: Math.min(IMAGES_PER_LLM_CALL, spec.count - callIndex * IMAGES_PER_LLM_CALL),
+  }));
+
+  const execution: RunExecution = { status: "running", abortController: new AbortController() };
+  executions.set(runId, execution);
+  // Queued calls show up as generating right away, even while they wait for a provider slot
+  llmCalls.forEach(({ llmCallId, imageCount }) => {
+    emitRunEvent({ type: "generating", runId, llmCallId, imageCount });
+  });
+
+  executeRun(runId, spec, llmCalls, execution)
+    .catch(async (error) => {
+      console.error(`[Runs] Run ${runId} failed:`, error);
+      await finishRun(runId, spec, execution, "failed");
+    })
+    .finally(() => executions.delete(runId));
+
+  return { ok: true, runId, llmCalls };
+}
+
+// Cancel a running run: queued calls are skipped and in-flight generations are aborted
+export function cancelRun(runId: string): boolean {
+  const execution = executions.get(runId);
+  if (!execution || execution.status !== "running") {
+    return false;
+  }
+  execution.abortController.abort();
+  return true;
+}
+
+// Status of a run this process is executing; null once it has finished (see the run's executionStatus)
+export function getRunExecutionStatus(runId: string): RunExecutionStatus | null {
+  return executions.get(runId)?.status ?? null;
+}
@@ -0,0 +1,75 @@
+import { rankCandidatesPairwise, type PairwiseRanking } from "~/lib/ai/judge/pairwise";
+import { classifyProviderError } from "~/lib/ai/provider-call";
+import { getRun, setRunPairwiseRanking } from "~/lib/storage/generation-runs";
+import { JUDGE_MODEL_SUMMARY } from "~/utils/constants";
+import { resizeImageForJudge } from "~/utils/imageProcessing";
+import { getJudgeApiKeyError } from "./judge-generation";
+import { getRunExecutionStatus, withProviderSlot } from "./orchestrator";
+
+// Failures carry the HTTP status the route responds with
+export type RankGenerationsResult =
+  | { ok: true; runId: string; ranking: PairwiseRanking }
+  | { ok: false; status: number; error: string };
+
+// Rank a finished run's generations head-to-head with a pairwise judge and store the ranking on the run.
+// Uses the run's (primary) judge model unless another one is given.
+export async function rankGenerations(runId: string, judgeModelId?: string): Promise<RankGenerationsResult> {
+  if (!/^[\w-]+$/.test(runId)) {
+    return { ok: false, status: 400, error: "Invalid runId" };
+  }
+  if (judgeModelId !== undefined && !JUDGE_MODEL_SUMMARY[judgeModelId]) {
+    return { ok: false, status: 400, error: `Unknown judge model: ${judgeModelId}` };
+  }
+
+  const run = await getRun(runId);
+  if (!run) {
+    return { ok: false, status: 404, error: "Run not found" };
+  }
+
+  const generations = Array.from(run.generations.values());
+  const inProgress =
+    getRunExecutionStatus(runId) === "running" ||
+    generations.some((generation) => generation.status === "generating" || generation.status === "judging");
+  if (inProgress) {
+    return { ok: false, status: 409, error: "Run has generations that are still in progress" };
+  }
+
+  // Generations whose LLM call failed have no image; those whose judge failed still compete
+  const candidates = generations.filter((generation) => generation.imageBuffer.length > 0);
+  if (candidates.length < 2) {
+    return { ok: false, status: 400, error: "Pairwise ranking needs at least two generated images" };
+  }
+
+  const modelId = judgeModelId ?? run.settings.judgeModelId;
+  const apiKeyError = getJudgeApiKeyError([modelId]);
+  if (apiKeyError) {
+    return { ok: false, status: 500, error: apiKeyError };
+  }
+
+  try {
+    // Same thumbnails the single-image judge sees
+    const originalThumbnail = await resizeImageForJudge(run.originalImageBuffer);
+    const maskThumbnail = run.maskImageBuffer ? await resizeImageForJudge(run.maskImageBuffer) : undefined;
+    const candidateThumbnails = await Promise.all(
+      candidates.map(async ({ generationId, imageBuffer }) => ({
+        generationId,
+        imageBuffer: await resizeImageForJudge(imageBuffer),
+      }))
+    );
+
+    console.log(`[Rank] Ranking ${candidates.length} generations of run ${runId} with ${modelId}`);
+    const ranking = await rankCandidatesPairwise(originalThumbnail, candidateThumbnails, run.prompt, {
+      modelId,
+      selectAllMode: run.settings.selectAllMode,
+      maskImageBuffer: maskThumbnail,
+      annotationMode: run.inputs[0]?.annotationMode ?? "grid",
+      runComparison: withProviderSlot,
+    });
+
+    await setRunPairwiseRanking(runId, ranking);
+    return { ok: true, runId, ranking };
+  } catch (error) {
+    console.error("Pairwise ranking error:", error);
+    return { ok: false, status: 500, error: classifyProviderError(error).message || "Pairwise ranking failed" };
+  }
+}
@@ -0,0 +1,50 @@
+import { z } from "zod";
+import { getRun, setHumanRating, type HumanRating } from "~/lib/storage/generation-runs";
+
+// Both null clears the rating
+const humanRatingInputSchema = z.object({
+  thumb: z.enum(["up", "down"]).nullable(),
+  score: z.number().int().min(1).max(10).nullable(),
+});
+
+// Failures carry the HTTP status the route responds with
+export type RateGenerationResult =
+  | { ok: true; runId: string; generationId: string; humanRating: HumanRating | null }
+  | { ok: false; status: number; error: string };
+
+// Record a person's thumbs-up/down and 1-10 score for a generated image
+export async function rateGeneration(
+  runId: string,
+  generationId: string,
+  input: unknown
+): Promise<RateGenerationResult> {
+  if (!/^[\w-]+$/.test(runId)) {
+    return { ok: false, status: 400, error: "Invalid runId" };
+  }
+
+  const parsed = humanRatingInputSchema.safeParse(input);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    const location = issue?.path.length ? `${issue.path.join(".")}: ` : "";
+    return { ok: false, status: 400, error: `Invalid rating: ${location}${issue?.message ?? "unknown error"}` };
+  }
+
+  const run = await getRun(runId);
+  if (!run) {
+    return { ok: false, status: 404, error: "Run not found" };
+  }
+  const generation = run.generations.get(generationId);
+  if (!generation) {
+    return { ok: false, status: 404, error: "Generation not found" };
+  }
+  // Generations whose LLM call failed have no image to rate
+  if (generation.imageBuffer.length === 0) {
+    return { ok: false, status: 400, error: "Generation has no image to rate" };
+  }
+
+  const { thumb, score } = parsed.data;
+  const humanRating =
+    thumb === null && score === null ? undefined : { thumb, score, ratedAt: new Date().toISOString() };
+  await setHumanRating(runId, generationId, humanRating);
+  return { ok: true, runId, generationId, humanRating: humanRating ?? null };
+}
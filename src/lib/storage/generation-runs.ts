@@ -1,4 +1,20 @@
+import { promises as fs } from "fs";
+import path from "path";
 import { uuidv7 } from "uuidv7";
+import { createImageFromFilename, getAllImagesAsObjects, type Image } from "~/utils/storage";
+import type { AnnotationTransport, JudgeAggregation } from "~/utils/constants";
+import type { ProviderErrorKind } from "~/lib/ai/provider-call";
+import type { JudgeEnsemble } from "~/lib/ai/judge/ensemble";
+import type { PairwiseRanking } from "~/lib/ai/judge/pairwise";
+import type { JudgeRubric } from "~/lib/ai/judge/rubric";
+import type { PixelDiffMetrics } from "~/utils/pixelMetrics";
+import { emitRunEvent, type RunEventGeneration, type RunExecutionStatus } from "./run-events";
+
+const RUNS_DIR = path.join(process.cwd(), "data", "runs");
+const RUN_FILE = "run.json";
+const ORIGINAL_IMAGE_FILE = "original.png";
+const MASK_IMAGE_FILE = "mask.png";
+const GENERATIONS_DIR = "generations";
 
 export interface TokenUsage {
   inputTokens: number;
@@ -8,100 +24,468 @@ export interface TokenUsage {
 
 export interface JudgeResult {
   score: number;
-  changesCorrect: number;
-  preservation: number;
+  changesCorrect?: number; // Missing when the run's rubric has no such criterion
+  preservation?: number;
   blueBorderRemoved?: boolean; // Only present in normal mode (not select-all mode)
+  criteria?: Record<string, number>; // Rubric criterion scores; missing on results from before rubrics
+  checks?: Record<string, boolean>;
+  rationales?: Record<string, string>; // Why each criterion got its score; missing on older results
+  defects?: string[];
+  rubricId?: string;
   proposedPrompt: string;
   usage: TokenUsage;
   cost: number; // Cost in USD
   durationMs?: number;
+  ensemble?: JudgeEnsemble; // Per-judge scores and agreement when the run used several judges
+}
+
+// A person's verdict on a generation, kept next to the judge result to calibrate the judge against
+export interface HumanRating {
+  thumb: "up" | "down" | null;
+  score: number | null; // 1-10
+  ratedAt: string; // ISO time of the last change
+}
+
+// Why a generation failed: its LLM call produced no image, or its judge call failed
+export interface GenerationFailure {
+  stage: "generation" | "judge";
+  kind: ProviderErrorKind;
+  message: string;
 }
 
 export interface GenerationData {
   generationId: string;
-  imageBuffer: Buffer;
-  imageUrl: string;
-  status: "generating" | "completed" | "judging" | "judged";
+  imageBuffer: Buffer; // Empty when the LLM call failed
+  imageUrl: string; // Empty when the LLM call failed
+  status: "generating" | "completed" | "judging" | "judged" | "failed";
+  failure?: GenerationFailure; // Only set on failed generations
   usage?: TokenUsage;
   judgeResult?: JudgeResult;
+  humanRating?: HumanRating;
   imageGenerationDurationMs?: number;
   judgeDurationMs?: number;
   completedAt?: Date;
   llmCallId?: string; // Shared ID for images from the same LLM invocation
   imageIndex?: number; // Index within the LLM call (0, 1, 2)
+  rawImageBuffer?: Buffer; // Model output before mask compositing; imageBuffer holds the composited result
+  maskFeatherPx?: number; // Feather radius used when compositing, if it was applied
+  pixelMetrics?: PixelDiffMetrics; // Deterministic change measured against the clean original
+}
+
+// Per-image inputs of a run, kept so the editor can restore the original annotations
+export interface RunImageInput {
+  filename: string; // Source image in data/images
+  selectedCells: string[];
+  gridRows?: number;
+  gridCols?: number;
+  selectAllMode: boolean;
+  annotationMode: "grid" | "coords";
+  coordinatePoints: Array<{ x: number; y: number; number: number }>;
+  coordinateLines: Array<{ x1: number; y1: number; x2: number; y2: number; number: number }>;
+}
+
+// Set on runs created by auto-refine from an earlier round's proposed prompt
+export interface RunRefinement {
+  rootRunId: string; // First run of the refinement chain
+  parentRunId: string;
+  parentGenerationId: string; // Best generation of the parent run, whose proposedPrompt this run uses
+  round: number; // 1 is the root run, so refined runs start at 2
+  promptLineage: string[]; // Prompts of the earlier rounds, oldest first
 }
 
 export interface GenerationRun {
   runId: string;
   originalImageBuffer: Buffer;
+  maskImageBuffer?: Buffer; // Mask/marker layer sent alongside the clean original (mask transport only)
   prompt: string;
   selectedCells: string[];
   settings: {
     gridRows?: number;
     gridCols?: number;
     judgeModelId: string;
+    judgeModelIds?: string[]; // Judge ensemble (judgeModelId first); missing when a single judge is used
+    judgeAggregation?: JudgeAggregation; // How ensemble scores combine (ensembles only)
+    judgeRubric?: JudgeRubric; // Snapshot of a custom rubric, so later edits don't change how the run is judged
+    judgeRegionCrops?: boolean; // Judges also get full-resolution crops of the selection; missing: thumbnails only
+    generationModelId?: string; // Missing on runs created before the setting existed (default generation model)
     selectAllMode: boolean;
     originalFilename: string;
+    annotationTransport?: AnnotationTransport; // Missing on runs created before the setting existed (burned-in)
   };
+  inputs: RunImageInput[];
+  annotatedImageFilenames: string[]; // Files in data/annotated sent to the model for this run
+  refinement?: RunRefinement;
+  pairwiseRanking?: PairwiseRanking; // Latest head-to-head ranking of the run's generations
+  executionStatus?: Exclude<RunExecutionStatus, "running">; // How a run started with POST /api/runs finished
   generations: Map<string, GenerationData>;
   createdAt: Date;
 }
 
-// In-memory storage for active generation runs
-const activeRuns = new Map<string, GenerationRun>();
+// JSON shape of a run as stored in run.json and returned by the API: buffers live next to run.json as PNG files
+export interface GenerationRecord extends Omit<GenerationData, "imageBuffer" | "rawImageBuffer" | "completedAt"> {
+  imageFile: string;
+  rawImageFile?: string;
+  completedAt?: string;
+}
+
+export interface RunRecord
+  extends Omit<GenerationRun, "originalImageBuffer" | "maskImageBuffer" | "generations" | "createdAt"> {
+  generations: GenerationRecord[];
+  createdAt: string;
+}
+
+// Run as returned by /api/runs, with its source and annotated images resolved to URLs
+export interface RunSummary extends RunRecord {
+  sourceImages: Array<Image | null>; // null when the source image is no longer in the index
+  annotatedImageUrls: string[];
+}
+
+// Runs are persisted under data/runs/<runId>/ and cached in memory while in use
+const runCache = new Map<string, GenerationRun>();
+const runLastAccess = new Map<string, number>();
+const pendingLoads = new Map<string, Promise<GenerationRun | undefined>>();
+const writeQueues = new Map<string, Promise<void>>();
 
-// Cleanup runs older than 1 hour
+// Evict idle runs from the cache every hour (they remain on disk)
 const CLEANUP_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
-const RUN_MAX_AGE_MS = 60 * 60 * 1000; // 1 hour
+const RUN_MAX_IDLE_MS = 60 * 60 * 1000; // 1 hour
 
-function cleanupOldRuns() {
+function evictIdleRuns() {
   const now = Date.now();
-  for (const [runId, run] of activeRuns.entries()) {
-    const age = now - run.createdAt.getTime();
-    if (age > RUN_MAX_AGE_MS) {
-      activeRuns.delete(runId);
-      console.log(`[Storage] Cleaned up old run: ${runId}`);
+  for (const [runId, lastAccess] of runLastAccess.entries()) {
+    if (now - lastAccess > RUN_MAX_IDLE_MS && !writeQueues.has(runId)) {
+      runCache.delete(runId);
+      runLastAccess.delete(runId);
+      console.log(`[Storage] Evicted idle run from cache: ${runId}`);
     }
   }
 }
 
 // Run cleanup every hour
-setInterval(cleanupOldRuns, CLEANUP_INTERVAL_MS);
+setInterval(evictIdleRuns, CLEANUP_INTERVAL_MS);
+
+function getRunDir(runId: string): string {
+  // Run IDs come from request bodies, so never let them escape RUNS_DIR
+  if (!/^[\w-]+$/.test(runId)) {
+    throw new Error(`Invalid run ID: ${runId}`);
+  }
+  return path.join(RUNS_DIR, runId);
+}
+
+function cacheRun(run: GenerationRun): GenerationRun {
+  runCache.set(run.runId, run);
+  runLastAccess.set(run.runId, Date.now());
+  return run;
+}
+
+function getGenerationImageFile(generationId: string, variant?: "raw"): string {
+  return path.join(GENERATIONS_DIR, variant ? `${generationId}-${variant}.png` : `${generationId}.png`);
+}
+
+function toGenerationRecord({
+  imageBuffer: _imageBuffer,
+  rawImageBuffer,
+  completedAt,
+  ...generation
+}: GenerationData): GenerationRecord {
+  return {
+    ...generation,
+    imageFile: getGenerationImageFile(generation.generationId),
+    rawImageFile: rawImageBuffer?.length ? getGenerationImageFile(generation.generationId, "raw") : undefined,
+    completedAt: completedAt?.toISOString(),
+  };
+}
+
+export function toRunRecord(run: GenerationRun): RunRecord {
+  return {
+    runId: run.runId,
+    prompt: run.prompt,
+    selectedCells: run.selectedCells,
+    settings: run.settings,
+    inputs: run.inputs,
+    annotatedImageFilenames: run.annotatedImageFilenames,
+    refinement: run.refinement,
+    pairwiseRanking: run.pairwiseRanking,
+    executionStatus: run.executionStatus,
+    generations: Array.from(run.generations.values()).map(toGenerationRecord),
+    createdAt: run.createdAt.toISOString(),
+  };
+}
+
+// Generation record plus the gallery image its imageUrl points at
+function toRunEventGeneration(generation: GenerationRecord): RunEventGeneration {
+  return {
+    ...generation,
+    image: generation.imageUrl ? createImageFromFilename(path.basename(generation.imageUrl), "generated") : null,
+  };
+}
+
+export function toRunEventGenerations(record: RunRecord): RunEventGeneration[] {
+  return record.generations.map(toRunEventGeneration);
+}
+
+function emitGenerationEvent(
+  runId: string,
+  type: Exclude<GenerationData["status"], "generating">,
+  generation: GenerationData
+) {
+  const eventGeneration = toRunEventGeneration(toGenerationRecord(generation));
+  if (type === "failed") {
+    emitRunEvent({ type, runId, generation: eventGeneration, error: generation.failure?.message ?? "Failed" });
+  } else {
+    emitRunEvent({ type, runId, generation: eventGeneration });
+  }
+}
+
+async function readBufferIfExists(filepath: string): Promise<Buffer> {
+  try {
+    return await fs.readFile(filepath);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return Buffer.alloc(0);
+    }
+    throw error;
+  }
+}
+
+async function readMaskImage(runDir: string): Promise<Buffer | undefined> {
+  const maskImageBuffer = await readBufferIfExists(path.join(runDir, MASK_IMAGE_FILE));
+  return maskImageBuffer.length > 0 ? maskImageBuffer : undefined;
+}
+
+async function readRunRecord(runId: string): Promise<RunRecord | undefined> {
+  try {
+    const record: RunRecord = JSON.parse(await fs.readFile(path.join(getRunDir(runId), RUN_FILE), "utf-8"));
+    // Fill in fields added after the run was written
+    return {
+      ...record,
+      inputs: record.inputs ?? [],
+      annotatedImageFilenames: record.annotatedImageFilenames ?? [],
+    };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+async function readRunFromDisk(runId: string): Promise<GenerationRun | undefined> {
+  const runDir = getRunDir(runId);
+  const stored = await readRunRecord(runId);
+  if (!stored) {
+    return undefined;
+  }
+
+  const generations = await Promise.all(
+    stored.generations.map(
+      async ({ imageFile, rawImageFile, completedAt, ...generation }): Promise<GenerationData> => ({
+        ...generation,
+        imageBuffer: await readBufferIfExists(path.join(runDir, imageFile)),
+        rawImageBuffer: rawImageFile ? await readBufferIfExists(path.join(runDir, rawImageFile)) : undefined,
+        completedAt: completedAt ? new Date(completedAt) : undefined,
+      })
+    )
+  );
+
+  return {
+    runId: stored.runId,
+    originalImageBuffer: await readBufferIfExists(path.join(runDir, ORIGINAL_IMAGE_FILE)),
+    maskImageBuffer: stored.settings.annotationTransport === "mask" ? await readMaskImage(runDir) : undefined,
+    prompt: stored.prompt,
+    selectedCells: stored.selectedCells,
+    settings: stored.settings,
+    inputs: stored.inputs,
+    annotatedImageFilenames: stored.annotatedImageFilenames,
+    refinement: stored.refinement,
+    pairwiseRanking: stored.pairwiseRanking,
+    executionStatus: stored.executionStatus,
+    generations: new Map(generations.map((generation) => [generation.generationId, generation])),
+    createdAt: new Date(stored.createdAt),
+  };
+}
+
+// Load a run from disk once, even if several requests ask for it at the same time
+function loadRun(runId: string): Promise<GenerationRun | undefined> {
+  const pending = pendingLoads.get(runId);
+  if (pending) {
+    return pending;
+  }
+
+  const load = readRunFromDisk(runId)
+    .then((run) => {
+      // Another request may have created the run while we were reading
+      const cached = runCache.get(runId);
+      if (cached) {
+        return cached;
+      }
+      return run ? cacheRun(run) : undefined;
+    })
+    .finally(() => {
+      pendingLoads.delete(runId);
+    });
+  pendingLoads.set(runId, load);
+  return load;
+}
+
+// Write a file atomically so readers never see a partially written run
+async function writeFileAtomic(filepath: string, data: string | Buffer): Promise<void> {
+  const tempPath = `${filepath}.${process.pid}.tmp`;
+  await fs.writeFile(tempPath, data);
+  await fs.rename(tempPath, filepath);
+}
+
+// Queue a write of the run's current state; writes for the same run never overlap. The run is passed in
+// rather than looked up from the cache, so the write still happens if the run is evicted while it waits
+function persistRun(run: GenerationRun, files: Array<{ name: string; data: Buffer }> = []): Promise<void> {
+  const { runId } = run;
+  const previous = writeQueues.get(runId) ?? Promise.resolve();
+  const write = previous
+    .catch(() => {
+      // A failed earlier write must not block later ones
+    })
+    .then(async () => {
+      const runDir = getRunDir(runId);
+      await fs.mkdir(path.join(runDir, GENERATIONS_DIR), { recursive: true });
+      for (const file of files) {
+        await writeFileAtomic(path.join(runDir, file.name), file.data);
+      }
+      await writeFileAtomic(path.join(runDir, RUN_FILE), JSON.stringify(toRunRecord(run), null, 2));
+    });
+
+  writeQueues.set(runId, write);
+  return write.finally(() => {
+    if (writeQueues.get(runId) === write) {
+      writeQueues.delete(runId);
+    }
+  });
+}
 
-export function createRun(
+async function requireRun(runId: string): Promise<GenerationRun> {
+  const run = await getRun(runId);
+  if (!run) {
+    throw new Error(`Run not found: ${runId}`);
+  }
+  return run;
+}
+
+export async function createRun(
   originalImageBuffer: Buffer,
   prompt: string,
   selectedCells: string[],
   settings: GenerationRun["settings"],
-  runId?: string
-): string {
+  runId?: string,
+  inputs: RunImageInput[] = [],
+  refinement?: RunRefinement
+): Promise<string> {
   const actualRunId = runId || uuidv7();
-  
-  // Check if run already exists (handles race conditions)
-  if (activeRuns.has(actualRunId)) {
+
+  // Check if run already exists (handles race conditions). Re-check the cache after loading:
+  // a parallel request may have created the run while we waited on disk.
+  await getRun(actualRunId);
+  if (runCache.has(actualRunId)) {
     console.log(`[Storage] Run already exists: ${actualRunId}`);
     return actualRunId;
   }
-  
+
   const run: GenerationRun = {
     runId: actualRunId,
     originalImageBuffer,
     prompt,
     selectedCells,
     settings,
+    inputs,
+    annotatedImageFilenames: [],
+    refinement,
     generations: new Map(),
     createdAt: new Date(),
   };
-  activeRuns.set(actualRunId, run);
+  cacheRun(run);
+  await persistRun(run, [{ name: ORIGINAL_IMAGE_FILE, data: originalImageBuffer }]);
   console.log(`[Storage] Created new run: ${actualRunId}`);
   return actualRunId;
 }
 
-export function getRun(runId: string): GenerationRun | undefined {
-  return activeRuns.get(runId);
+export async function getRun(runId: string): Promise<GenerationRun | undefined> {
+  const cached = runCache.get(runId);
+  if (cached) {
+    runLastAccess.set(runId, Date.now());
+    return cached;
+  }
+  return loadRun(runId);
+}
+
+// List all stored runs (newest first) without loading their image buffers
+export async function listRuns(): Promise<RunRecord[]> {
+  let runIds: string[];
+  try {
+    runIds = await fs.readdir(RUNS_DIR);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return [];
+    }
+    throw error;
+  }
+
+  const records = await Promise.all(
+    runIds.map(async (runId) => {
+      // Prefer the cached run: it may have writes that are still queued
+      const cached = runCache.get(runId);
+      if (cached) {
+        return toRunRecord(cached);
+      }
+      try {
+        return await readRunRecord(runId);
+      } catch (error) {
+        console.warn(`[Storage] Skipping unreadable run ${runId}:`, error);
+        return undefined;
+      }
+    })
+  );
+
+  return records
+    .filter((record): record is RunRecord => record !== undefined)
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+}
+
+export async function toRunSummaries(records: RunRecord[]): Promise<RunSummary[]> {
+  const images = await getAllImagesAsObjects();
+  const imagesByFilename = new Map(images.map((image) => [image.filename, image]));
+
+  return records.map((record) => {
+    // Runs created before inputs were recorded only know their first source image
+    const sourceFilenames =
+      record.inputs.length > 0 ? record.inputs.map((input) => input.filename) : [record.settings.originalFilename];
+    return {
+      ...record,
+      sourceImages: sourceFilenames.map((filename) => imagesByFilename.get(filename) ?? null),
+      annotatedImageUrls: record.annotatedImageFilenames.map((filename) => `/api/annotated/${filename}`),
+    };
+  });
+}
+
+export async function setRunOriginalImage(
+  runId: string,
+  originalImageBuffer: Buffer,
+  maskImageBuffer?: Buffer
+): Promise<void> {
+  const run = await requireRun(runId);
+  run.originalImageBuffer = originalImageBuffer;
+  const files = [{ name: ORIGINAL_IMAGE_FILE, data: originalImageBuffer }];
+  if (maskImageBuffer) {
+    run.maskImageBuffer = maskImageBuffer;
+    files.push({ name: MASK_IMAGE_FILE, data: maskImageBuffer });
+  }
+  await persistRun(run, files);
+}
+
+export async function setRunAnnotatedImages(runId: string, annotatedImageFilenames: string[]): Promise<void> {
+  const run = await requireRun(runId);
+  run.annotatedImageFilenames = annotatedImageFilenames;
+  await persistRun(run);
 }
 
-export function addGeneration(
+export async function addGeneration(
   runId: string,
   generationId: string,
   imageBuffer: Buffer,
@@ -110,12 +494,10 @@ export function addGeneration(
   durationMs?: number,
   status: GenerationData["status"] = "completed",
   llmCallId?: string,
-  imageIndex?: number
-): void {
-  const run = activeRuns.get(runId);
-  if (!run) {
-    throw new Error(`Run not found: ${runId}`);
-  }
+  imageIndex?: number,
+  extras: Pick<GenerationData, "rawImageBuffer" | "maskFeatherPx" | "pixelMetrics"> = {}
+): Promise<void> {
+  const run = await requireRun(runId);
 
   const generationData: GenerationData = {
     generationId,
@@ -127,20 +509,26 @@ export function addGeneration(
     completedAt: status === "completed" ? new Date() : undefined,
     llmCallId,
     imageIndex,
+    ...extras,
   };
 
   run.generations.set(generationId, generationData);
+  const files = [{ name: getGenerationImageFile(generationId), data: imageBuffer }];
+  if (extras.rawImageBuffer) {
+    files.push({ name: getGenerationImageFile(generationId, "raw"), data: extras.rawImageBuffer });
+  }
+  await persistRun(run, files);
+  if (status !== "generating") {
+    emitGenerationEvent(runId, status, generationData);
+  }
 }
 
-export function updateGenerationStatus(
+export async function updateGenerationStatus(
   runId: string,
   generationId: string,
   status: GenerationData["status"]
-): void {
-  const run = activeRuns.get(runId);
-  if (!run) {
-    throw new Error(`Run not found: ${runId}`);
-  }
+): Promise<void> {
+  const run = await requireRun(runId);
 
   const generation = run.generations.get(generationId);
   if (!generation) {
@@ -148,26 +536,113 @@ export function updateGenerationStatus(
   }
 
   generation.status = status;
+  await persistRun(run);
+  if (status !== "generating") {
+    emitGenerationEvent(runId, status, generation);
+  }
 }
 
-export function addJudgeResult(
+// Record a failed LLM call as one failed generation per requested image, so the failure reason stays with the run.
+// Without a stored run there is nothing to attach them to, and only subscribers hear about the failure.
+export async function reportLlmCallFailure(
   runId: string,
-  generationId: string,
-  judgeResult: JudgeResult
-): void {
-  const run = activeRuns.get(runId);
+  llmCallId: string,
+  imageCount: number,
+  failure: Omit<GenerationFailure, "stage">
+): Promise<void> {
+  const run = await getRun(runId);
   if (!run) {
-    throw new Error(`Run not found: ${runId}`);
+    emitRunEvent({ type: "failed", runId, llmCallId, error: failure.message });
+    return;
+  }
+
+  const failedGenerations = Array.from(
+    { length: imageCount },
+    (_, imageIndex): GenerationData => ({
+      generationId: uuidv7(),
+      imageBuffer: Buffer.alloc(0),
+      imageUrl: "",
+      status: "failed",
+      failure: { stage: "generation", ...failure },
+      llmCallId,
+      imageIndex,
+    })
+  );
+  failedGenerations.forEach((generation) => run.generations.set(generation.generationId, generation));
+  await persistRun(run);
+  failedGenerations.forEach((generation) => emitGenerationEvent(runId, "failed", generation));
+}
+
+// Mark a generation whose judge call failed; it keeps its image and can be judged again
+export async function reportJudgeFailure(
+  runId: string,
+  generationId: string,
+  failure: Omit<GenerationFailure, "stage">
+): Promise<void> {
+  const run = await requireRun(runId);
+
+  const generation = run.generations.get(generationId);
+  if (!generation) {
+    throw new Error(`Generation not found: ${generationId}`);
   }
 
+  generation.status = "failed";
+  generation.failure = { stage: "judge", ...failure };
+  await persistRun(run);
+  emitGenerationEvent(runId, "failed", generation);
+}
+
+export async function addJudgeResult(runId: string, generationId: string, judgeResult: JudgeResult): Promise<void> {
+  const run = await requireRun(runId);
+
   const generation = run.generations.get(generationId);
   if (!generation) {
     throw new Error(`Generation not found: ${generationId}`);
   }
 
   generation.judgeResult = judgeResult;
+  generation.failure = undefined;
   generation.judgeDurationMs = judgeResult.durationMs;
   generation.status = "judged";
+  await persistRun(run);
+  emitGenerationEvent(runId, "judged", generation);
   console.log(`[Storage] Added judge result for generation ${generationId} in run ${runId}`);
 }
 
+export async function setRunPairwiseRanking(runId: string, pairwiseRanking: PairwiseRanking): Promise<void> {
+  const run = await requireRun(runId);
+  run.pairwiseRanking = pairwiseRanking;
+  await persistRun(run);
+  emitRunEvent({ type: "ranked", runId, ranking: pairwiseRanking });
+  console.log(`[Storage] Stored pairwise ranking of ${pairwiseRanking.standings.length} generations in run ${runId}`);
+}
+
+// Record how a server-executed run finished; runs whose LLM calls all failed before it was created aren't stored
+export async function setRunExecutionStatus(
+  runId: string,
+  executionStatus: Exclude<RunExecutionStatus, "running">
+): Promise<void> {
+  const run = await getRun(runId);
+  if (!run) {
+    return;
+  }
+  run.executionStatus = executionStatus;
+  await persistRun(run);
+}
+
+// Store or (with undefined) clear a person's rating of a generation
+export async function setHumanRating(
+  runId: string,
+  generationId: string,
+  humanRating: HumanRating | undefined
+): Promise<void> {
+  const run = await requireRun(runId);
+
+  const generation = run.generations.get(generationId);
+  if (!generation) {
+    throw new Error(`Generation not found: ${generationId}`);
+  }
+
+  generation.humanRating = humanRating;
+  await persistRun(run);
+}
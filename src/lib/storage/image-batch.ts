@@ -0,0 +1,112 @@
+import JSZip from "jszip";
+import { z } from "zod";
+import { MAX_BATCH_IMAGES } from "~/utils/constants";
+import { getAllImages, getImage, updateImagesMetadata, type Image, type ImageMetadata } from "~/utils/storage";
+
+export const MAX_TAG_LENGTH = 50;
+export const MAX_ALBUM_NAME_LENGTH = 100;
+
+// Tags are matched case-insensitively, so they are stored trimmed and lower-cased
+export const tagSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .max(MAX_TAG_LENGTH)
+  .transform((tag) => tag.toLowerCase());
+// Album names end up in URL paths (/api/albums/$album), so they can't contain "/" or control characters
+export const albumNameSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .max(MAX_ALBUM_NAME_LENGTH)
+  .refine((name) => !/[/\u0000-\u001f\u007f]/.test(name), 'Must not contain "/" or control characters');
+
+const imageBatchRequestSchema = z.intersection(
+  z.object({
+    imageIds: z.array(z.string().min(1)).min(1).max(MAX_BATCH_IMAGES),
+  }),
+  z.discriminatedUnion("action", [
+    z.object({ action: z.literal("favorite") }),
+    z.object({ action: z.literal("unfavorite") }),
+    z.object({ action: z.literal("delete") }),
+    z.object({ action: z.literal("restore") }),
+    z.object({ action: z.literal("addTags"), tags: z.array(tagSchema).min(1) }),
+    z.object({ action: z.literal("removeTags"), tags: z.array(tagSchema).min(1) }),
+    z.object({ action: z.literal("moveToAlbum"), album: albumNameSchema.nullable() }), // null takes images out of their album
+    z.object({ action: z.literal("download") }),
+  ])
+);
+
+export type ImageBatchRequest = z.infer<typeof imageBatchRequestSchema>;
+export type ImageBatchAction = ImageBatchRequest["action"];
+
+// Failures carry the HTTP status the route responds with
+export type ParseImageBatchResult =
+  | { ok: true; request: ImageBatchRequest }
+  | { ok: false; status: number; error: string };
+
+export function parseImageBatchRequest(input: unknown): ParseImageBatchResult {
+  const parsed = imageBatchRequestSchema.safeParse(input);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    const location = issue?.path.length ? `${issue.path.join(".")}: ` : "";
+    return { ok: false, status: 400, error: `Invalid batch request: ${location}${issue?.message ?? "unknown error"}` };
+  }
+  return { ok: true, request: parsed.data };
+}
+
+// The metadata change for one image; returns the metadata unchanged when there is nothing to do
+function applyAction(
+  request: Exclude<ImageBatchRequest, { action: "download" }>,
+  metadata: ImageMetadata,
+  now: string
+): ImageMetadata {
+  switch (request.action) {
+    case "favorite":
+      return metadata.favoritedAt ? metadata : { ...metadata, favoritedAt: now };
+    case "unfavorite":
+      return metadata.favoritedAt ? { ...metadata, favoritedAt: null } : metadata;
+    case "delete":
+      // Keep the original deletion time of images already in the trash
+      return metadata.deletedAt ? metadata : { ...metadata, deletedAt: now };
+    case "restore":
+      return metadata.deletedAt ? { ...metadata, deletedAt: null } : metadata;
+    case "addTags": {
+      const tags = [...new Set([...(metadata.tags ?? []), ...request.tags])];
+      return tags.length === (metadata.tags ?? []).length ? metadata : { ...metadata, tags };
+    }
+    case "removeTags": {
+      const tags = (metadata.tags ?? []).filter((tag) => !request.tags.includes(tag));
+      return tags.length === (metadata.tags ?? []).length ? metadata : { ...metadata, tags };
+    }
+    case "moveToAlbum":
+      return (metadata.album ?? null) === request.album ? metadata : { ...metadata, album: request.album };
+  }
+}
+
+// Apply one metadata change to every image in the request, in a single write
+export async function applyImageBatch(
+  request: Exclude<ImageBatchRequest, { action: "download" }>
+): Promise<{ images: Image[]; missingIds: string[]; updatedCount: number }> {
+  const now = new Date().toISOString();
+  return updateImagesMetadata(request.imageIds, (metadata) => applyAction(request, metadata, now));
+}
+
+// ZIP of the images' PNG files; images no longer in the index or on disk are left out
+export async function zipImages(imageIds: string[]): Promise<Buffer> {
+  const index = await getAllImages();
+  const zip = new JSZip();
+  for (const id of new Set(imageIds)) {
+    const metadata = index[id];
+    if (!metadata) {
+      continue;
+    }
+    try {
+      zip.file(metadata.filename, await getImage(metadata.filename));
+    } catch (error) {
+      console.warn(`[Batch] Skipping image ${id} missing from disk:`, error);
+    }
+  }
+  // PNGs are already compressed
+  return zip.generateAsync({ type: "nodebuffer", compression: "STORE" });
+}
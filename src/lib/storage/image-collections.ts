@@ -0,0 +1,161 @@
+import { albumNameSchema, tagSchema } from "~/lib/storage/image-batch";
+import { getAllImages, updateImagesMetadata, type ImageMetadata } from "~/utils/storage";
+import { getThumbnailUrl } from "~/utils/thumbnails";
+
+/**
+ * Tags and albums live on the images themselves (ImageMetadata.tags / .album): a tag or album exists
+ * while some image has it, so images are tagged or moved into a new album with /api/images/batch,
+ * and renaming or deleting one rewrites every image that has it. Trashed images keep theirs,
+ * so restoring an image puts it back where it was.
+ */
+
+export interface TagSummary {
+  name: string;
+  count: number; // Images outside the trash
+}
+
+export interface AlbumSummary {
+  name: string;
+  count: number; // Images outside the trash
+  coverUrl: string; // Thumbnail of the newest image in the album
+}
+
+// Failures carry the HTTP status the route responds with
+export type CollectionChangeResult =
+  | { ok: true; name: string | null; updatedCount: number }
+  | { ok: false; status: number; error: string };
+
+export async function listTags(): Promise<TagSummary[]> {
+  const counts = new Map<string, number>();
+  for (const metadata of Object.values(await getAllImages())) {
+    if (metadata.deletedAt) continue;
+    metadata.tags?.forEach((tag) => counts.set(tag, (counts.get(tag) ?? 0) + 1));
+  }
+  return [...counts].map(([name, count]) => ({ name, count })).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+const ALBUM_COVER_WIDTH = 320;
+
+export async function listAlbums(): Promise<AlbumSummary[]> {
+  const albums = new Map<string, { count: number; cover: ImageMetadata }>();
+  for (const metadata of Object.values(await getAllImages())) {
+    if (metadata.deletedAt || !metadata.album) continue;
+    const album = albums.get(metadata.album);
+    if (!album) {
+      albums.set(metadata.album, { count: 1, cover: metadata });
+      continue;
+    }
+    album.count++;
+    if (metadata.createdAt > album.cover.createdAt) {
+      album.cover = metadata;
+    }
+  }
+  return [...albums]
+    .map(([name, { count, cover }]) => ({
+      name,
+      count,
+      coverUrl: getThumbnailUrl(`/api/images/${cover.filename}`, ALBUM_COVER_WIDTH),
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Rewrite every image matching `has` in one transaction; not found when no image matches
+async function updateCollection(
+  has: (metadata: ImageMetadata) => boolean,
+  update: (metadata: ImageMetadata) => ImageMetadata,
+  name: string | null,
+  notFoundError: string
+): Promise<CollectionChangeResult> {
+  const ids = Object.entries(await getAllImages())
+    .filter(([, metadata]) => has(metadata))
+    .map(([id]) => id);
+  if (ids.length === 0) {
+    return { ok: false, status: 404, error: notFoundError };
+  }
+
+  // Check again inside the transaction, in case an image changed since it was read
+  const { updatedCount } = await updateImagesMetadata(ids, (metadata) => (has(metadata) ? update(metadata) : metadata));
+  return { ok: true, name, updatedCount };
+}
+
+// Normalize a tag or album name the way images store it (a route param, or the new name of a rename)
+function parseName(schema: typeof tagSchema | typeof albumNameSchema, value: unknown, label: string) {
+  const parsed = schema.safeParse(value);
+  return parsed.success
+    ? { ok: true as const, name: parsed.data }
+    : {
+        ok: false as const,
+        status: 400,
+        error: `Invalid ${label} name: ${parsed.error.issues[0]?.message ?? "unknown error"}`,
+      };
+}
+
+// Body: { name }. Renaming onto an existing tag merges the two
+export async function renameTag(tagParam: string, input: unknown): Promise<CollectionChangeResult> {
+  const current = parseName(tagSchema, tagParam, "tag");
+  if (!current.ok) {
+    return current;
+  }
+  const parsed = parseName(tagSchema, (input as { name?: unknown } | null)?.name, "tag");
+  if (!parsed.ok) {
+    return parsed;
+  }
+  const { name: tag } = current;
+  const { name } = parsed;
+  return updateCollection(
+    (metadata) => metadata.tags?.includes(tag) ?? false,
+    (metadata) => ({ ...metadata, tags: [...new Set(metadata.tags!.map((t) => (t === tag ? name : t)))] }),
+    name,
+    "Tag not found"
+  );
+}
+
+// Removes the tag from every image
+export async function deleteTag(tagParam: string): Promise<CollectionChangeResult> {
+  const parsed = parseName(tagSchema, tagParam, "tag");
+  if (!parsed.ok) {
+    return parsed;
+  }
+  const { name: tag } = parsed;
+  return updateCollection(
+    (metadata) => metadata.tags?.includes(tag) ?? false,
+    (metadata) => ({ ...metadata, tags: metadata.tags!.filter((t) => t !== tag) }),
+    null,
+    "Tag not found"
+  );
+}
+
+// Body: { name }. Renaming onto an existing album merges the two
+export async function renameAlbum(albumParam: string, input: unknown): Promise<CollectionChangeResult> {
+  const current = parseName(albumNameSchema, albumParam, "album");
+  if (!current.ok) {
+    return current;
+  }
+  const parsed = parseName(albumNameSchema, (input as { name?: unknown } | null)?.name, "album");
+  if (!parsed.ok) {
+    return parsed;
+  }
+  const { name: album } = current;
+  const { name } = parsed;
+  return updateCollection(
+    (metadata) => metadata.album === album,
+    (metadata) => ({ ...metadata, album: name }),
+    name,
+    "Album not found"
+  );
+}
+
+// Takes every image out of the album; the images themselves are kept
+export async function deleteAlbum(albumParam: string): Promise<CollectionChangeResult> {
+  const parsed = parseName(albumNameSchema, albumParam, "album");
+  if (!parsed.ok) {
+    return parsed;
+  }
+  const { name: album } = parsed;
+  return updateCollection(
+    (metadata) => metadata.album === album,
+    (metadata) => ({ ...metadata, album: null }),
+    null,
+    "Album not found"
+  );
+}
@@ -0,0 +1,65 @@
+import { getAllImagesAsObjects, type Image } from "~/utils/storage";
+
+// Deeper chains are cut off; edits of edits rarely go this far
+const MAX_LINEAGE_DEPTH = 20;
+
+export interface LineageNode {
+  imageId: string;
+  image: Image | null; // null when the image is no longer in the index
+  parents?: LineageNode[]; // Ancestor tree: the images this one was generated from
+  children?: LineageNode[]; // Descendant tree: images generated from this one
+}
+
+/**
+ * The ancestors and descendants of an image, following the parent image IDs recorded in generated
+ * images' lineage. The returned node is the image itself, with parents and children filled in recursively.
+ * An image reached twice on the same path (which would be a cycle) is listed without going further.
+ * Returns null when there is no such image.
+ */
+export async function getImageLineageTree(imageId: string): Promise<LineageNode | null> {
+  const images = await getAllImagesAsObjects();
+  const imagesById = new Map(images.map((image) => [image.id, image]));
+  const root = imagesById.get(imageId);
+  if (!root) {
+    return null;
+  }
+
+  const childIdsByParentId = new Map<string, string[]>();
+  images.forEach((image) => {
+    image.lineage?.parentImageIds.forEach((parentId) => {
+      const childIds = childIdsByParentId.get(parentId) ?? [];
+      childIds.push(image.id);
+      childIdsByParentId.set(parentId, childIds);
+    });
+  });
+
+  const buildAncestors = (id: string, path: Set<string>): LineageNode[] =>
+    (imagesById.get(id)?.lineage?.parentImageIds ?? []).map((parentId) => ({
+      imageId: parentId,
+      image: imagesById.get(parentId) ?? null,
+      parents:
+        path.has(parentId) || path.size >= MAX_LINEAGE_DEPTH
+          ? []
+          : buildAncestors(parentId, new Set(path).add(parentId)),
+    }));
+
+  const buildDescendants = (id: string, path: Set<string>): LineageNode[] =>
+    (childIdsByParentId.get(id) ?? [])
+      .map((childId) => ({
+        imageId: childId,
+        image: imagesById.get(childId) ?? null,
+        children:
+          path.has(childId) || path.size >= MAX_LINEAGE_DEPTH
+            ? []
+            : buildDescendants(childId, new Set(path).add(childId)),
+      }))
+      .sort((a, b) => (a.image?.createdAt ?? "").localeCompare(b.image?.createdAt ?? ""));
+
+  const rootPath = new Set([imageId]);
+  return {
+    imageId,
+    image: root,
+    parents: buildAncestors(imageId, rootPath),
+    children: buildDescendants(imageId, rootPath),
+  };
+}
@@ -0,0 +1,134 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { getAllImagesAsObjects, type Image } from "~/utils/storage";
+import { listImagesPage, parseImageListQuery, type ImageListPage } from "./image-listing";
+
+vi.mock("~/utils/storage", () => ({
+  getAllImagesAsObjects: vi.fn(),
+}));
+
+let images: Image[] = [];
+
+function createImage(id: string, minute: number, overrides: Partial<Image> = {}): Image {
+  return {
+    id,
+    filename: `${id}.png`,
+    url: `/api/images/${id}.png`,
+    type: "uploaded",
+    createdAt: new Date(Date.UTC(2025, 0, 1, 12, minute)).toISOString(),
+    ...overrides,
+  };
+}
+
+function query(params: Record<string, string>) {
+  const parsed = parseImageListQuery(new URLSearchParams(params));
+  if (!parsed.ok) {
+    throw new Error(parsed.error);
+  }
+  return parsed.query;
+}
+
+async function listPage(params: Record<string, string>): Promise<ImageListPage> {
+  const result = await listImagesPage(query(params));
+  if (!result.ok) {
+    throw new Error(result.error);
+  }
+  return result;
+}
+
+// Follow nextCursor to the end, running `between` after each page
+async function listAllPages(params: Record<string, string>, between: (pageIndex: number) => void = () => {}) {
+  const pages: string[][] = [];
+  let cursor: string | null = null;
+  do {
+    const page = await listPage(cursor ? { ...params, cursor } : params);
+    pages.push(page.images.map((image) => image.id));
+    between(pages.length - 1);
+    cursor = page.nextCursor;
+  } while (cursor);
+  return pages;
+}
+
+beforeEach(() => {
+  // Five images a minute apart; b and c share a creation time, so only their ids order them
+  images = [
+    createImage("a", 1),
+    createImage("b", 2),
+    createImage("c", 2),
+    createImage("d", 3, { favoritedAt: "2025-02-01T00:00:00.000Z" }),
+    createImage("e", 4),
+  ];
+  vi.mocked(getAllImagesAsObjects).mockImplementation(async () => images);
+});
+
+describe("listImagesPage", () => {
+  it("pages through every image once, newest first", async () => {
+    expect(await listAllPages({ limit: "2" })).toEqual([["e", "d"], ["c", "b"], ["a"]]);
+  });
+
+  it("reports the total across pages and no cursor on the last page", async () => {
+    const page = await listPage({ limit: "5" });
+
+    expect(page.total).toBe(5);
+    expect(page.nextCursor).toBeNull();
+  });
+
+  it("neither repeats nor skips images when one is added between pages", async () => {
+    const pages = await listAllPages({ limit: "2" }, (pageIndex) => {
+      if (pageIndex === 0) {
+        images = [...images, createImage("f", 5)];
+      }
+    });
+
+    // The new image sorts before the first page, so it shows up on the next load, not in this one
+    expect(pages).toEqual([["e", "d"], ["c", "b"], ["a"]]);
+  });
+
+  it("neither repeats nor skips images when one is trashed between pages", async () => {
+    const trash = (id: string) => {
+      images = images.map((image) => (image.id === id ? { ...image, deletedAt: "2025-03-01T00:00:00.000Z" } : image));
+    };
+    const pages = await listAllPages({ limit: "2" }, (pageIndex) => {
+      if (pageIndex === 0) {
+        trash("d"); // Already shown
+        trash("b"); // Not shown yet
+      }
+    });
+
+    expect(pages).toEqual([
+      ["e", "d"],
+      ["c", "a"],
+    ]);
+  });
+
+  it("keeps the cursor position for sorts other than creation", async () => {
+    expect(await listAllPages({ limit: "2", sort: "favorited" })).toEqual([["d", "e"], ["c", "b"], ["a"]]);
+  });
+
+  it("pages through the trash, most recently deleted first", async () => {
+    images = images.map((image, index) =>
+      index % 2 === 0 ? { ...image, deletedAt: new Date(Date.UTC(2025, 5, 1, index)).toISOString() } : image
+    );
+
+    expect(await listAllPages({ limit: "2", deleted: "true", sort: "deleted" })).toEqual([["e", "c"], ["a"]]);
+    expect((await listPage({ limit: "2", deleted: "true" })).retentionDays).toBeDefined();
+    expect((await listPage({ limit: "2" })).retentionDays).toBeUndefined();
+  });
+
+  it.each([
+    ["not base64url JSON", "not a cursor!"],
+    ["JSON without a key", Buffer.from(JSON.stringify({ sort: "created" })).toString("base64url")],
+    ["a key that isn't an array", Buffer.from(JSON.stringify({ sort: "created", key: "e" })).toString("base64url")],
+  ])("rejects a malformed cursor (%s)", async (_label, cursor) => {
+    expect(await listImagesPage(query({ cursor }))).toEqual({ ok: false, status: 400, error: "Invalid cursor" });
+  });
+
+  it("rejects a cursor from another sort", async () => {
+    const { nextCursor } = await listPage({ limit: "2", sort: "favorited" });
+
+    expect(await listImagesPage(query({ limit: "2", cursor: nextCursor! }))).toEqual({
+      ok: false,
+      status: 400,
+      error: "Invalid cursor",
+    });
+  });
+});
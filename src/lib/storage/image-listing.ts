@@ -0,0 +1,160 @@
+import { z } from "zod";
+import { tagSchema } from "~/lib/storage/image-batch";
+import { getTrashRetentionDays } from "~/lib/storage/trash";
+import { getAllImagesAsObjects, type Image } from "~/utils/storage";
+
+export const DEFAULT_IMAGE_PAGE_SIZE = 48;
+export const MAX_IMAGE_PAGE_SIZE = 200;
+
+export const IMAGE_SORTS = ["created", "favorited", "judgeScore", "deleted"] as const;
+export type ImageSort = (typeof IMAGE_SORTS)[number];
+
+const dateSchema = z.string().refine((value) => !Number.isNaN(Date.parse(value)), "Invalid date");
+
+// Query string of /api/list-images; every filter is optional and they combine with AND
+const imageListQuerySchema = z.object({
+  cursor: z.string().optional(), // nextCursor of the previous page
+  deleted: z.stringbool().default(false), // true lists the trash instead of the gallery
+  limit: z.coerce.number().int().min(1).max(MAX_IMAGE_PAGE_SIZE).default(DEFAULT_IMAGE_PAGE_SIZE),
+  sort: z.enum(IMAGE_SORTS).default("created"),
+  type: z.enum(["uploaded", "generated"]).optional(),
+  favorite: z.stringbool().optional(),
+  tag: tagSchema.optional(), // Exact tag
+  tagSearch: z.string().trim().toLowerCase().optional(), // Part of any tag
+  album: z.string().optional(),
+  from: dateSchema.optional(), // Created at or after
+  to: dateSchema.optional(), // Created before; a plain date includes that whole day
+  ids: z
+    .string()
+    .transform((value) => value.split(",").filter(Boolean))
+    .optional(),
+});
+
+export type ImageListQuery = z.infer<typeof imageListQuerySchema>;
+
+export interface ImageListPage {
+  images: Image[];
+  nextCursor: string | null; // null on the last page
+  total: number; // Images matching the filters, across all pages
+  retentionDays?: number | null; // Trash retention period (see getTrashRetentionDays), only when listing the trash
+}
+
+// Failures carry the HTTP status the route responds with
+export type ParseImageListQueryResult =
+  | { ok: true; query: ImageListQuery }
+  | { ok: false; status: number; error: string };
+export type ListImagesPageResult = ({ ok: true } & ImageListPage) | { ok: false; status: number; error: string };
+
+export function parseImageListQuery(searchParams: URLSearchParams): ParseImageListQueryResult {
+  const parsed = imageListQuerySchema.safeParse(Object.fromEntries(searchParams));
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    const location = issue?.path.length ? `${issue.path.join(".")}: ` : "";
+    return { ok: false, status: 400, error: `Invalid query: ${location}${issue?.message ?? "unknown error"}` };
+  }
+  return { ok: true, query: parsed.data };
+}
+
+type SortKey = Array<number | string>;
+
+function getTime(value: string | null | undefined): number {
+  return value ? new Date(value).getTime() : 0;
+}
+
+/**
+ * Position of an image in the listing; images are listed by key, largest first. Every key ends with
+ * the image id, so no two images tie and a page boundary never splits or repeats images.
+ * Favorited: favorites first (newest favorite first), then the rest by creation.
+ * Judge score: judged images first (best first), then unjudged ones by creation.
+ * Deleted: most recently deleted first, for the trash.
+ */
+function getSortKey(image: Image, sort: ImageSort): SortKey {
+  const created = getTime(image.createdAt);
+  switch (sort) {
+    case "created":
+      return [created, image.id];
+    case "favorited":
+      return image.favoritedAt ? [1, getTime(image.favoritedAt), image.id] : [0, created, image.id];
+    case "judgeScore": {
+      const score = image.lineage?.judgeScore;
+      return score != null ? [1, score, created, image.id] : [0, 0, created, image.id];
+    }
+    case "deleted":
+      return [getTime(image.deletedAt), created, image.id];
+  }
+}
+
+// Positive when a comes before b in the listing
+function compareSortKeys(a: SortKey, b: SortKey): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] !== b[i]) {
+      return a[i] > b[i] ? 1 : -1;
+    }
+  }
+  return 0;
+}
+
+// Cursors are the sort key of the last image on the page, opaque to clients
+function encodeCursor(sort: ImageSort, key: SortKey): string {
+  return Buffer.from(JSON.stringify({ sort, key })).toString("base64url");
+}
+
+function decodeCursor(cursor: string, sort: ImageSort): SortKey | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf-8"));
+    return decoded.sort === sort && Array.isArray(decoded.key) ? decoded.key : null;
+  } catch {
+    return null;
+  }
+}
+
+function matchesQuery(image: Image, query: ImageListQuery, createdBefore: number | null): boolean {
+  const created = getTime(image.createdAt);
+  return (
+    !!image.deletedAt === query.deleted &&
+    (query.type === undefined || image.type === query.type) &&
+    (query.favorite === undefined || !!image.favoritedAt === query.favorite) &&
+    (query.tag === undefined || !!image.tags?.includes(query.tag)) &&
+    (!query.tagSearch || !!image.tags?.some((tag) => tag.includes(query.tagSearch!))) &&
+    (query.album === undefined || image.album === query.album) &&
+    (query.from === undefined || created >= Date.parse(query.from)) &&
+    (createdBefore === null || created < createdBefore) &&
+    (query.ids === undefined || query.ids.includes(image.id))
+  );
+}
+
+// One page of the gallery, or of the trash with `deleted`, filtered and sorted per the query
+export async function listImagesPage(query: ImageListQuery): Promise<ListImagesPageResult> {
+  let afterKey: SortKey | null = null;
+  if (query.cursor) {
+    afterKey = decodeCursor(query.cursor, query.sort);
+    if (!afterKey) {
+      return { ok: false, status: 400, error: "Invalid cursor" };
+    }
+  }
+
+  // A plain date as the end of the range includes that day
+  const createdBefore =
+    query.to === undefined
+      ? null
+      : /^\d{4}-\d{2}-\d{2}$/.test(query.to)
+        ? Date.parse(query.to) + 24 * 60 * 60 * 1000
+        : Date.parse(query.to);
+
+  const matching = (await getAllImagesAsObjects())
+    .filter((image) => matchesQuery(image, query, createdBefore))
+    .map((image) => ({ image, key: getSortKey(image, query.sort) }))
+    .sort((a, b) => compareSortKeys(b.key, a.key));
+
+  const remaining = afterKey ? matching.filter(({ key }) => compareSortKeys(afterKey, key) > 0) : matching;
+  const pageItems = remaining.slice(0, query.limit);
+  const last = pageItems[pageItems.length - 1];
+
+  return {
+    ok: true,
+    images: pageItems.map(({ image }) => image),
+    nextCursor: remaining.length > query.limit && last ? encodeCursor(query.sort, last.key) : null,
+    total: matching.length,
+    retentionDays: query.deleted ? getTrashRetentionDays() : undefined,
+  };
+}
@@ -0,0 +1,225 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { ImageMetadata } from "~/utils/storage";
+
+type Store = typeof import("./image-metadata-store");
+
+let dataDir: string;
+let imagesDir: string;
+let storeDir: string;
+
+// A fresh copy of the module, with its own in-memory state: another process sharing the same files
+async function openStore(): Promise<Store> {
+  vi.resetModules();
+  return import("./image-metadata-store");
+}
+
+function createMetadata(filename: string): ImageMetadata {
+  return { filename, type: "uploaded", createdAt: "2025-01-01T00:00:00.000Z" };
+}
+
+async function writeStoreFiles(snapshot: object | null, journalLines: string[]) {
+  await fs.mkdir(storeDir, { recursive: true });
+  if (snapshot) {
+    await fs.writeFile(path.join(storeDir, "snapshot.json"), JSON.stringify(snapshot));
+  }
+  await fs.writeFile(path.join(storeDir, "journal.jsonl"), journalLines.join("\n"));
+}
+
+async function readJournalSeqs(): Promise<number[]> {
+  const journal = await fs.readFile(path.join(storeDir, "journal.jsonl"), "utf-8");
+  return journal
+    .split("\n")
+    .filter(Boolean)
+    .map((line) => JSON.parse(line).seq);
+}
+
+beforeEach(async () => {
+  dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "image-metadata-store-"));
+  imagesDir = path.join(dataDir, "data", "images");
+  storeDir = path.join(imagesDir, "metadata");
+  vi.spyOn(process, "cwd").mockReturnValue(dataDir);
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  vi.spyOn(console, "log").mockImplementation(() => {});
+});
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  await fs.rm(dataDir, { recursive: true, force: true });
+});
+
+describe("journal replay", () => {
+  it("applies the journal on top of the snapshot", async () => {
+    await writeStoreFiles({ seq: 1, images: { a: createMetadata("a.png"), b: createMetadata("b.png") } }, [
+      JSON.stringify({ seq: 2, operations: [{ type: "put", id: "c", metadata: createMetadata("c.png") }] }),
+      JSON.stringify({ seq: 3, operations: [{ type: "delete", id: "a" }] }),
+      "",
+    ]);
+    const store = await openStore();
+
+    expect(Object.keys(await store.readImageMetadata()).sort()).toEqual(["b", "c"]);
+  });
+
+  it("skips entries already folded into the snapshot", async () => {
+    await writeStoreFiles({ seq: 2, images: { a: createMetadata("a.png") } }, [
+      JSON.stringify({ seq: 2, operations: [{ type: "delete", id: "a" }] }),
+      "",
+    ]);
+    const store = await openStore();
+
+    expect(Object.keys(await store.readImageMetadata())).toEqual(["a"]);
+  });
+
+  it("ignores a torn last line and starts the next entry on a line of its own", async () => {
+    await writeStoreFiles({ seq: 0, images: {} }, [
+      JSON.stringify({ seq: 1, operations: [{ type: "put", id: "a", metadata: createMetadata("a.png") }] }),
+      '{"seq":2,"operations":[{"type":"put","id":"b","meta',
+    ]);
+    const store = await openStore();
+
+    expect(Object.keys(await store.readImageMetadata())).toEqual(["a"]);
+
+    await store.transactImageMetadata((transaction) => transaction.put("c", createMetadata("c.png")));
+    const restarted = await openStore();
+
+    expect(Object.keys(await restarted.readImageMetadata()).sort()).toEqual(["a", "c"]);
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining("incomplete"));
+  });
+
+  it("keeps every committed change across a restart", async () => {
+    const store = await openStore();
+    await store.transactImageMetadata((transaction) => {
+      transaction.put("a", createMetadata("a.png"));
+      transaction.put("b", createMetadata("b.png"));
+    });
+    await store.transactImageMetadata((transaction) => transaction.delete("a"));
+
+    const restarted = await openStore();
+
+    expect(await restarted.readImageMetadata()).toEqual({ b: createMetadata("b.png") });
+    expect(await readJournalSeqs()).toEqual([1, 2]);
+  });
+});
+
+describe("lock", () => {
+  it("waits for another process to release the lock", async () => {
+    const store = await openStore();
+    await fs.mkdir(storeDir, { recursive: true });
+    await fs.writeFile(path.join(storeDir, "store.lock"), "12345");
+
+    let committed = false;
+    const transaction = store
+      .transactImageMetadata((transaction) => transaction.put("a", createMetadata("a.png")))
+      .then(() => (committed = true));
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    expect(committed).toBe(false);
+
+    await fs.rm(path.join(storeDir, "store.lock"));
+    await transaction;
+
+    expect(await store.readImageMetadata()).toEqual({ a: createMetadata("a.png") });
+    await expect(fs.stat(path.join(storeDir, "store.lock"))).rejects.toThrow();
+  });
+
+  it("takes over a lock left behind by a process that died", async () => {
+    const store = await openStore();
+    await fs.mkdir(storeDir, { recursive: true });
+    const lockFile = path.join(storeDir, "store.lock");
+    await fs.writeFile(lockFile, "12345");
+    const longAgo = new Date(Date.now() - 60_000);
+    await fs.utimes(lockFile, longAgo, longAgo);
+
+    await store.transactImageMetadata((transaction) => transaction.put("a", createMetadata("a.png")));
+
+    expect(await store.readImageMetadata()).toEqual({ a: createMetadata("a.png") });
+  });
+
+  it("releases the lock when the change throws", async () => {
+    const store = await openStore();
+
+    await expect(
+      store.transactImageMetadata(() => {
+        throw new Error("Bad change");
+      })
+    ).rejects.toThrow("Bad change");
+
+    await expect(fs.stat(path.join(storeDir, "store.lock"))).rejects.toThrow();
+    await store.transactImageMetadata((transaction) => transaction.put("a", createMetadata("a.png")));
+    expect(Object.keys(await store.readImageMetadata())).toEqual(["a"]);
+  });
+});
+
+describe("disk version check", () => {
+  it("sees another process's writes", async () => {
+    const first = await openStore();
+    const second = await openStore();
+    await first.transactImageMetadata((transaction) => transaction.put("a", createMetadata("a.png")));
+
+    expect(Object.keys(await second.readImageMetadata())).toEqual(["a"]);
+
+    await second.transactImageMetadata((transaction) => transaction.put("b", createMetadata("b.png")));
+
+    expect(Object.keys(await first.readImageMetadata()).sort()).toEqual(["a", "b"]);
+  });
+
+  it("builds on another process's writes instead of its own stale state", async () => {
+    const first = await openStore();
+    const second = await openStore();
+    await first.transactImageMetadata((transaction) => transaction.put("a", createMetadata("a.png")));
+    await second.transactImageMetadata((transaction) => transaction.put("b", createMetadata("b.png")));
+
+    // first last read the store before b was written
+    const seen = await first.transactImageMetadata((transaction) => transaction.get("b"));
+    await first.transactImageMetadata((transaction) => transaction.put("c", createMetadata("c.png")));
+
+    expect(seen).toEqual(createMetadata("b.png"));
+    expect(await readJournalSeqs()).toEqual([1, 2, 3]);
+  });
+
+  it("only rereads the files after they change", async () => {
+    const store = await openStore();
+    const other = await openStore();
+    await store.transactImageMetadata((transaction) => transaction.put("a", createMetadata("a.png")));
+    const readFile = vi.spyOn(fs, "readFile");
+
+    await store.readImageMetadata();
+
+    expect(readFile).not.toHaveBeenCalled();
+
+    await other.transactImageMetadata((transaction) => transaction.put("b", createMetadata("b.png")));
+    readFile.mockClear();
+    await store.readImageMetadata();
+
+    expect(readFile).toHaveBeenCalled();
+  });
+});
+
+describe("legacy index migration", () => {
+  it("imports index.json on first use and keeps it as a backup", async () => {
+    await fs.mkdir(imagesDir, { recursive: true });
+    await fs.writeFile(path.join(imagesDir, "index.json"), JSON.stringify({ a: createMetadata("a.png") }));
+    const store = await openStore();
+
+    expect(await store.readImageMetadata()).toEqual({ a: createMetadata("a.png") });
+    expect(await fs.readdir(imagesDir)).toEqual(expect.arrayContaining(["index.json.migrated"]));
+    expect(await fs.readdir(imagesDir)).not.toContain("index.json");
+  });
+
+  it("moves a corrupt index.json aside and starts empty", async () => {
+    await fs.mkdir(imagesDir, { recursive: true });
+    await fs.writeFile(path.join(imagesDir, "index.json"), '{"a": {"filename": "a.p');
+    const store = await openStore();
+
+    expect(await store.readImageMetadata()).toEqual({});
+
+    const files = await fs.readdir(imagesDir);
+    const corruptFile = files.find((file) => file.startsWith("index.json.corrupt-"));
+    expect(corruptFile).toBeDefined();
+    expect(await fs.readFile(path.join(imagesDir, corruptFile!), "utf-8")).toBe('{"a": {"filename": "a.p');
+    expect(files).not.toContain("index.json");
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining("not valid JSON"), expect.any(SyntaxError));
+  });
+});
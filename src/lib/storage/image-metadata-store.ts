@@ -0,0 +1,322 @@
+import { promises as fs } from "fs";
+import path from "path";
+import type { ImageIndex, ImageMetadata } from "~/utils/storage";
+
+/**
+ * Image metadata store: a snapshot plus a write-ahead journal under data/images/metadata/.
+ * Every change is one transaction, appended to the journal (and synced) before it becomes visible;
+ * the journal is folded into a new snapshot every COMPACT_AFTER_ENTRIES transactions.
+ * Transactions are serialized within the process by a queue and across processes (a second dev server,
+ * scripts) by a lock file; a process notices other processes' writes when the files change on disk.
+ */
+
+const IMAGES_DIR = path.join(process.cwd(), "data", "images");
+const STORE_DIR = path.join(IMAGES_DIR, "metadata");
+const SNAPSHOT_FILE = path.join(STORE_DIR, "snapshot.json");
+const JOURNAL_FILE = path.join(STORE_DIR, "journal.jsonl");
+const LOCK_FILE = path.join(STORE_DIR, "store.lock");
+// Read-modify-write index used before this store; imported on first use, then kept as a backup
+const LEGACY_INDEX_FILE = path.join(IMAGES_DIR, "index.json");
+const MIGRATED_INDEX_FILE = path.join(IMAGES_DIR, "index.json.migrated");
+
+const COMPACT_AFTER_ENTRIES = 500;
+const LOCK_RETRY_MS = 20;
+const LOCK_TIMEOUT_MS = 10_000;
+const STALE_LOCK_MS = 30_000; // A lock older than this was left by a process that died holding it
+
+type ImageMetadataOperation = { type: "put"; id: string; metadata: ImageMetadata } | { type: "delete"; id: string };
+
+interface JournalEntry {
+  seq: number;
+  operations: ImageMetadataOperation[];
+}
+
+interface Snapshot {
+  seq: number; // Last journal entry folded into the snapshot
+  images: ImageIndex;
+}
+
+export interface ImageMetadataTransaction {
+  get(id: string): ImageMetadata | undefined; // Sees the transaction's own changes
+  put(id: string, metadata: ImageMetadata): void;
+  delete(id: string): void;
+}
+
+interface StoreState {
+  images: ImageIndex;
+  seq: number;
+  journalEntries: number; // Entries since the snapshot
+  journalEndsCleanly: boolean; // false when a crash left a partial last line
+  diskVersion: string; // Files the state was read from or last written as
+}
+
+let state: StoreState | null = null;
+let queue: Promise<unknown> = Promise.resolve();
+
+async function statIfExists(filepath: string) {
+  try {
+    return await fs.stat(filepath);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+}
+
+async function readFileIfExists(filepath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(filepath, "utf-8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+}
+
+// Changes whenever any process writes the snapshot or the journal
+async function getDiskVersion(): Promise<string> {
+  const [snapshot, journal] = await Promise.all([statIfExists(SNAPSHOT_FILE), statIfExists(JOURNAL_FILE)]);
+  return `${snapshot?.mtimeMs ?? 0}:${snapshot?.size ?? 0}:${journal?.size ?? 0}`;
+}
+
+async function writeFileAtomic(filepath: string, data: string): Promise<void> {
+  const tempPath = `${filepath}.${process.pid}.tmp`;
+  await fs.writeFile(tempPath, data);
+  await fs.rename(tempPath, filepath);
+}
+
+function applyOperations(images: ImageIndex, operations: ImageMetadataOperation[]) {
+  for (const operation of operations) {
+    if (operation.type === "put") {
+      images[operation.id] = operation.metadata;
+    } else {
+      delete images[operation.id];
+    }
+  }
+}
+
+// Parsed old index.json, or null if there is none. An unreadable one is moved aside so it can be recovered by hand.
+async function readLegacyIndex(): Promise<ImageIndex | null> {
+  const content = await readFileIfExists(LEGACY_INDEX_FILE);
+  if (content === null) {
+    return null;
+  }
+  try {
+    return JSON.parse(content);
+  } catch (error) {
+    const corruptFile = `${LEGACY_INDEX_FILE}.corrupt-${Date.now()}`;
+    await fs.rename(LEGACY_INDEX_FILE, corruptFile);
+    console.warn(
+      `[Storage] index.json is not valid JSON; moved it to ${path.basename(corruptFile)} and started with no images:`,
+      error
+    );
+    return null;
+  }
+}
+
+// First use of the store: start from the old index.json if there is one
+async function migrateLegacyIndex(): Promise<Snapshot> {
+  const legacyIndex = await readLegacyIndex();
+  const snapshot: Snapshot = { seq: 0, images: legacyIndex ?? {} };
+  await writeFileAtomic(SNAPSHOT_FILE, JSON.stringify(snapshot));
+  if (legacyIndex) {
+    await fs.rename(LEGACY_INDEX_FILE, MIGRATED_INDEX_FILE);
+    console.log(
+      `[Storage] Migrated ${Object.keys(snapshot.images).length} images from index.json to the metadata store`
+    );
+  }
+  return snapshot;
+}
+
+// Snapshot plus the journal entries written after it. Only called while holding the lock.
+async function loadFromDisk(): Promise<StoreState> {
+  const diskVersion = await getDiskVersion();
+  const [snapshotContent, journalContent] = await Promise.all([
+    readFileIfExists(SNAPSHOT_FILE),
+    readFileIfExists(JOURNAL_FILE),
+  ]);
+  const snapshot: Snapshot =
+    snapshotContent !== null
+      ? JSON.parse(snapshotContent)
+      : journalContent === null
+        ? await migrateLegacyIndex()
+        : { seq: 0, images: {} };
+
+  const images = { ...snapshot.images };
+  let seq = snapshot.seq;
+  let journalEntries = 0;
+  for (const line of (journalContent ?? "").split("\n")) {
+    if (!line.trim()) {
+      continue;
+    }
+    let entry: JournalEntry;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      // Partial line from a write that never completed; it was never acknowledged
+      console.warn("[Storage] Ignoring incomplete image metadata journal entry");
+      continue;
+    }
+    // Entries up to the snapshot's seq are already in it (compaction stopped before truncating)
+    if (entry.seq > seq) {
+      applyOperations(images, entry.operations);
+      seq = entry.seq;
+      journalEntries++;
+    }
+  }
+
+  return {
+    images,
+    seq,
+    journalEntries,
+    journalEndsCleanly: !journalContent || journalContent.endsWith("\n"),
+    diskVersion: snapshotContent === null ? await getDiskVersion() : diskVersion,
+  };
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function withFileLock<T>(task: () => Promise<T>): Promise<T> {
+  await fs.mkdir(STORE_DIR, { recursive: true });
+  const startTime = Date.now();
+  for (;;) {
+    try {
+      await fs.writeFile(LOCK_FILE, String(process.pid), { flag: "wx" });
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+        throw error;
+      }
+      const lock = await statIfExists(LOCK_FILE);
+      if (lock && Date.now() - lock.mtimeMs > STALE_LOCK_MS) {
+        console.warn("[Storage] Removing stale image metadata lock");
+        await fs.rm(LOCK_FILE, { force: true });
+        continue;
+      }
+      if (Date.now() - startTime > LOCK_TIMEOUT_MS) {
+        throw new Error("Timed out waiting for the image metadata lock");
+      }
+      await sleep(LOCK_RETRY_MS);
+    }
+  }
+
+  try {
+    return await task();
+  } finally {
+    await fs.rm(LOCK_FILE, { force: true });
+  }
+}
+
+// One task at a time in this process, each holding the lock against other processes
+function runExclusive<T>(task: () => Promise<T>): Promise<T> {
+  const result = queue
+    .catch(() => {
+      // A failed earlier task must not block later ones
+    })
+    .then(() => withFileLock(task));
+  queue = result;
+  return result;
+}
+
+// Reload when another process changed the files since we last read or wrote them. Only called while holding the lock.
+async function getFreshState(): Promise<StoreState> {
+  if (!state || state.diskVersion !== (await getDiskVersion())) {
+    state = await loadFromDisk();
+  }
+  return state;
+}
+
+async function compact(current: StoreState): Promise<void> {
+  const snapshot: Snapshot = { seq: current.seq, images: current.images };
+  await writeFileAtomic(SNAPSHOT_FILE, JSON.stringify(snapshot));
+  await fs.writeFile(JOURNAL_FILE, "");
+  current.journalEntries = 0;
+  current.journalEndsCleanly = true;
+}
+
+/**
+ * Run a set of changes atomically: they are all journaled and applied, or (if the journal write fails) none are.
+ * The callback runs while holding the lock, so it must not wait on other store calls.
+ */
+export function transactImageMetadata<T>(change: (transaction: ImageMetadataTransaction) => T): Promise<T> {
+  return runExclusive(async () => {
+    const current = await getFreshState();
+    const operations: ImageMetadataOperation[] = [];
+    const pending = new Map<string, ImageMetadata | null>();
+
+    const result = change({
+      get: (id) => (pending.has(id) ? (pending.get(id) ?? undefined) : current.images[id]),
+      put: (id, metadata) => {
+        operations.push({ type: "put", id, metadata: { ...metadata } });
+        pending.set(id, metadata);
+      },
+      delete: (id) => {
+        operations.push({ type: "delete", id });
+        pending.set(id, null);
+      },
+    });
+    if (operations.length === 0) {
+      return result;
+    }
+
+    const entry: JournalEntry = { seq: current.seq + 1, operations };
+    try {
+      const handle = await fs.open(JOURNAL_FILE, "a");
+      try {
+        await handle.write(`${current.journalEndsCleanly ? "" : "\n"}${JSON.stringify(entry)}\n`);
+        await handle.datasync();
+      } finally {
+        await handle.close();
+      }
+    } catch (error) {
+      // The journal may hold part of the entry; read it back from disk next time
+      state = null;
+      throw error;
+    }
+
+    applyOperations(current.images, operations);
+    current.seq = entry.seq;
+    current.journalEntries++;
+    current.journalEndsCleanly = true;
+    if (current.journalEntries >= COMPACT_AFTER_ENTRIES) {
+      await compact(current);
+    }
+    current.diskVersion = await getDiskVersion();
+    return result;
+  });
+}
+
+// All image metadata by image ID
+export async function readImageMetadata(): Promise<ImageIndex> {
+  // Unchanged on disk: serve from memory without taking the lock
+  if (state && state.diskVersion === (await getDiskVersion())) {
+    return { ...state.images };
+  }
+  return runExclusive(async () => ({ ...(await getFreshState()).images }));
+}
+
+/**
+ * Import an index.json-shaped file (the pre-store format) into the store. Images already in the store
+ * are skipped unless overwrite is set. Used for index files from other data directories or backups;
+ * data/images/index.json itself is imported automatically the first time the store is used.
+ */
+export async function importImageIndex(
+  index: ImageIndex,
+  { overwrite = false }: { overwrite?: boolean } = {}
+): Promise<{ imported: number; skipped: number }> {
+  return transactImageMetadata((transaction) => {
+    let imported = 0;
+    let skipped = 0;
+    for (const [id, metadata] of Object.entries(index)) {
+      if (!overwrite && transaction.get(id)) {
+        skipped++;
+        continue;
+      }
+      transaction.put(id, metadata);
+      imported++;
+    }
+    return { imported, skipped };
+  });
+}
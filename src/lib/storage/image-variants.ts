@@ -0,0 +1,95 @@
+import { promises as fs } from "fs";
+import path from "path";
+import sharp from "sharp";
+
+/**
+ * Smaller WebP copies of stored images for gallery tiles and thumbnail rows (widths in THUMBNAIL_WIDTHS).
+ * Each is made on its first request and cached under data/images/variants/; a cached copy older
+ * than its source image is made again.
+ */
+
+const IMAGES_DIR = path.join(process.cwd(), "data", "images");
+const VARIANTS_DIR = path.join(IMAGES_DIR, "variants");
+const WEBP_QUALITY = 80;
+
+// Variants being made, so concurrent requests for the same one share the work
+const pendingVariants = new Map<string, Promise<Buffer>>();
+
+function getImageId(filename: string): string {
+  return filename.replace(/\.[^/.]+$/, "");
+}
+
+/**
+ * ETag of the full-size image, or of its variant `width` pixels wide. Made from a stat of the source image
+ * alone, so a conditional request is answered without reading the image or making the variant.
+ * Throws ENOENT when there is no such image.
+ */
+export async function getImageETag(filename: string, width?: number): Promise<string> {
+  const name = path.basename(filename);
+  const source = await fs.stat(path.join(IMAGES_DIR, name));
+  const variant = width === undefined ? "" : `-w${width}`;
+  return `"${getImageId(name)}${variant}-${Math.floor(source.mtimeMs).toString(36)}-${source.size.toString(36)}"`;
+}
+
+// The full-size image; throws ENOENT when there is no such image
+export async function getImageFile(filename: string): Promise<Buffer> {
+  return fs.readFile(path.join(IMAGES_DIR, path.basename(filename)));
+}
+
+async function makeVariant(sourcePath: string, variantPath: string, width: number): Promise<Buffer> {
+  const buffer = await sharp(sourcePath)
+    .resize({ width, withoutEnlargement: true })
+    .webp({ quality: WEBP_QUALITY })
+    .toBuffer();
+
+  await fs.mkdir(VARIANTS_DIR, { recursive: true });
+  const tempPath = `${variantPath}.${process.pid}.tmp`;
+  await fs.writeFile(tempPath, buffer);
+  await fs.rename(tempPath, variantPath);
+  return buffer;
+}
+
+// A WebP variant `width` pixels wide (never wider than the source); throws ENOENT when there is no such image
+export async function getImageVariant(filename: string, width: number): Promise<Buffer> {
+  const name = path.basename(filename);
+  const sourcePath = path.join(IMAGES_DIR, name);
+  const variantPath = path.join(VARIANTS_DIR, `${getImageId(name)}-${width}.webp`);
+  const source = await fs.stat(sourcePath);
+
+  try {
+    const cached = await fs.stat(variantPath);
+    if (cached.mtimeMs >= source.mtimeMs) {
+      return await fs.readFile(variantPath);
+    }
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      throw error;
+    }
+  }
+
+  let pending = pendingVariants.get(variantPath);
+  if (!pending) {
+    pending = makeVariant(sourcePath, variantPath, width).finally(() => pendingVariants.delete(variantPath));
+    pendingVariants.set(variantPath, pending);
+  }
+  return pending;
+}
+
+// Remove an image's cached variants (when the image itself is deleted for good)
+export async function deleteImageVariants(filename: string): Promise<void> {
+  const prefix = `${getImageId(path.basename(filename))}-`;
+  let variantFiles: string[];
+  try {
+    variantFiles = await fs.readdir(VARIANTS_DIR);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return;
+    }
+    throw error;
+  }
+  await Promise.all(
+    variantFiles
+      .filter((file) => file.startsWith(prefix))
+      .map((file) => fs.rm(path.join(VARIANTS_DIR, file), { force: true }))
+  );
+}
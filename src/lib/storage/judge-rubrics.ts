@@ -0,0 +1,101 @@
+import { promises as fs } from "fs";
+import path from "path";
+import {
+  DEFAULT_JUDGE_RUBRIC,
+  DEFAULT_JUDGE_RUBRIC_ID,
+  judgeRubricSchema,
+  type JudgeRubric,
+} from "~/lib/ai/judge/rubric";
+
+// One JSON file per rubric, named after its id; the built-in rubric lives in code and can't be replaced
+const RUBRICS_DIR = path.join(process.cwd(), "data", "rubrics");
+
+export type SaveJudgeRubricResult = { ok: true; rubric: JudgeRubric } | { ok: false; status: number; error: string };
+
+function getRubricFile(rubricId: string): string {
+  return path.join(RUBRICS_DIR, `${rubricId}.json`);
+}
+
+async function readRubricFile(filename: string): Promise<JudgeRubric | undefined> {
+  try {
+    const parsed = judgeRubricSchema.safeParse(
+      JSON.parse(await fs.readFile(path.join(RUBRICS_DIR, filename), "utf-8"))
+    );
+    if (!parsed.success) {
+      console.warn(`[Rubrics] Skipping invalid rubric ${filename}:`, parsed.error.issues[0]?.message);
+      return undefined;
+    }
+    return parsed.data;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return undefined;
+    }
+    console.warn(`[Rubrics] Skipping unreadable rubric ${filename}:`, error);
+    return undefined;
+  }
+}
+
+// The built-in rubric first, then the user's rubrics by name
+export async function listJudgeRubrics(): Promise<JudgeRubric[]> {
+  let filenames: string[];
+  try {
+    filenames = (await fs.readdir(RUBRICS_DIR)).filter((filename) => filename.endsWith(".json"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return [DEFAULT_JUDGE_RUBRIC];
+    }
+    throw error;
+  }
+
+  const rubrics = await Promise.all(filenames.map(readRubricFile));
+  return [
+    DEFAULT_JUDGE_RUBRIC,
+    ...rubrics
+      .filter((rubric): rubric is JudgeRubric => rubric !== undefined && rubric.id !== DEFAULT_JUDGE_RUBRIC_ID)
+      .sort((a, b) => a.name.localeCompare(b.name)),
+  ];
+}
+
+export async function getJudgeRubric(rubricId: string): Promise<JudgeRubric | undefined> {
+  if (rubricId === DEFAULT_JUDGE_RUBRIC_ID) {
+    return DEFAULT_JUDGE_RUBRIC;
+  }
+  if (!/^[\w-]+$/.test(rubricId)) {
+    return undefined;
+  }
+  return readRubricFile(`${rubricId}.json`);
+}
+
+// Validate and store a rubric, replacing any rubric with the same id
+export async function saveJudgeRubric(input: unknown): Promise<SaveJudgeRubricResult> {
+  const parsed = judgeRubricSchema.safeParse(input);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    const location = issue?.path.length ? `${issue.path.join(".")}: ` : "";
+    return { ok: false, status: 400, error: `Invalid rubric: ${location}${issue?.message ?? "unknown error"}` };
+  }
+  const rubric = parsed.data;
+  if (rubric.id === DEFAULT_JUDGE_RUBRIC_ID) {
+    return { ok: false, status: 400, error: "The default rubric is built in and can't be replaced" };
+  }
+
+  await fs.mkdir(RUBRICS_DIR, { recursive: true });
+  await fs.writeFile(getRubricFile(rubric.id), JSON.stringify(rubric, null, 2));
+  return { ok: true, rubric };
+}
+
+// Returns false when there was no such rubric; runs keep their snapshot of a deleted rubric
+export async function deleteJudgeRubric(rubricId: string): Promise<boolean> {
+  if (rubricId === DEFAULT_JUDGE_RUBRIC_ID || !/^[\w-]+$/.test(rubricId)) {
+    return false;
+  }
+  try {
+    await fs.unlink(getRubricFile(rubricId));
+    return true;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return false;
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,97 @@
+import type { Image } from "~/utils/storage";
+import type { GenerationRecord } from "./generation-runs";
+import type { PairwiseRanking } from "~/lib/ai/judge/pairwise";
+
+// Generation as sent to event subscribers: the stored record plus its gallery image
+export interface RunEventGeneration extends GenerationRecord {
+  image: Image | null; // null when the LLM call failed before producing an image
+}
+
+// LLM call that has started but not produced any generation yet
+export interface PendingLlmCall {
+  llmCallId: string;
+  imageCount: number; // Images requested from the call
+}
+
+// Status of a run executed by POST /api/runs (kept in memory while it runs, then stored with the run)
+export type RunExecutionStatus = "running" | "completed" | "cancelled" | "failed";
+
+// First message of every event stream connection, so reconnecting clients catch up on missed events
+export interface RunEventsSnapshot {
+  runId: string;
+  generations: RunEventGeneration[]; // Empty when the run doesn't exist yet
+  pendingLlmCalls: PendingLlmCall[];
+  execution: RunExecutionStatus | null; // From storage once the run has finished; null for runs not started with POST /api/runs
+  ranking: PairwiseRanking | null; // Latest pairwise ranking of the run's generations
+}
+
+export type RunEvent =
+  | { type: "generating"; runId: string; llmCallId: string; imageCount: number }
+  | { type: "completed" | "judging" | "judged"; runId: string; generation: RunEventGeneration }
+  // Carries the failed generation, or only the LLM call when the run was never stored
+  | { type: "failed"; runId: string; llmCallId?: string; generation?: RunEventGeneration; error: string }
+  | { type: "ranked"; runId: string; ranking: PairwiseRanking }
+  | { type: "finished"; runId: string; status: Exclude<RunExecutionStatus, "running"> };
+
+export type RunEventListener = (event: RunEvent) => void;
+
+// Listeners and in-flight LLM calls per run (in memory: events are only delivered within this server process)
+const listeners = new Map<string, Set<RunEventListener>>();
+const pendingLlmCalls = new Map<string, Map<string, PendingLlmCall>>();
+
+function trackPendingLlmCall(event: RunEvent) {
+  // A call stops being pending with its first generation or its failure
+  const llmCallId =
+    event.type === "completed"
+      ? event.generation.llmCallId
+      : event.type === "failed"
+        ? (event.llmCallId ?? event.generation?.llmCallId)
+        : event.type === "generating"
+          ? event.llmCallId
+          : undefined;
+  if (!llmCallId) {
+    return;
+  }
+
+  const calls = pendingLlmCalls.get(event.runId) ?? new Map<string, PendingLlmCall>();
+  if (event.type === "generating") {
+    calls.set(llmCallId, { llmCallId, imageCount: event.imageCount });
+  } else {
+    calls.delete(llmCallId);
+  }
+
+  if (calls.size > 0) {
+    pendingLlmCalls.set(event.runId, calls);
+  } else {
+    pendingLlmCalls.delete(event.runId);
+  }
+}
+
+export function emitRunEvent(event: RunEvent): void {
+  trackPendingLlmCall(event);
+  for (const listener of listeners.get(event.runId) ?? []) {
+    try {
+      listener(event);
+    } catch (error) {
+      console.warn(`[RunEvents] Listener failed for run ${event.runId}:`, error);
+    }
+  }
+}
+
+// Subscribe to a run's events; returns the unsubscribe function
+export function subscribeToRunEvents(runId: string, listener: RunEventListener): () => void {
+  const runListeners = listeners.get(runId) ?? new Set<RunEventListener>();
+  runListeners.add(listener);
+  listeners.set(runId, runListeners);
+
+  return () => {
+    runListeners.delete(listener);
+    if (runListeners.size === 0) {
+      listeners.delete(runId);
+    }
+  };
+}
+
+export function getPendingLlmCalls(runId: string): PendingLlmCall[] {
+  return Array.from(pendingLlmCalls.get(runId)?.values() ?? []);
+}
@@ -0,0 +1,55 @@
+import { getAllImagesAsObjects, purgeImages, type Image } from "~/utils/storage";
+
+const AUTO_PURGE_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days a deleted image stays in the trash (TRASH_RETENTION_DAYS in .env); null keeps it until purged by hand
+export function getTrashRetentionDays(): number | null {
+  const days = Number(process.env.TRASH_RETENTION_DAYS);
+  return Number.isFinite(days) && days > 0 ? days : null;
+}
+
+// Deleted images, most recently deleted first
+async function listTrash(): Promise<Image[]> {
+  const images = await getAllImagesAsObjects();
+  return images
+    .filter((image) => image.deletedAt)
+    .sort((a, b) => new Date(b.deletedAt!).getTime() - new Date(a.deletedAt!).getTime());
+}
+
+// Purge images that have been in the trash longer than the retention period; does nothing without one
+export async function purgeExpiredTrash(): Promise<string[]> {
+  const retentionDays = getTrashRetentionDays();
+  if (retentionDays === null) {
+    return [];
+  }
+
+  const cutoff = Date.now() - retentionDays * DAY_MS;
+  const expiredIds = (await listTrash())
+    .filter((image) => new Date(image.deletedAt!).getTime() < cutoff)
+    .map((image) => image.id);
+  if (expiredIds.length === 0) {
+    return [];
+  }
+
+  const purgedIds = await purgeImages(expiredIds);
+  console.log(`[Trash] Purged ${purgedIds.length} image(s) deleted more than ${retentionDays} days ago`);
+  return purgedIds;
+}
+
+let autoPurgeTimer: NodeJS.Timeout | null = null;
+
+function autoPurge() {
+  purgeExpiredTrash().catch((error) => console.warn("[Trash] Auto-purge failed:", error));
+}
+
+// Auto-purge at startup, then every hour while the server runs (started from src/server.ts); the timer doesn't keep
+// the process alive
+export function startTrashAutoPurge() {
+  if (autoPurgeTimer) {
+    return;
+  }
+  autoPurge();
+  autoPurgeTimer = setInterval(autoPurge, AUTO_PURGE_INTERVAL_MS);
+  autoPurgeTimer.unref();
+}
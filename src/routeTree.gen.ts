@@ -10,31 +10,54 @@
 
 import { Route as rootRouteImport } from './routes/__root'
 import { Route as RedesignRouteImport } from './routes/redesign'
+import { Route as JudgeReportRouteImport } from './routes/judge-report'
 import { Route as HistoryRouteImport } from './routes/history'
 import { Route as EditRouteImport } from './routes/edit'
 import { Route as IndexRouteImport } from './routes/index'
+import { Route as LineageImageIdRouteImport } from './routes/lineage.$imageId'
 import { Route as DemoTanstackQueryRouteImport } from './routes/demo/tanstack-query'
 import { Route as ApiUploadRouteImport } from './routes/api/upload'
 import { Route as ApiUpdateImageRouteImport } from './routes/api/update-image'
+import { Route as ApiTagsRouteImport } from './routes/api/tags'
+import { Route as ApiRunsRouteImport } from './routes/api/runs'
+import { Route as ApiPurgeImagesRouteImport } from './routes/api/purge-images'
 import { Route as ApiListImagesRouteImport } from './routes/api/list-images'
+import { Route as ApiJudgeRubricsRouteImport } from './routes/api/judge-rubrics'
+import { Route as ApiJudgeReportRouteImport } from './routes/api/judge-report'
 import { Route as ApiJudgeGenerationRouteImport } from './routes/api/judge-generation'
 import { Route as ApiGenerateImageRouteImport } from './routes/api/generate-image'
+import { Route as ApiAlbumsRouteImport } from './routes/api/albums'
 import { Route as DemoStartServerFuncsRouteImport } from './routes/demo/start.server-funcs'
 import { Route as DemoStartApiRequestRouteImport } from './routes/demo/start.api-request'
 import { Route as DemoApiTqTodosRouteImport } from './routes/demo/api.tq-todos'
 import { Route as DemoApiNamesRouteImport } from './routes/demo/api.names'
+import { Route as ApiTagsTagRouteImport } from './routes/api/tags.$tag'
+import { Route as ApiRunsRunIdRouteImport } from './routes/api/runs.$runId'
+import { Route as ApiJudgeRubricsRubricIdRouteImport } from './routes/api/judge-rubrics.$rubricId'
+import { Route as ApiImagesBatchRouteImport } from './routes/api/images.batch'
 import { Route as ApiImagesFilenameRouteImport } from './routes/api/images.$filename'
 import { Route as ApiImagesModifiedFilenameRouteImport } from './routes/api/images-modified.$filename'
+import { Route as ApiAnnotatedFilenameRouteImport } from './routes/api/annotated.$filename'
+import { Route as ApiAlbumsAlbumRouteImport } from './routes/api/albums.$album'
 import { Route as DemoStartSsrIndexRouteImport } from './routes/demo/start.ssr.index'
 import { Route as DemoStartSsrSpaModeRouteImport } from './routes/demo/start.ssr.spa-mode'
 import { Route as DemoStartSsrFullSsrRouteImport } from './routes/demo/start.ssr.full-ssr'
 import { Route as DemoStartSsrDataOnlyRouteImport } from './routes/demo/start.ssr.data-only'
+import { Route as ApiRunsRunIdRankRouteImport } from './routes/api/runs.$runId.rank'
+import { Route as ApiRunsRunIdEventsRouteImport } from './routes/api/runs.$runId.events'
+import { Route as ApiImagesIdLineageRouteImport } from './routes/api/images.$id.lineage'
+import { Route as ApiRunsRunIdGenerationsGenerationIdRatingRouteImport } from './routes/api/runs.$runId.generations.$generationId.rating'
 
 const RedesignRoute = RedesignRouteImport.update({
   id: '/redesign',
   path: '/redesign',
   getParentRoute: () => rootRouteImport,
 } as any)
+const JudgeReportRoute = JudgeReportRouteImport.update({
+  id: '/judge-report',
+  path: '/judge-report',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const HistoryRoute = HistoryRouteImport.update({
   id: '/history',
   path: '/history',
@@ -50,6 +73,11 @@ const IndexRoute = IndexRouteImport.update({
   path: '/',
   getParentRoute: () => rootRouteImport,
 } as any)
+const LineageImageIdRoute = LineageImageIdRouteImport.update({
+  id: '/lineage/$imageId',
+  path: '/lineage/$imageId',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const DemoTanstackQueryRoute = DemoTanstackQueryRouteImport.update({
   id: '/demo/tanstack-query',
   path: '/demo/tanstack-query',
@@ -65,11 +93,36 @@ const ApiUpdateImageRoute = ApiUpdateImageRouteImport.update({
   path: '/api/update-image',
   getParentRoute: () => rootRouteImport,
 } as any)
+const ApiTagsRoute = ApiTagsRouteImport.update({
+  id: '/api/tags',
+  path: '/api/tags',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ApiRunsRoute = ApiRunsRouteImport.update({
+  id: '/api/runs',
+  path: '/api/runs',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ApiPurgeImagesRoute = ApiPurgeImagesRouteImport.update({
+  id: '/api/purge-images',
+  path: '/api/purge-images',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const ApiListImagesRoute = ApiListImagesRouteImport.update({
   id: '/api/list-images',
   path: '/api/list-images',
   getParentRoute: () => rootRouteImport,
 } as any)
+const ApiJudgeRubricsRoute = ApiJudgeRubricsRouteImport.update({
+  id: '/api/judge-rubrics',
+  path: '/api/judge-rubrics',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ApiJudgeReportRoute = ApiJudgeReportRouteImport.update({
+  id: '/api/judge-report',
+  path: '/api/judge-report',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const ApiJudgeGenerationRoute = ApiJudgeGenerationRouteImport.update({
   id: '/api/judge-generation',
   path: '/api/judge-generation',
@@ -80,6 +133,11 @@ const ApiGenerateImageRoute = ApiGenerateImageRouteImport.update({
   path: '/api/generate-image',
   getParentRoute: () => rootRouteImport,
 } as any)
+const ApiAlbumsRoute = ApiAlbumsRouteImport.update({
+  id: '/api/albums',
+  path: '/api/albums',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const DemoStartServerFuncsRoute = DemoStartServerFuncsRouteImport.update({
   id: '/demo/start/server-funcs',
   path: '/demo/start/server-funcs',
@@ -100,6 +158,26 @@ const DemoApiNamesRoute = DemoApiNamesRouteImport.update({
   path: '/demo/api/names',
   getParentRoute: () => rootRouteImport,
 } as any)
+const ApiTagsTagRoute = ApiTagsTagRouteImport.update({
+  id: '/$tag',
+  path: '/$tag',
+  getParentRoute: () => ApiTagsRoute,
+} as any)
+const ApiRunsRunIdRoute = ApiRunsRunIdRouteImport.update({
+  id: '/$runId',
+  path: '/$runId',
+  getParentRoute: () => ApiRunsRoute,
+} as any)
+const ApiJudgeRubricsRubricIdRoute = ApiJudgeRubricsRubricIdRouteImport.update({
+  id: '/$rubricId',
+  path: '/$rubricId',
+  getParentRoute: () => ApiJudgeRubricsRoute,
+} as any)
+const ApiImagesBatchRoute = ApiImagesBatchRouteImport.update({
+  id: '/api/images/batch',
+  path: '/api/images/batch',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const ApiImagesFilenameRoute = ApiImagesFilenameRouteImport.update({
   id: '/api/images/$filename',
   path: '/api/images/$filename',
@@ -111,6 +189,16 @@ const ApiImagesModifiedFilenameRoute =
     path: '/api/images-modified/$filename',
     getParentRoute: () => rootRouteImport,
   } as any)
+const ApiAnnotatedFilenameRoute = ApiAnnotatedFilenameRouteImport.update({
+  id: '/api/annotated/$filename',
+  path: '/api/annotated/$filename',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ApiAlbumsAlbumRoute = ApiAlbumsAlbumRouteImport.update({
+  id: '/$album',
+  path: '/$album',
+  getParentRoute: () => ApiAlbumsRoute,
+} as any)
 const DemoStartSsrIndexRoute = DemoStartSsrIndexRouteImport.update({
   id: '/demo/start/ssr/',
   path: '/demo/start/ssr/',
@@ -131,73 +219,148 @@ const DemoStartSsrDataOnlyRoute = DemoStartSsrDataOnlyRouteImport.update({
   path: '/demo/start/ssr/data-only',
   getParentRoute: () => rootRouteImport,
 } as any)
+const ApiRunsRunIdRankRoute = ApiRunsRunIdRankRouteImport.update({
+  id: '/rank',
+  path: '/rank',
+  getParentRoute: () => ApiRunsRunIdRoute,
+} as any)
+const ApiRunsRunIdEventsRoute = ApiRunsRunIdEventsRouteImport.update({
+  id: '/events',
+  path: '/events',
+  getParentRoute: () => ApiRunsRunIdRoute,
+} as any)
+const ApiImagesIdLineageRoute = ApiImagesIdLineageRouteImport.update({
+  id: '/api/images/$id/lineage',
+  path: '/api/images/$id/lineage',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ApiRunsRunIdGenerationsGenerationIdRatingRoute =
+  ApiRunsRunIdGenerationsGenerationIdRatingRouteImport.update({
+    id: '/generations/$generationId/rating',
+    path: '/generations/$generationId/rating',
+    getParentRoute: () => ApiRunsRunIdRoute,
+  } as any)
 
 export interface FileRoutesByFullPath {
   '/': typeof IndexRoute
   '/edit': typeof EditRoute
   '/history': typeof HistoryRoute
+  '/judge-report': typeof JudgeReportRoute
   '/redesign': typeof RedesignRoute
+  '/api/albums': typeof ApiAlbumsRouteWithChildren
   '/api/generate-image': typeof ApiGenerateImageRoute
   '/api/judge-generation': typeof ApiJudgeGenerationRoute
+  '/api/judge-report': typeof ApiJudgeReportRoute
+  '/api/judge-rubrics': typeof ApiJudgeRubricsRouteWithChildren
   '/api/list-images': typeof ApiListImagesRoute
+  '/api/purge-images': typeof ApiPurgeImagesRoute
+  '/api/runs': typeof ApiRunsRouteWithChildren
+  '/api/tags': typeof ApiTagsRouteWithChildren
   '/api/update-image': typeof ApiUpdateImageRoute
   '/api/upload': typeof ApiUploadRoute
   '/demo/tanstack-query': typeof DemoTanstackQueryRoute
+  '/lineage/$imageId': typeof LineageImageIdRoute
+  '/api/albums/$album': typeof ApiAlbumsAlbumRoute
+  '/api/annotated/$filename': typeof ApiAnnotatedFilenameRoute
   '/api/images-modified/$filename': typeof ApiImagesModifiedFilenameRoute
   '/api/images/$filename': typeof ApiImagesFilenameRoute
+  '/api/images/batch': typeof ApiImagesBatchRoute
+  '/api/judge-rubrics/$rubricId': typeof ApiJudgeRubricsRubricIdRoute
+  '/api/runs/$runId': typeof ApiRunsRunIdRouteWithChildren
+  '/api/tags/$tag': typeof ApiTagsTagRoute
   '/demo/api/names': typeof DemoApiNamesRoute
   '/demo/api/tq-todos': typeof DemoApiTqTodosRoute
   '/demo/start/api-request': typeof DemoStartApiRequestRoute
   '/demo/start/server-funcs': typeof DemoStartServerFuncsRoute
+  '/api/images/$id/lineage': typeof ApiImagesIdLineageRoute
+  '/api/runs/$runId/events': typeof ApiRunsRunIdEventsRoute
+  '/api/runs/$runId/rank': typeof ApiRunsRunIdRankRoute
   '/demo/start/ssr/data-only': typeof DemoStartSsrDataOnlyRoute
   '/demo/start/ssr/full-ssr': typeof DemoStartSsrFullSsrRoute
   '/demo/start/ssr/spa-mode': typeof DemoStartSsrSpaModeRoute
   '/demo/start/ssr': typeof DemoStartSsrIndexRoute
+  '/api/runs/$runId/generations/$generationId/rating': typeof ApiRunsRunIdGenerationsGenerationIdRatingRoute
 }
 export interface FileRoutesByTo {
   '/': typeof IndexRoute
   '/edit': typeof EditRoute
   '/history': typeof HistoryRoute
+  '/judge-report': typeof JudgeReportRoute
   '/redesign': typeof RedesignRoute
+  '/api/albums': typeof ApiAlbumsRouteWithChildren
   '/api/generate-image': typeof ApiGenerateImageRoute
   '/api/judge-generation': typeof ApiJudgeGenerationRoute
+  '/api/judge-report': typeof ApiJudgeReportRoute
+  '/api/judge-rubrics': typeof ApiJudgeRubricsRouteWithChildren
   '/api/list-images': typeof ApiListImagesRoute
+  '/api/purge-images': typeof ApiPurgeImagesRoute
+  '/api/runs': typeof ApiRunsRouteWithChildren
+  '/api/tags': typeof ApiTagsRouteWithChildren
   '/api/update-image': typeof ApiUpdateImageRoute
   '/api/upload': typeof ApiUploadRoute
   '/demo/tanstack-query': typeof DemoTanstackQueryRoute
+  '/lineage/$imageId': typeof LineageImageIdRoute
+  '/api/albums/$album': typeof ApiAlbumsAlbumRoute
+  '/api/annotated/$filename': typeof ApiAnnotatedFilenameRoute
   '/api/images-modified/$filename': typeof ApiImagesModifiedFilenameRoute
   '/api/images/$filename': typeof ApiImagesFilenameRoute
+  '/api/images/batch': typeof ApiImagesBatchRoute
+  '/api/judge-rubrics/$rubricId': typeof ApiJudgeRubricsRubricIdRoute
+  '/api/runs/$runId': typeof ApiRunsRunIdRouteWithChildren
+  '/api/tags/$tag': typeof ApiTagsTagRoute
   '/demo/api/names': typeof DemoApiNamesRoute
   '/demo/api/tq-todos': typeof DemoApiTqTodosRoute
   '/demo/start/api-request': typeof DemoStartApiRequestRoute
   '/demo/start/server-funcs': typeof DemoStartServerFuncsRoute
+  '/api/images/$id/lineage': typeof ApiImagesIdLineageRoute
+  '/api/runs/$runId/events': typeof ApiRunsRunIdEventsRoute
+  '/api/runs/$runId/rank': typeof ApiRunsRunIdRankRoute
   '/demo/start/ssr/data-only': typeof DemoStartSsrDataOnlyRoute
   '/demo/start/ssr/full-ssr': typeof DemoStartSsrFullSsrRoute
   '/demo/start/ssr/spa-mode': typeof DemoStartSsrSpaModeRoute
   '/demo/start/ssr': typeof DemoStartSsrIndexRoute
+  '/api/runs/$runId/generations/$generationId/rating': typeof ApiRunsRunIdGenerationsGenerationIdRatingRoute
 }
 export interface FileRoutesById {
   __root__: typeof rootRouteImport
   '/': typeof IndexRoute
   '/edit': typeof EditRoute
   '/history': typeof HistoryRoute
+  '/judge-report': typeof JudgeReportRoute
   '/redesign': typeof RedesignRoute
+  '/api/albums': typeof ApiAlbumsRouteWithChildren
   '/api/generate-image': typeof ApiGenerateImageRoute
   '/api/judge-generation': typeof ApiJudgeGenerationRoute
+  '/api/judge-report': typeof ApiJudgeReportRoute
+  '/api/judge-rubrics': typeof ApiJudgeRubricsRouteWithChildren
   '/api/list-images': typeof ApiListImagesRoute
+  '/api/purge-images': typeof ApiPurgeImagesRoute
+  '/api/runs': typeof ApiRunsRouteWithChildren
+  '/api/tags': typeof ApiTagsRouteWithChildren
   '/api/update-image': typeof ApiUpdateImageRoute
   '/api/upload': typeof ApiUploadRoute
   '/demo/tanstack-query': typeof DemoTanstackQueryRoute
+  '/lineage/$imageId': typeof LineageImageIdRoute
+  '/api/albums/$album': typeof ApiAlbumsAlbumRoute
+  '/api/annotated/$filename': typeof ApiAnnotatedFilenameRoute
   '/api/images-modified/$filename': typeof ApiImagesModifiedFilenameRoute
   '/api/images/$filename': typeof ApiImagesFilenameRoute
+  '/api/images/batch': typeof ApiImagesBatchRoute
+  '/api/judge-rubrics/$rubricId': typeof ApiJudgeRubricsRubricIdRoute
+  '/api/runs/$runId': typeof ApiRunsRunIdRouteWithChildren
+  '/api/tags/$tag': typeof ApiTagsTagRoute
   '/demo/api/names': typeof DemoApiNamesRoute
   '/demo/api/tq-todos': typeof DemoApiTqTodosRoute
   '/demo/start/api-request': typeof DemoStartApiRequestRoute
   '/demo/start/server-funcs': typeof DemoStartServerFuncsRoute
+  '/api/images/$id/lineage': typeof ApiImagesIdLineageRoute
+  '/api/runs/$runId/events': typeof ApiRunsRunIdEventsRoute
+  '/api/runs/$runId/rank': typeof ApiRunsRunIdRankRoute
   '/demo/start/ssr/data-only': typeof DemoStartSsrDataOnlyRoute
   '/demo/start/ssr/full-ssr': typeof DemoStartSsrFullSsrRoute
   '/demo/start/ssr/spa-mode': typeof DemoStartSsrSpaModeRoute
   '/demo/start/ssr/': typeof DemoStartSsrIndexRoute
+  '/api/runs/$runId/generations/$generationId/rating': typeof ApiRunsRunIdGenerationsGenerationIdRatingRoute
 }
 export interface FileRouteTypes {
   fileRoutesByFullPath: FileRoutesByFullPath
@@ -205,86 +368,151 @@ export interface FileRouteTypes {
     | '/'
     | '/edit'
     | '/history'
+    | '/judge-report'
     | '/redesign'
+    | '/api/albums'
     | '/api/generate-image'
     | '/api/judge-generation'
+    | '/api/judge-report'
+    | '/api/judge-rubrics'
     | '/api/list-images'
+    | '/api/purge-images'
+    | '/api/runs'
+    | '/api/tags'
     | '/api/update-image'
     | '/api/upload'
     | '/demo/tanstack-query'
+    | '/lineage/$imageId'
+    | '/api/albums/$album'
+    | '/api/annotated/$filename'
     | '/api/images-modified/$filename'
     | '/api/images/$filename'
+    | '/api/images/batch'
+    | '/api/judge-rubrics/$rubricId'
+    | '/api/runs/$runId'
+    | '/api/tags/$tag'
     | '/demo/api/names'
     | '/demo/api/tq-todos'
     | '/demo/start/api-request'
     | '/demo/start/server-funcs'
+    | '/api/images/$id/lineage'
+    | '/api/runs/$runId/events'
+    | '/api/runs/$runId/rank'
     | '/demo/start/ssr/data-only'
     | '/demo/start/ssr/full-ssr'
     | '/demo/start/ssr/spa-mode'
     | '/demo/start/ssr'
+    | '/api/runs/$runId/generations/$generationId/rating'
   fileRoutesByTo: FileRoutesByTo
   to:
     | '/'
     | '/edit'
     | '/history'
+    | '/judge-report'
     | '/redesign'
+    | '/api/albums'
     | '/api/generate-image'
     | '/api/judge-generation'
+    | '/api/judge-report'
+    | '/api/judge-rubrics'
     | '/api/list-images'
+    | '/api/purge-images'
+    | '/api/runs'
+    | '/api/tags'
     | '/api/update-image'
     | '/api/upload'
     | '/demo/tanstack-query'
+    | '/lineage/$imageId'
+    | '/api/albums/$album'
+    | '/api/annotated/$filename'
     | '/api/images-modified/$filename'
     | '/api/images/$filename'
+    | '/api/images/batch'
+    | '/api/judge-rubrics/$rubricId'
+    | '/api/runs/$runId'
+    | '/api/tags/$tag'
     | '/demo/api/names'
     | '/demo/api/tq-todos'
     | '/demo/start/api-request'
     | '/demo/start/server-funcs'
+    | '/api/images/$id/lineage'
+    | '/api/runs/$runId/events'
+    | '/api/runs/$runId/rank'
     | '/demo/start/ssr/data-only'
     | '/demo/start/ssr/full-ssr'
     | '/demo/start/ssr/spa-mode'
     | '/demo/start/ssr'
+    | '/api/runs/$runId/generations/$generationId/rating'
   id:
     | '__root__'
     | '/'
     | '/edit'
     | '/history'
+    | '/judge-report'
     | '/redesign'
+    | '/api/albums'
     | '/api/generate-image'
     | '/api/judge-generation'
+    | '/api/judge-report'
+    | '/api/judge-rubrics'
     | '/api/list-images'
+    | '/api/purge-images'
+    | '/api/runs'
+    | '/api/tags'
     | '/api/update-image'
     | '/api/upload'
     | '/demo/tanstack-query'
+    | '/lineage/$imageId'
+    | '/api/albums/$album'
+    | '/api/annotated/$filename'
     | '/api/images-modified/$filename'
     | '/api/images/$filename'
+    | '/api/images/batch'
+    | '/api/judge-rubrics/$rubricId'
+    | '/api/runs/$runId'
+    | '/api/tags/$tag'
     | '/demo/api/names'
     | '/demo/api/tq-todos'
     | '/demo/start/api-request'
     | '/demo/start/server-funcs'
+    | '/api/images/$id/lineage'
+    | '/api/runs/$runId/events'
+    | '/api/runs/$runId/rank'
     | '/demo/start/ssr/data-only'
     | '/demo/start/ssr/full-ssr'
     | '/demo/start/ssr/spa-mode'
     | '/demo/start/ssr/'
+    | '/api/runs/$runId/generations/$generationId/rating'
   fileRoutesById: FileRoutesById
 }
 export interface RootRouteChildren {
   IndexRoute: typeof IndexRoute
   EditRoute: typeof EditRoute
   HistoryRoute: typeof HistoryRoute
+  JudgeReportRoute: typeof JudgeReportRoute
   RedesignRoute: typeof RedesignRoute
+  ApiAlbumsRoute: typeof ApiAlbumsRouteWithChildren
   ApiGenerateImageRoute: typeof ApiGenerateImageRoute
   ApiJudgeGenerationRoute: typeof ApiJudgeGenerationRoute
+  ApiJudgeReportRoute: typeof ApiJudgeReportRoute
+  ApiJudgeRubricsRoute: typeof ApiJudgeRubricsRouteWithChildren
   ApiListImagesRoute: typeof ApiListImagesRoute
+  ApiPurgeImagesRoute: typeof ApiPurgeImagesRoute
+  ApiRunsRoute: typeof ApiRunsRouteWithChildren
+  ApiTagsRoute: typeof ApiTagsRouteWithChildren
   ApiUpdateImageRoute: typeof ApiUpdateImageRoute
   ApiUploadRoute: typeof ApiUploadRoute
   DemoTanstackQueryRoute: typeof DemoTanstackQueryRoute
+  LineageImageIdRoute: typeof LineageImageIdRoute
+  ApiAnnotatedFilenameRoute: typeof ApiAnnotatedFilenameRoute
   ApiImagesModifiedFilenameRoute: typeof ApiImagesModifiedFilenameRoute
   ApiImagesFilenameRoute: typeof ApiImagesFilenameRoute
+  ApiImagesBatchRoute: typeof ApiImagesBatchRoute
   DemoApiNamesRoute: typeof DemoApiNamesRoute
   DemoApiTqTodosRoute: typeof DemoApiTqTodosRoute
   DemoStartApiRequestRoute: typeof DemoStartApiRequestRoute
   DemoStartServerFuncsRoute: typeof DemoStartServerFuncsRoute
+  ApiImagesIdLineageRoute: typeof ApiImagesIdLineageRoute
   DemoStartSsrDataOnlyRoute: typeof DemoStartSsrDataOnlyRoute
   DemoStartSsrFullSsrRoute: typeof DemoStartSsrFullSsrRoute
   DemoStartSsrSpaModeRoute: typeof DemoStartSsrSpaModeRoute
@@ -300,6 +528,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof RedesignRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/judge-report': {
+      id: '/judge-report'
+      path: '/judge-report'
+      fullPath: '/judge-report'
+      preLoaderRoute: typeof JudgeReportRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/history': {
       id: '/history'
       path: '/history'
@@ -321,6 +556,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof IndexRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/lineage/$imageId': {
+      id: '/lineage/$imageId'
+      path: '/lineage/$imageId'
+      fullPath: '/lineage/$imageId'
+      preLoaderRoute: typeof LineageImageIdRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/demo/tanstack-query': {
       id: '/demo/tanstack-query'
       path: '/demo/tanstack-query'
@@ -342,6 +584,27 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof ApiUpdateImageRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/api/tags': {
+      id: '/api/tags'
+      path: '/api/tags'
+      fullPath: '/api/tags'
+      preLoaderRoute: typeof ApiTagsRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/runs': {
+      id: '/api/runs'
+      path: '/api/runs'
+      fullPath: '/api/runs'
+      preLoaderRoute: typeof ApiRunsRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/purge-images': {
+      id: '/api/purge-images'
+      path: '/api/purge-images'
+      fullPath: '/api/purge-images'
+      preLoaderRoute: typeof ApiPurgeImagesRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/api/list-images': {
       id: '/api/list-images'
       path: '/api/list-images'
@@ -349,6 +612,20 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof ApiListImagesRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/api/judge-rubrics': {
+      id: '/api/judge-rubrics'
+      path: '/api/judge-rubrics'
+      fullPath: '/api/judge-rubrics'
+      preLoaderRoute: typeof ApiJudgeRubricsRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/judge-report': {
+      id: '/api/judge-report'
+      path: '/api/judge-report'
+      fullPath: '/api/judge-report'
+      preLoaderRoute: typeof ApiJudgeReportRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/api/judge-generation': {
       id: '/api/judge-generation'
       path: '/api/judge-generation'
@@ -363,6 +640,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof ApiGenerateImageRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/api/albums': {
+      id: '/api/albums'
+      path: '/api/albums'
+      fullPath: '/api/albums'
+      preLoaderRoute: typeof ApiAlbumsRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/demo/start/server-funcs': {
       id: '/demo/start/server-funcs'
       path: '/demo/start/server-funcs'
@@ -391,6 +675,34 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof DemoApiNamesRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/api/tags/$tag': {
+      id: '/api/tags/$tag'
+      path: '/$tag'
+      fullPath: '/api/tags/$tag'
+      preLoaderRoute: typeof ApiTagsTagRouteImport
+      parentRoute: typeof ApiTagsRoute
+    }
+    '/api/runs/$runId': {
+      id: '/api/runs/$runId'
+      path: '/$runId'
+      fullPath: '/api/runs/$runId'
+      preLoaderRoute: typeof ApiRunsRunIdRouteImport
+      parentRoute: typeof ApiRunsRoute
+    }
+    '/api/judge-rubrics/$rubricId': {
+      id: '/api/judge-rubrics/$rubricId'
+      path: '/$rubricId'
+      fullPath: '/api/judge-rubrics/$rubricId'
+      preLoaderRoute: typeof ApiJudgeRubricsRubricIdRouteImport
+      parentRoute: typeof ApiJudgeRubricsRoute
+    }
+    '/api/images/batch': {
+      id: '/api/images/batch'
+      path: '/api/images/batch'
+      fullPath: '/api/images/batch'
+      preLoaderRoute: typeof ApiImagesBatchRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/api/images/$filename': {
       id: '/api/images/$filename'
       path: '/api/images/$filename'
@@ -405,6 +717,20 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof ApiImagesModifiedFilenameRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/api/annotated/$filename': {
+      id: '/api/annotated/$filename'
+      path: '/api/annotated/$filename'
+      fullPath: '/api/annotated/$filename'
+      preLoaderRoute: typeof ApiAnnotatedFilenameRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/albums/$album': {
+      id: '/api/albums/$album'
+      path: '/$album'
+      fullPath: '/api/albums/$album'
+      preLoaderRoute: typeof ApiAlbumsAlbumRouteImport
+      parentRoute: typeof ApiAlbumsRoute
+    }
     '/demo/start/ssr/': {
       id: '/demo/start/ssr/'
       path: '/demo/start/ssr'
@@ -433,26 +759,128 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof DemoStartSsrDataOnlyRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/api/runs/$runId/rank': {
+      id: '/api/runs/$runId/rank'
+      path: '/rank'
+      fullPath: '/api/runs/$runId/rank'
+      preLoaderRoute: typeof ApiRunsRunIdRankRouteImport
+      parentRoute: typeof ApiRunsRunIdRoute
+    }
+    '/api/runs/$runId/events': {
+      id: '/api/runs/$runId/events'
+      path: '/events'
+      fullPath: '/api/runs/$runId/events'
+      preLoaderRoute: typeof ApiRunsRunIdEventsRouteImport
+      parentRoute: typeof ApiRunsRunIdRoute
+    }
+    '/api/images/$id/lineage': {
+      id: '/api/images/$id/lineage'
+      path: '/api/images/$id/lineage'
+      fullPath: '/api/images/$id/lineage'
+      preLoaderRoute: typeof ApiImagesIdLineageRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/runs/$runId/generations/$generationId/rating': {
+      id: '/api/runs/$runId/generations/$generationId/rating'
+      path: '/generations/$generationId/rating'
+      fullPath: '/api/runs/$runId/generations/$generationId/rating'
+      preLoaderRoute: typeof ApiRunsRunIdGenerationsGenerationIdRatingRouteImport
+      parentRoute: typeof ApiRunsRunIdRoute
+    }
   }
 }
 
+interface ApiAlbumsRouteChildren {
+  ApiAlbumsAlbumRoute: typeof ApiAlbumsAlbumRoute
+}
+
+const ApiAlbumsRouteChildren: ApiAlbumsRouteChildren = {
+  ApiAlbumsAlbumRoute: ApiAlbumsAlbumRoute,
+}
+
+const ApiAlbumsRouteWithChildren = ApiAlbumsRoute._addFileChildren(
+  ApiAlbumsRouteChildren,
+)
+
+interface ApiJudgeRubricsRouteChildren {
+  ApiJudgeRubricsRubricIdRoute: typeof ApiJudgeRubricsRubricIdRoute
+}
+
+const ApiJudgeRubricsRouteChildren: ApiJudgeRubricsRouteChildren = {
+  ApiJudgeRubricsRubricIdRoute: ApiJudgeRubricsRubricIdRoute,
+}
+
+const ApiJudgeRubricsRouteWithChildren = ApiJudgeRubricsRoute._addFileChildren(
+  ApiJudgeRubricsRouteChildren,
+)
+
+interface ApiRunsRunIdRouteChildren {
+  ApiRunsRunIdEventsRoute: typeof ApiRunsRunIdEventsRoute
+  ApiRunsRunIdRankRoute: typeof ApiRunsRunIdRankRoute
+  ApiRunsRunIdGenerationsGenerationIdRatingRoute: typeof ApiRunsRunIdGenerationsGenerationIdRatingRoute
+}
+
+const ApiRunsRunIdRouteChildren: ApiRunsRunIdRouteChildren = {
+  ApiRunsRunIdEventsRoute: ApiRunsRunIdEventsRoute,
+  ApiRunsRunIdRankRoute: ApiRunsRunIdRankRoute,
+  ApiRunsRunIdGenerationsGenerationIdRatingRoute:
+    ApiRunsRunIdGenerationsGenerationIdRatingRoute,
+}
+
+const ApiRunsRunIdRouteWithChildren = ApiRunsRunIdRoute._addFileChildren(
+  ApiRunsRunIdRouteChildren,
+)
+
+interface ApiRunsRouteChildren {
+  ApiRunsRunIdRoute: typeof ApiRunsRunIdRouteWithChildren
+}
+
+const ApiRunsRouteChildren: ApiRunsRouteChildren = {
+  ApiRunsRunIdRoute: ApiRunsRunIdRouteWithChildren,
+}
+
+const ApiRunsRouteWithChildren =
+  ApiRunsRoute._addFileChildren(ApiRunsRouteChildren)
+
+interface ApiTagsRouteChildren {
+  ApiTagsTagRoute: typeof ApiTagsTagRoute
+}
+
+const ApiTagsRouteChildren: ApiTagsRouteChildren = {
+  ApiTagsTagRoute: ApiTagsTagRoute,
+}
+
+const ApiTagsRouteWithChildren =
+  ApiTagsRoute._addFileChildren(ApiTagsRouteChildren)
+
 const rootRouteChildren: RootRouteChildren = {
   IndexRoute: IndexRoute,
   EditRoute: EditRoute,
   HistoryRoute: HistoryRoute,
+  JudgeReportRoute: JudgeReportRoute,
   RedesignRoute: RedesignRoute,
+  ApiAlbumsRoute: ApiAlbumsRouteWithChildren,
   ApiGenerateImageRoute: ApiGenerateImageRoute,
   ApiJudgeGenerationRoute: ApiJudgeGenerationRoute,
+  ApiJudgeReportRoute: ApiJudgeReportRoute,
+  ApiJudgeRubricsRoute: ApiJudgeRubricsRouteWithChildren,
   ApiListImagesRoute: ApiListImagesRoute,
+  ApiPurgeImagesRoute: ApiPurgeImagesRoute,
+  ApiRunsRoute: ApiRunsRouteWithChildren,
+  ApiTagsRoute: ApiTagsRouteWithChildren,
   ApiUpdateImageRoute: ApiUpdateImageRoute,
   ApiUploadRoute: ApiUploadRoute,
   DemoTanstackQueryRoute: DemoTanstackQueryRoute,
+  LineageImageIdRoute: LineageImageIdRoute,
+  ApiAnnotatedFilenameRoute: ApiAnnotatedFilenameRoute,
   ApiImagesModifiedFilenameRoute: ApiImagesModifiedFilenameRoute,
   ApiImagesFilenameRoute: ApiImagesFilenameRoute,
+  ApiImagesBatchRoute: ApiImagesBatchRoute,
   DemoApiNamesRoute: DemoApiNamesRoute,
   DemoApiTqTodosRoute: DemoApiTqTodosRoute,
   DemoStartApiRequestRoute: DemoStartApiRequestRoute,
   DemoStartServerFuncsRoute: DemoStartServerFuncsRoute,
+  ApiImagesIdLineageRoute: ApiImagesIdLineageRoute,
   DemoStartSsrDataOnlyRoute: DemoStartSsrDataOnlyRoute,
   DemoStartSsrFullSsrRoute: DemoStartSsrFullSsrRoute,
   DemoStartSsrSpaModeRoute: DemoStartSsrSpaModeRoute,
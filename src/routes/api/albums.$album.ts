@@ -0,0 +1,47 @@
+import { createFileRoute } from "@tanstack/react-router";
+import { json } from "@tanstack/react-start";
+import { deleteAlbum, renameAlbum } from "~/lib/storage/image-collections";
+
+export const Route = createFileRoute("/api/albums/$album")({
+  server: {
+    handlers: {
+      // Rename the album on every image in it. Body: { name }
+      PATCH: async ({ request, params }) => {
+        try {
+          const body = await request.json().catch(() => null);
+          const result = await renameAlbum(params.album, body);
+          if (!result.ok) {
+            return json({ error: result.error }, { status: result.status });
+          }
+
+          return json({
+            success: true,
+            name: result.name,
+            updatedCount: result.updatedCount,
+          });
+        } catch (error) {
+          console.error("Rename album error:", error);
+          return json({ error: "Failed to rename album" }, { status: 500 });
+        }
+      },
+      // Take every image out of the album; the images are kept
+      DELETE: async ({ params }) => {
+        try {
+          const result = await deleteAlbum(params.album);
+          if (!result.ok) {
+            return json({ error: result.error }, { status: result.status });
+          }
+
+          return json({
+            success: true,
+            name: result.name,
+            updatedCount: result.updatedCount,
+          });
+        } catch (error) {
+          console.error("Delete album error:", error);
+          return json({ error: "Failed to delete album" }, { status: 500 });
+        }
+      },
+    },
+  },
+});
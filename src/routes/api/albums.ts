@@ -0,0 +1,21 @@
+import { createFileRoute } from "@tanstack/react-router";
+import { json } from "@tanstack/react-start";
+import { listAlbums } from "~/lib/storage/image-collections";
+
+// Albums in use, with their image count and newest image. Images are moved into albums with /api/images/batch
+export const Route = createFileRoute("/api/albums")({
+  server: {
+    handlers: {
+      GET: async () => {
+        try {
+          return json({
+            albums: await listAlbums(),
+          });
+        } catch (error) {
+          console.error("List albums error:", error);
+          return json({ error: "Failed to list albums" }, { status: 500 });
+        }
+      },
+    },
+  },
+});
@@ -0,0 +1,23 @@
+import { createFileRoute } from "@tanstack/react-router";
+import { getAnnotatedImage } from "~/utils/storage";
+
+export const Route = createFileRoute("/api/annotated/$filename")({
+  server: {
+    handlers: {
+      GET: async ({ params }) => {
+        try {
+          const imageBuffer = await getAnnotatedImage(params.filename);
+
+          return new Response(new Uint8Array(imageBuffer), {
+            headers: {
+              "Content-Type": "image/png",
+              "Cache-Control": "public, max-age=31536000",
+            },
+          });
+        } catch (error) {
+          return new Response("Image not found", { status: 404 });
+        }
+      },
+    },
+  },
+});
@@ -1,17 +1,7 @@
 import { createFileRoute } from "@tanstack/react-router";
 import { json } from "@tanstack/react-start";
-import { uuidv7 } from "uuidv7";
-import sharp from "sharp";
-import {
-  resizeImageForAI,
-  formatCellsForPrompt,
-  formatCoordinatesForPrompt,
-  type CoordinatePoint,
-} from "~/utils/imageProcessing";
-import { modifyImage } from "~/lib/ai/modify-image";
-import { saveGeneratedImage, saveAnnotatedImage, addImagesToIndex, createImageFromFilename } from "~/utils/storage";
-import { createRun, addGeneration, getRun, type GenerationRun } from "~/lib/storage/generation-runs";
-import { SEND_COORDINATES_AS_TEXT } from "~/utils/constants";
+import { generateImages } from "~/lib/runs/generate-images";
+import { reportLlmCallFailure } from "~/lib/storage/generation-runs";
 
 export const Route = createFileRoute("/api/generate-image")({
   server: {
@@ -19,275 +9,24 @@ export const Route = createFileRoute("/api/generate-image")({
       POST: async ({ request }) => {
         try {
           const body = await request.json();
-          const {
-            imageDataUrls, // Array of images (always an array, even for single image)
-            selectedCellsArrays, // Array of selected cells for each image
-            prompt,
-            originalFilenames, // Array of filenames for each image
-            gridRowsArrays, // Array of grid rows for each image
-            gridColsArrays, // Array of grid cols for each image
-            judgeModelId,
-            selectAllModeArray, // Array of selectAllMode for each image
-            runId, // Optional: if provided, use existing run, otherwise create new
-            coordinatePointsArrays, // Array of coordinate points for each image
-            coordinateLinesArrays, // Array of coordinate lines for each image
-            annotationModeArray, // Array of annotation modes for each image
-          } = body;
-
-          if (!imageDataUrls || !Array.isArray(imageDataUrls) || imageDataUrls.length === 0) {
-            return json({ error: "Missing or invalid imageDataUrls array" }, { status: 400 });
-          }
-
-          // Validate that we have either cells or coordinates
-          const hasCells =
-            selectedCellsArrays &&
-            Array.isArray(selectedCellsArrays) &&
-            selectedCellsArrays.length > 0 &&
-            selectedCellsArrays.some((arr) => arr && arr.length > 0);
-          const hasCoordinatePoints =
-            coordinatePointsArrays &&
-            Array.isArray(coordinatePointsArrays) &&
-            coordinatePointsArrays.length > 0 &&
-            coordinatePointsArrays.some((arr: any[]) => arr && arr.length > 0);
-          const hasCoordinateLines =
-            coordinateLinesArrays &&
-            Array.isArray(coordinateLinesArrays) &&
-            coordinateLinesArrays.length > 0 &&
-            coordinateLinesArrays.some((arr: any[]) => arr && arr.length > 0);
-          const hasCoordinates = hasCoordinatePoints || hasCoordinateLines;
-
-          if (!hasCells && !hasCoordinates) {
-            return json(
-              {
-                error: "Must provide either selectedCellsArrays or coordinatePointsArrays with at least one selection",
-              },
-              { status: 400 }
-            );
-          }
-
-          if (!prompt) {
-            return json({ error: "Missing prompt" }, { status: 400 });
-          }
-
-          if (imageDataUrls.length !== selectedCellsArrays.length) {
-            return json({ error: "Number of images must match number of selected cells arrays" }, { status: 400 });
-          }
-
-          // Validate API keys
-          const googleApiKey = process.env.GOOGLE_GENERATIVE_AI_API_KEY;
-          if (!googleApiKey) {
-            return json(
-              {
-                error: "GOOGLE_GENERATIVE_AI_API_KEY not configured. Please add it to .env file",
-              },
-              { status: 500 }
-            );
-          }
-
-          // Convert data URLs to buffers (images with borders/annotations)
-          const annotatedImageBuffers = imageDataUrls.map((dataUrl: string) => {
-            const base64Data = dataUrl.replace(/^data:image\/\w+;base64,/, "");
-            return Buffer.from(base64Data, "base64");
-          });
-
-          // Get or create run first to have runId for annotated images
-          // Use first image's data for run metadata
-          const firstSelectedCells = (selectedCellsArrays && selectedCellsArrays[0]) || [];
-          const firstGridRows = (gridRowsArrays && gridRowsArrays[0]) || 6;
-          const firstGridCols = (gridColsArrays && gridColsArrays[0]) || 6;
-          const firstSelectAllMode = (selectAllModeArray && selectAllModeArray[0]) || false;
-          const firstOriginalFilename = (originalFilenames && originalFilenames[0]) || "image.png";
-
-          let run: GenerationRun;
-          let actualRunId: string;
-
-          if (runId) {
-            // Check if run exists, if not create it (handles race conditions for parallel requests)
-            const existingRun = getRun(runId);
-            if (existingRun) {
-              run = existingRun;
-              actualRunId = runId;
-            } else {
-              // Run doesn't exist yet, create it (first request to arrive with this runId)
-              actualRunId = createRun(
-                Buffer.alloc(0), // Placeholder, will be updated after resize
-                prompt,
-                Array.from(firstSelectedCells),
-                {
-                  gridRows: firstGridRows,
-                  gridCols: firstGridCols,
-                  judgeModelId,
-                  selectAllMode: firstSelectAllMode,
-                  originalFilename: firstOriginalFilename,
-                },
-                runId
-              );
-              run = getRun(actualRunId)!;
+          const result = await generateImages(body);
+          if (!result.ok) {
+            if (result.startedLlmCall) {
+              const { runId, llmCallId, imageCount } = result.startedLlmCall;
+              await reportLlmCallFailure(runId, llmCallId, imageCount, {
+                kind: result.kind ?? "unknown",
+                message: result.error,
+              }).catch((reportError) => console.warn("Failed to report generation failure:", reportError));
             }
-          } else {
-            // Create new run
-            actualRunId = createRun(
-              Buffer.alloc(0), // Placeholder, will be updated after resize
-              prompt,
-              Array.from(firstSelectedCells),
-              {
-                gridRows: firstGridRows,
-                gridCols: firstGridCols,
-                judgeModelId: judgeModelId,
-                selectAllMode: firstSelectAllMode,
-                originalFilename: firstOriginalFilename,
-              }
-            );
-            run = getRun(actualRunId)!;
+            return json({ error: result.error, kind: result.kind }, { status: result.status });
           }
 
-          // Save all annotated images (with borders) to data/annotated using runId
-          await Promise.all(
-            annotatedImageBuffers.map((buffer, index) =>
-              saveAnnotatedImage(
-                buffer,
-                (originalFilenames && originalFilenames[index]) || `image-${index}.png`,
-                actualRunId,
-                index
-              )
-            )
-          );
-
-          // Resize images before processing
-          const originalImageBuffers = await Promise.all(
-            annotatedImageBuffers.map((buffer) => resizeImageForAI(buffer))
-          );
-
-          // Update run with the actual image buffer (use first image for backward compatibility)
-          run.originalImageBuffer = originalImageBuffers[0];
-
-          // Generate LLM call ID (shared across all images from this invocation)
-          const llmCallId = uuidv7();
-
-          // Build enhanced prompt with coordinate or cell information
-          let enhancedPrompt = prompt;
-          const firstAnnotationMode = (annotationModeArray && annotationModeArray[0]) || "grid";
-          const firstCoordinatePoints = (coordinatePointsArrays && coordinatePointsArrays[0]) || [];
-          const firstCoordinateLines = (coordinateLinesArrays && coordinateLinesArrays[0]) || [];
-          let hasCoordinateMarkers = false;
-
-          const hasAnyCoordinateMarkers = firstCoordinatePoints.length > 0 || firstCoordinateLines.length > 0;
-          if (firstAnnotationMode === "coords" && hasAnyCoordinateMarkers) {
-            // Only set hasCoordinateMarkers if markers are rendered (when SEND_COORDINATES_AS_TEXT is false)
-            hasCoordinateMarkers = !SEND_COORDINATES_AS_TEXT;
-            // Only send coordinates as text if SEND_COORDINATES_AS_TEXT is true
-            if (SEND_COORDINATES_AS_TEXT) {
-              // Get image dimensions from original annotated image (before resize) to match coordinate system
-              const originalMetadata = await sharp(annotatedImageBuffers[0]).metadata();
-              const coordInfo = formatCoordinatesForPrompt(
-                firstCoordinatePoints as CoordinatePoint[],
-                originalMetadata.width || 0,
-                originalMetadata.height || 0
-              );
-              if (coordInfo) {
-                enhancedPrompt = `${prompt}\n\n${coordInfo}`;
-              }
-            }
-          } else if (firstAnnotationMode === "grid" && firstSelectedCells && firstSelectedCells.length > 0) {
-            const cellInfo = formatCellsForPrompt(firstSelectedCells, firstGridRows);
-            if (cellInfo) {
-              enhancedPrompt = `${prompt}\n\n${cellInfo}`;
-            }
-          }
-
-          // Log request details
-          const imageCount = originalImageBuffers.length;
-          console.log(
-            `[Generate] LLM call ${llmCallId} for run ${actualRunId}: ${imageCount} image(s), mode: ${firstAnnotationMode}, prompt: "${enhancedPrompt.substring(0, 50)}..."`
-          );
-
-          // Determine coordinate marker types for nuanced instruction selection (for first image)
-          const firstImageHasCoordinatePoints = firstCoordinatePoints.length > 0;
-          const firstImageHasCoordinateLines = firstCoordinateLines.length > 0;
-
-          // Generate modified images (returns array of IMAGES_PER_LLM_CALL images)
-          // Always pass array to modifyImage (single image is just array with one element)
-          const startTime = Date.now();
-          const modifyResult = await modifyImage(
-            originalImageBuffers,
-            enhancedPrompt,
-            firstSelectAllMode,
-            hasCoordinateMarkers, // Legacy parameter for backward compatibility
-            firstAnnotationMode,
-            firstImageHasCoordinatePoints,
-            firstImageHasCoordinateLines
-          );
-          const durationMs = Date.now() - startTime;
-
-          const imageBuffers = modifyResult.imageBuffers;
-          if (imageBuffers.length === 0) {
-            throw new Error("No images were generated");
-          }
-
-          // Process all images from this LLM call
-          const generations = await Promise.all(
-            imageBuffers.map(async (imageBuffer, imageIndex) => {
-              const generationId = uuidv7();
-
-              // Save the modified image (index will be updated via batch addImagesToIndex)
-              const modifiedFilename = await saveGeneratedImage(imageBuffer, firstOriginalFilename);
-
-              // Extract token usage (split across all images from this call)
-              const usage = modifyResult.usage
-                ? {
-                    // Divide by number of images since usage is shared across all images from one call
-                    inputTokens: Math.round(modifyResult.usage.inputTokens / imageBuffers.length),
-                    outputTokens: Math.round(modifyResult.usage.outputTokens / imageBuffers.length),
-                    totalTokens: Math.round(modifyResult.usage.totalTokens / imageBuffers.length),
-                  }
-                : undefined;
-
-              // Create image object (will be added to index below)
-              const image = createImageFromFilename(modifiedFilename, "generated");
-
-              // Add generation to storage
-              addGeneration(
-                actualRunId,
-                generationId,
-                imageBuffer,
-                image.url,
-                usage,
-                durationMs,
-                "completed",
-                llmCallId,
-                imageIndex
-              );
-
-              return {
-                generationId,
-                image,
-                usage,
-                imageIndex,
-              };
-            })
-          );
-
-          // Batch add all images to index at once (more efficient and prevents race conditions)
-          // addImagesToIndex sets createdAt, so we can use that timestamp directly
-          const now = new Date().toISOString();
-          await addImagesToIndex(
-            generations.map((gen) => ({
-              filename: gen.image.filename,
-              type: "generated" as const,
-            }))
-          );
-
-          // Update image objects with createdAt (same timestamp used in addImagesToIndex)
-          generations.forEach((gen) => {
-            gen.image.createdAt = now;
-          });
-
           return json({
             success: true,
-            runId: actualRunId,
-            llmCallId,
-            generations,
-            durationMs,
+            runId: result.runId,
+            llmCallId: result.llmCallId,
+            generations: result.generations,
+            durationMs: result.durationMs,
           });
         } catch (error) {
           console.error("Image generation error:", error);
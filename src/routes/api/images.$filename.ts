@@ -1,19 +1,32 @@
 import { createFileRoute } from '@tanstack/react-router'
-import { getImage } from '~/utils/storage'
+import { getImageETag, getImageFile, getImageVariant } from '~/lib/storage/image-variants'
+import { getThumbnailWidth } from '~/utils/thumbnails'
 
+// ?w=<pixels> serves the smallest WebP variant at least that wide (see THUMBNAIL_WIDTHS),
+// or the full-size PNG when the request is wider than every variant
 export const Route = createFileRoute('/api/images/$filename')({
   server: {
     handlers: {
-      GET: async ({ params }) => {
+      GET: async ({ request, params }) => {
         try {
-          const imageBuffer = await getImage(params.filename)
+          const requestedWidth = Number(new URL(request.url).searchParams.get('w'))
+          const width = requestedWidth > 0 ? getThumbnailWidth(requestedWidth) : null
+          const etag = await getImageETag(params.filename, width ?? undefined)
 
-          return new Response(imageBuffer, {
-            headers: {
-              'Content-Type': 'image/png',
-              'Cache-Control': 'public, max-age=31536000',
-            },
-          })
+          const headers = {
+            'Content-Type': width === null ? 'image/png' : 'image/webp',
+            'Cache-Control': 'public, max-age=31536000',
+            ETag: etag,
+          }
+          if (request.headers.get('If-None-Match') === etag) {
+            return new Response(null, { status: 304, headers })
+          }
+
+          const buffer =
+            width === null
+              ? await getImageFile(params.filename)
+              : await getImageVariant(params.filename, width)
+          return new Response(new Uint8Array(buffer), { headers })
         } catch (error) {
           return new Response('Image not found', { status: 404 })
         }
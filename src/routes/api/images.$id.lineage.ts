@@ -0,0 +1,26 @@
+import { createFileRoute } from "@tanstack/react-router";
+import { json } from "@tanstack/react-start";
+import { getImageLineageTree } from "~/lib/storage/image-lineage";
+
+// An image with its ancestor tree (parents) and descendant tree (children)
+export const Route = createFileRoute("/api/images/$id/lineage")({
+  server: {
+    handlers: {
+      GET: async ({ params }) => {
+        try {
+          const lineage = await getImageLineageTree(params.id);
+          if (!lineage) {
+            return json({ error: "Image not found" }, { status: 404 });
+          }
+
+          return json({
+            lineage,
+          });
+        } catch (error) {
+          console.error("Image lineage error:", error);
+          return json({ error: "Failed to load image lineage" }, { status: 500 });
+        }
+      },
+    },
+  },
+});
@@ -0,0 +1,46 @@
+import { createFileRoute } from "@tanstack/react-router";
+import { json } from "@tanstack/react-start";
+import { applyImageBatch, parseImageBatchRequest, zipImages } from "~/lib/storage/image-batch";
+
+/**
+ * Apply one action to many images. Body: { imageIds: string[], action, ...action fields }, where action is
+ * favorite | unfavorite | delete | restore | addTags { tags } | removeTags { tags } | moveToAlbum { album | null }
+ * | download. Metadata actions respond with the images and how many of them changed (updatedCount); download
+ * responds with a ZIP of the PNGs.
+ */
+export const Route = createFileRoute("/api/images/batch")({
+  server: {
+    handlers: {
+      POST: async ({ request }) => {
+        try {
+          const body = await request.json().catch(() => null);
+          const parsed = parseImageBatchRequest(body);
+          if (!parsed.ok) {
+            return json({ error: parsed.error }, { status: parsed.status });
+          }
+
+          const batch = parsed.request;
+          if (batch.action === "download") {
+            const zip = await zipImages(batch.imageIds);
+            return new Response(new Uint8Array(zip), {
+              headers: {
+                "Content-Type": "application/zip",
+                "Content-Disposition": `attachment; filename="images-${new Date().toISOString().slice(0, 10)}.zip"`,
+              },
+            });
+          }
+
+          const result = await applyImageBatch(batch);
+
+          return json({
+            success: true,
+            ...result,
+          });
+        } catch (error) {
+          console.error("Image batch error:", error);
+          return json({ error: "Failed to update images" }, { status: 500 });
+        }
+      },
+    },
+  },
+});
@@ -1,11 +1,6 @@
 import { createFileRoute } from "@tanstack/react-router";
 import { json } from "@tanstack/react-start";
-import { promises as fs } from "fs";
-import { join } from "path";
-import { getRun, updateGenerationStatus, addJudgeResult } from "~/lib/storage/generation-runs";
-import { judgeImage } from "~/lib/ai/judge";
-import { getJudgeModelConfig } from "~/lib/ai/judge/models";
-import { resizeImageForJudge } from "~/utils/imageProcessing";
+import { judgeGeneration } from "~/lib/runs/judge-generation";
 
 export const Route = createFileRoute("/api/judge-generation")({
   server: {
@@ -15,109 +10,16 @@ export const Route = createFileRoute("/api/judge-generation")({
           const body = await request.json();
           const { runId, generationId } = body;
 
-          if (!runId || !generationId) {
-            return json({ error: "Missing runId or generationId" }, { status: 400 });
+          const result = await judgeGeneration(runId, generationId);
+          if (!result.ok) {
+            return json({ error: result.error }, { status: result.status });
           }
 
-          // Get the run
-          const run = getRun(runId);
-          if (!run) {
-            return json({ error: "Run not found" }, { status: 404 });
-          }
-
-          // Validate API keys based on selected judge model
-          const judgeModelId = run.settings.judgeModelId;
-          const judgeModelConfig = getJudgeModelConfig(judgeModelId);
-          
-          if (judgeModelConfig?.provider === "openai") {
-            const openaiApiKey = process.env.OPENAI_API_KEY;
-            if (!openaiApiKey) {
-              return json(
-                {
-                  error: "OPENAI_API_KEY not configured. Please add it to .env file to use OpenAI judge models",
-                },
-                { status: 500 }
-              );
-            }
-          } else {
-            // Google models always need Google API key
-            const googleApiKey = process.env.GOOGLE_GENERATIVE_AI_API_KEY;
-            if (!googleApiKey) {
-              return json(
-                {
-                  error: "GOOGLE_GENERATIVE_AI_API_KEY not configured. Please add it to .env file",
-                },
-                { status: 500 }
-              );
-            }
-          }
-
-          // Get the generation
-          const generation = run.generations.get(generationId);
-          if (!generation) {
-            return json({ error: "Generation not found" }, { status: 404 });
-          }
-
-          if (generation.status !== "completed") {
-            return json(
-              { error: `Generation not ready for judging. Status: ${generation.status}` },
-              { status: 400 }
-            );
-          }
-
-          // Update status to judging
-          updateGenerationStatus(runId, generationId, "judging");
-
-          // Create thumbnails for judge evaluation
-          const originalThumbnail = await resizeImageForJudge(run.originalImageBuffer);
-          const modifiedThumbnail = await resizeImageForJudge(generation.imageBuffer);
-
-          // Save thumbnails for debugging
-          try {
-            const thumbnailDir = join(process.cwd(), "data", "judge-thumbnails", runId, generationId);
-            await fs.mkdir(thumbnailDir, { recursive: true });
-            await fs.writeFile(join(thumbnailDir, "original.png"), originalThumbnail);
-            await fs.writeFile(join(thumbnailDir, "modified.png"), modifiedThumbnail);
-            console.log(`[DEBUG] Saved judge thumbnails to ${thumbnailDir}`);
-          } catch (error) {
-            console.warn("[DEBUG] Failed to save judge thumbnails:", error);
-            // Non-blocking - continue even if save fails
-          }
-
-          // Judge the image using thumbnails
-          const startTime = Date.now();
-          const judgeResult = await judgeImage(
-            originalThumbnail,
-            modifiedThumbnail,
-            run.prompt,
-            run.settings.judgeModelId,
-            run.settings.selectAllMode
-          );
-          const durationMs = Date.now() - startTime;
-
-          // Add judge result
-          const finalJudgeResult = {
-            score: judgeResult.score,
-            changesCorrect: judgeResult.changesCorrect,
-            preservation: judgeResult.preservation,
-            blueBorderRemoved: judgeResult.blueBorderRemoved,
-            proposedPrompt: judgeResult.proposedPrompt,
-            usage: {
-              inputTokens: judgeResult.usage.inputTokens,
-              outputTokens: judgeResult.usage.outputTokens,
-              totalTokens: judgeResult.usage.totalTokens,
-            },
-            cost: judgeResult.cost,
-            durationMs,
-          };
-
-          addJudgeResult(runId, generationId, finalJudgeResult);
-
           return json({
             success: true,
-            runId,
-            generationId,
-            judgeResult: finalJudgeResult,
+            runId: result.runId,
+            generationId: result.generationId,
+            judgeResult: result.judgeResult,
           });
         } catch (error) {
           console.error("Judge error:", error);
@@ -132,4 +34,3 @@ export const Route = createFileRoute("/api/judge-generation")({
     },
   },
 });
-
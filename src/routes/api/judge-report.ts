@@ -0,0 +1,23 @@
+import { createFileRoute } from "@tanstack/react-router";
+import { json } from "@tanstack/react-start";
+import { buildHumanJudgeReport } from "~/lib/runs/human-judge-report";
+
+// Human ratings compared with judge scores, per judge model and per edit type
+export const Route = createFileRoute("/api/judge-report")({
+  server: {
+    handlers: {
+      GET: async () => {
+        try {
+          const report = await buildHumanJudgeReport();
+
+          return json({
+            report,
+          });
+        } catch (error) {
+          console.error("Judge report error:", error);
+          return json({ error: "Failed to build judge report" }, { status: 500 });
+        }
+      },
+    },
+  },
+});
@@ -0,0 +1,40 @@
+import { createFileRoute } from "@tanstack/react-router";
+import { json } from "@tanstack/react-start";
+import { deleteJudgeRubric, getJudgeRubric } from "~/lib/storage/judge-rubrics";
+
+export const Route = createFileRoute("/api/judge-rubrics/$rubricId")({
+  server: {
+    handlers: {
+      GET: async ({ params }) => {
+        try {
+          const rubric = await getJudgeRubric(params.rubricId);
+          if (!rubric) {
+            return json({ error: "Rubric not found" }, { status: 404 });
+          }
+
+          return json({
+            rubric,
+          });
+        } catch (error) {
+          console.error("Get judge rubric error:", error);
+          return json({ error: "Failed to load judge rubric" }, { status: 500 });
+        }
+      },
+      // Runs judged with the rubric keep their own copy of it
+      DELETE: async ({ params }) => {
+        try {
+          if (!(await deleteJudgeRubric(params.rubricId))) {
+            return json({ error: "Rubric not found" }, { status: 404 });
+          }
+
+          return json({
+            success: true,
+          });
+        } catch (error) {
+          console.error("Delete judge rubric error:", error);
+          return json({ error: "Failed to delete judge rubric" }, { status: 500 });
+        }
+      },
+    },
+  },
+});
@@ -0,0 +1,40 @@
+import { createFileRoute } from "@tanstack/react-router";
+import { json } from "@tanstack/react-start";
+import { listJudgeRubrics, saveJudgeRubric } from "~/lib/storage/judge-rubrics";
+
+export const Route = createFileRoute("/api/judge-rubrics")({
+  server: {
+    handlers: {
+      GET: async () => {
+        try {
+          const rubrics = await listJudgeRubrics();
+
+          return json({
+            rubrics,
+          });
+        } catch (error) {
+          console.error("List judge rubrics error:", error);
+          return json({ error: "Failed to list judge rubrics" }, { status: 500 });
+        }
+      },
+      // Create or replace a rubric. Body: the rubric JSON (see judgeRubricSchema)
+      POST: async ({ request }) => {
+        try {
+          const body = await request.json();
+          const result = await saveJudgeRubric(body);
+          if (!result.ok) {
+            return json({ error: result.error }, { status: result.status });
+          }
+
+          return json({
+            success: true,
+            rubric: result.rubric,
+          });
+        } catch (error) {
+          console.error("Save judge rubric error:", error);
+          return json({ error: "Failed to save judge rubric" }, { status: 500 });
+        }
+      },
+    },
+  },
+});
@@ -1,26 +1,34 @@
 import { createFileRoute } from "@tanstack/react-router";
 import { json } from "@tanstack/react-start";
-import { getAllImagesAsObjects } from "~/utils/storage";
+import { listImagesPage, parseImageListQuery } from "~/lib/storage/image-listing";
 
 export const Route = createFileRoute("/api/list-images")({
   server: {
     handlers: {
-      GET: async () => {
+      /**
+       * One page of the gallery, newest first by default. Query: cursor (nextCursor of the previous page), limit,
+       * sort (created | favorited | judgeScore | deleted) and the filters type, favorite, tag, tagSearch, album,
+       * from/to (creation date range) and ids (comma-separated). Responds with { images, nextCursor, total }.
+       * deleted=true pages through the trash instead, and adds the trash retentionDays.
+       */
+      GET: async ({ request }) => {
         try {
-          const images = await getAllImagesAsObjects();
+          const { searchParams } = new URL(request.url);
+          const parsed = parseImageListQuery(searchParams);
+          if (!parsed.ok) {
+            return json({ error: parsed.error }, { status: parsed.status });
+          }
 
-          // Filter out deleted images
-          const activeImages = images.filter((img) => !img.deletedAt);
-
-          // Sort by createdAt (newest first)
-          activeImages.sort((a, b) => {
-            const aTime = a.createdAt ? new Date(a.createdAt).getTime() : 0;
-            const bTime = b.createdAt ? new Date(b.createdAt).getTime() : 0;
-            return bTime - aTime;
-          });
+          const result = await listImagesPage(parsed.query);
+          if (!result.ok) {
+            return json({ error: result.error }, { status: result.status });
+          }
 
           return json({
-            images: activeImages,
+            images: result.images,
+            nextCursor: result.nextCursor,
+            total: result.total,
+            retentionDays: result.retentionDays,
           });
         } catch (error) {
           console.error("List images error:", error);
@@ -0,0 +1,36 @@
+import { createFileRoute } from "@tanstack/react-router";
+import { json } from "@tanstack/react-start";
+import { MAX_BATCH_IMAGES } from "~/utils/constants";
+import { purgeImages } from "~/utils/storage";
+
+// Permanently delete images from the trash. Body: { imageIds: string[] } (up to MAX_BATCH_IMAGES);
+// images not in the trash are skipped
+export const Route = createFileRoute("/api/purge-images")({
+  server: {
+    handlers: {
+      POST: async ({ request }) => {
+        try {
+          const body = await request.json().catch(() => null);
+          const imageIds = body?.imageIds;
+
+          if (!Array.isArray(imageIds) || imageIds.length === 0 || imageIds.some((id) => typeof id !== "string")) {
+            return json({ error: "imageIds must be a non-empty array of image IDs" }, { status: 400 });
+          }
+          if (imageIds.length > MAX_BATCH_IMAGES) {
+            return json({ error: `At most ${MAX_BATCH_IMAGES} images can be purged at once` }, { status: 400 });
+          }
+
+          const purgedIds = await purgeImages(imageIds);
+
+          return json({
+            success: true,
+            purgedIds,
+          });
+        } catch (error) {
+          console.error("Purge images error:", error);
+          return json({ error: "Failed to purge images" }, { status: 500 });
+        }
+      },
+    },
+  },
+});
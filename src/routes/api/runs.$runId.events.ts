@@ -0,0 +1,83 @@
+import { createFileRoute } from "@tanstack/react-router";
+import { json } from "@tanstack/react-start";
+import { getRun, toRunEventGenerations, toRunRecord } from "~/lib/storage/generation-runs";
+import { getPendingLlmCalls, subscribeToRunEvents, type RunEventsSnapshot } from "~/lib/storage/run-events";
+import { getRunExecutionStatus } from "~/lib/runs/orchestrator";
+
+// Comment lines keep proxies from closing idle streams
+const HEARTBEAT_INTERVAL_MS = 15 * 1000;
+
+export const Route = createFileRoute("/api/runs/$runId/events")({
+  server: {
+    handlers: {
+      GET: async ({ params, request }) => {
+        const { runId } = params;
+        if (!/^[\w-]+$/.test(runId)) {
+          return json({ error: "Invalid run ID" }, { status: 400 });
+        }
+
+        const encoder = new TextEncoder();
+        let cleanup = () => {};
+
+        const stream = new ReadableStream<Uint8Array>({
+          start: async (controller) => {
+            let closed = false;
+            const send = (event: string, data: unknown) => {
+              if (!closed) {
+                controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+              }
+            };
+
+            // Subscribe before reading the snapshot so no event falls in between
+            const unsubscribe = subscribeToRunEvents(runId, (event) => send(event.type, event));
+            const heartbeat = setInterval(() => {
+              if (!closed) {
+                controller.enqueue(encoder.encode(": heartbeat\n\n"));
+              }
+            }, HEARTBEAT_INTERVAL_MS);
+
+            cleanup = () => {
+              if (closed) return;
+              closed = true;
+              clearInterval(heartbeat);
+              unsubscribe();
+              try {
+                controller.close();
+              } catch {
+                // Already closed by the client
+              }
+            };
+            request.signal.addEventListener("abort", cleanup);
+
+            // The run may not exist yet when the client subscribes before its first generate call;
+            // its events are delivered once it is created
+            try {
+              const run = await getRun(runId);
+              const snapshot: RunEventsSnapshot = {
+                runId,
+                generations: run ? toRunEventGenerations(toRunRecord(run)) : [],
+                pendingLlmCalls: getPendingLlmCalls(runId),
+                execution: getRunExecutionStatus(runId) ?? run?.executionStatus ?? null,
+                ranking: run?.pairwiseRanking ?? null,
+              };
+              send("snapshot", snapshot);
+            } catch (error) {
+              console.error("Run events error:", error);
+              send("failed", { type: "failed", runId, error: "Failed to load run" });
+              cleanup();
+            }
+          },
+          cancel: () => cleanup(),
+        });
+
+        return new Response(stream, {
+          headers: {
+            "Content-Type": "text/event-stream",
+            "Cache-Control": "no-cache",
+            Connection: "keep-alive",
+          },
+        });
+      },
+    },
+  },
+});
@@ -0,0 +1,30 @@
+import { createFileRoute } from "@tanstack/react-router";
+import { json } from "@tanstack/react-start";
+import { rateGeneration } from "~/lib/runs/rate-generation";
+
+// Rate a generation. Body: { thumb: "up" | "down" | null, score: 1-10 | null }; both null clears the rating
+export const Route = createFileRoute("/api/runs/$runId/generations/$generationId/rating")({
+  server: {
+    handlers: {
+      POST: async ({ request, params }) => {
+        try {
+          const body = await request.json().catch(() => null);
+          const result = await rateGeneration(params.runId, params.generationId, body);
+          if (!result.ok) {
+            return json({ error: result.error }, { status: result.status });
+          }
+
+          return json({
+            success: true,
+            runId: result.runId,
+            generationId: result.generationId,
+            humanRating: result.humanRating,
+          });
+        } catch (error) {
+          console.error("Rate generation error:", error);
+          return json({ error: "Failed to save rating" }, { status: 500 });
+        }
+      },
+    },
+  },
+});
@@ -0,0 +1,34 @@
+import { createFileRoute } from "@tanstack/react-router";
+import { json } from "@tanstack/react-start";
+import { rankGenerations } from "~/lib/runs/rank-generations";
+
+// Rank a finished run's generations head-to-head. Body (optional): { judgeModelId }
+export const Route = createFileRoute("/api/runs/$runId/rank")({
+  server: {
+    handlers: {
+      POST: async ({ request, params }) => {
+        try {
+          const body = await request.json().catch(() => ({}));
+          const result = await rankGenerations(params.runId, body?.judgeModelId);
+          if (!result.ok) {
+            return json({ error: result.error }, { status: result.status });
+          }
+
+          return json({
+            success: true,
+            runId: result.runId,
+            ranking: result.ranking,
+          });
+        } catch (error) {
+          console.error("Rank generations error:", error);
+          return json(
+            {
+              error: error instanceof Error ? error.message : "Pairwise ranking failed",
+            },
+            { status: 500 }
+          );
+        }
+      },
+    },
+  },
+});
@@ -0,0 +1,51 @@
+import { createFileRoute } from "@tanstack/react-router";
+import { json } from "@tanstack/react-start";
+import { getRun, toRunRecord, toRunSummaries } from "~/lib/storage/generation-runs";
+import { cancelRun } from "~/lib/runs/orchestrator";
+
+export const Route = createFileRoute("/api/runs/$runId")({
+  server: {
+    handlers: {
+      GET: async ({ params }) => {
+        if (!/^[\w-]+$/.test(params.runId)) {
+          return json({ error: "Invalid run ID" }, { status: 400 });
+        }
+
+        try {
+          const run = await getRun(params.runId);
+          if (!run) {
+            return json({ error: "Run not found" }, { status: 404 });
+          }
+
+          const [summary] = await toRunSummaries([toRunRecord(run)]);
+
+          return json({
+            run: summary,
+          });
+        } catch (error) {
+          console.error("Get run error:", error);
+          return json({ error: "Failed to load run" }, { status: 500 });
+        }
+      },
+      // Cancel a run started with POST /api/runs (generations already stored are kept)
+      DELETE: async ({ params }) => {
+        if (!/^[\w-]+$/.test(params.runId)) {
+          return json({ error: "Invalid run ID" }, { status: 400 });
+        }
+
+        try {
+          if (!cancelRun(params.runId)) {
+            return json({ error: "Run is not running" }, { status: 409 });
+          }
+
+          return json({
+            success: true,
+          });
+        } catch (error) {
+          console.error("Cancel run error:", error);
+          return json({ error: "Failed to cancel run" }, { status: 500 });
+        }
+      },
+    },
+  },
+});
@@ -0,0 +1,44 @@
+import { createFileRoute } from "@tanstack/react-router";
+import { json } from "@tanstack/react-start";
+import { listRuns, toRunSummaries } from "~/lib/storage/generation-runs";
+import { startRun } from "~/lib/runs/orchestrator";
+
+export const Route = createFileRoute("/api/runs")({
+  server: {
+    handlers: {
+      GET: async () => {
+        try {
+          const runs = await toRunSummaries(await listRuns());
+
+          return json({
+            runs,
+          });
+        } catch (error) {
+          console.error("List runs error:", error);
+          return json({ error: "Failed to list runs" }, { status: 500 });
+        }
+      },
+      // Start a run that executes on the server; progress is streamed from /api/runs/$runId/events
+      POST: async ({ request }) => {
+        try {
+          const spec = await request.json().catch(() => null);
+          const result = await startRun(spec);
+          if (!result.ok) {
+            return json({ error: result.error }, { status: result.status });
+          }
+
+          return json(
+            {
+              runId: result.runId,
+              llmCalls: result.llmCalls,
+            },
+            { status: 202 }
+          );
+        } catch (error) {
+          console.error("Start run error:", error);
+          return json({ error: "Failed to start run" }, { status: 500 });
+        }
+      },
+    },
+  },
+});
@@ -0,0 +1,47 @@
+import { createFileRoute } from "@tanstack/react-router";
+import { json } from "@tanstack/react-start";
+import { deleteTag, renameTag } from "~/lib/storage/image-collections";
+
+export const Route = createFileRoute("/api/tags/$tag")({
+  server: {
+    handlers: {
+      // Rename the tag on every image. Body: { name }
+      PATCH: async ({ request, params }) => {
+        try {
+          const body = await request.json().catch(() => null);
+          const result = await renameTag(params.tag, body);
+          if (!result.ok) {
+            return json({ error: result.error }, { status: result.status });
+          }
+
+          return json({
+            success: true,
+            name: result.name,
+            updatedCount: result.updatedCount,
+          });
+        } catch (error) {
+          console.error("Rename tag error:", error);
+          return json({ error: "Failed to rename tag" }, { status: 500 });
+        }
+      },
+      // Remove the tag from every image
+      DELETE: async ({ params }) => {
+        try {
+          const result = await deleteTag(params.tag);
+          if (!result.ok) {
+            return json({ error: result.error }, { status: result.status });
+          }
+
+          return json({
+            success: true,
+            name: result.name,
+            updatedCount: result.updatedCount,
+          });
+        } catch (error) {
+          console.error("Delete tag error:", error);
+          return json({ error: "Failed to delete tag" }, { status: 500 });
+        }
+      },
+    },
+  },
+});
@@ -0,0 +1,21 @@
+import { createFileRoute } from "@tanstack/react-router";
+import { json } from "@tanstack/react-start";
+import { listTags } from "~/lib/storage/image-collections";
+
+// Tags in use, with the number of images (outside the trash) that have each. Tags are added with /api/images/batch
+export const Route = createFileRoute("/api/tags")({
+  server: {
+    handlers: {
+      GET: async () => {
+        try {
+          return json({
+            tags: await listTags(),
+          });
+        } catch (error) {
+          console.error("List tags error:", error);
+          return json({ error: "Failed to list tags" }, { status: 500 });
+        }
+      },
+    },
+  },
+});
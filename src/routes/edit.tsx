@@ -2,13 +2,26 @@ import { createFileRoute, useNavigate, useSearch } from "@tanstack/react-router"
 import { useState, useRef, useEffect } from "react";
 import { Minus, Plus, X, Grid3x3, ArrowLeft, Edit, RotateCcw, Download, Star } from "lucide-react";
 import { ImageCanvas, ImageCanvasRef, CoordinateMarker } from "../components/ImageCanvas";
-import { ThumbnailRow, type ThumbnailRowRef } from "../components/ThumbnailRow";
+import { ThumbnailRow, type HumanRatingInput, type ThumbnailRowRef } from "../components/ThumbnailRow";
 import { TokenUsageDisplay } from "../components/TokenUsageDisplay";
+import { GenerationSettingsPanel } from "../components/GenerationSettingsPanel";
+import { useGenerationSettings } from "../hooks/useGenerationSettings";
+import { useRunEvents } from "../hooks/useRunEvents";
 import { Button } from "../components/ui/button";
 import { ToggleGroup, ToggleGroupItem } from "../components/ui/toggle-group";
-import { DEFAULT_JUDGE_MODEL_ID } from "../lib/ai/judge/models";
 import { z } from "zod";
 import type { Image } from "../utils/storage";
+import type { GenerationFailure, HumanRating, RunSummary } from "../lib/storage/generation-runs";
+import type { JudgeEnsemble } from "../lib/ai/judge/ensemble";
+import type { PairwiseRanking } from "../lib/ai/judge/pairwise";
+import type { PixelDiffMetrics } from "../utils/pixelMetrics";
+import type {
+  PendingLlmCall,
+  RunEvent,
+  RunEventGeneration,
+  RunEventsSnapshot,
+  RunExecutionStatus,
+} from "../lib/storage/run-events";
 import {
   DEFAULT_GRID_ROWS,
   DEFAULT_GRID_COLS,
@@ -17,18 +30,18 @@ import {
   generateAllCells,
   calculateGridDimensions,
 } from "../utils/grid";
-import { uuidv7 } from "uuidv7";
+import { calculateCost } from "../utils/cost";
 import {
-  DEFAULT_IMAGES_PER_RUN,
-  DEFAULT_LLM_CALLS_PER_RUN,
   IMAGES_PER_LLM_CALL,
   calculateLLMCallsNeeded,
-  USE_JUDGES,
   MAX_SELECTED_IMAGES,
+  DEFAULT_ANNOTATION_TRANSPORT,
+  type AnnotationTransport,
 } from "../utils/constants";
 
 const editSearchSchema = z.object({
   images: z.array(z.string()).optional(),
+  runId: z.string().optional(), // Restore annotations, prompt and generations from a past or running run
 });
 
 export const Route = createFileRoute("/edit")({
@@ -38,13 +51,22 @@ export const Route = createFileRoute("/edit")({
 
 interface GenerationAttempt {
   generationId: string;
-  status: "pending" | "generating" | "completed" | "judging" | "judged";
+  runId?: string; // Missing on placeholders until their generation arrives
+  status: "pending" | "generating" | "completed" | "judging" | "judged" | "failed";
   image: Image | null;
+  failure?: GenerationFailure | null; // Why a failed attempt failed
   judgeScore: number | null;
   judgeChangesCorrect: number | null;
   judgePreservation: number | null;
   judgeBlueBorderRemoved: boolean | null;
   judgeProposedPrompt: string | null;
+  judgeCriteria?: Record<string, number> | null; // Scores of the rubric's own criteria, by criterion id
+  judgeRationales?: Record<string, string> | null; // Why each criterion got its score
+  judgeDefects?: string[] | null; // Problems the judge found
+  judgeEnsemble?: JudgeEnsemble | null; // Per-judge scores when the run used several judges
+  pairwiseRank?: number | null; // Rank from the run's pairwise ranking (1 is best)
+  pixelMetrics?: PixelDiffMetrics | null; // Deterministic change against the original
+  humanRating?: HumanRating | null; // The user's own thumbs and score
   usage: {
     inputTokens: number;
     outputTokens: number;
@@ -58,6 +80,129 @@ interface GenerationAttempt {
   } | null;
   imageGenerationDurationMs?: number;
   judgeDurationMs?: number;
+  refinementRound?: number; // Auto-refine round that produced this attempt
+}
+
+// Outcome of one generation once judging has settled (score is null when it wasn't judged)
+interface AttemptOutcome {
+  generationId: string;
+  score: number | null;
+  pairwiseRank: number | null; // Breaks ties between equal scores when the run was ranked
+  proposedPrompt: string | null;
+  costUsd: number; // Generation plus judge cost
+}
+
+// What generateAttempts reports back about a finished run
+interface RoundResult {
+  runId: string;
+  outcomes: AttemptOutcome[];
+  rankingCostUsd: number; // Pairwise ranking cost, on top of the outcomes' costs
+}
+
+type RunFinishedStatus = Exclude<RunExecutionStatus, "running">;
+
+// Run and generation whose proposed prompt an auto-refine round builds on
+interface RefinementParent {
+  parentRunId: string;
+  parentGenerationId: string;
+  round: number;
+}
+
+// Placeholder ID for an image an LLM call hasn't returned yet, matched to the generation once it completes
+function getPendingAttemptId(llmCallId: string, imageIndex: number): string {
+  return `pending-${llmCallId}-${imageIndex}`;
+}
+
+function toGenerationAttempt(
+  runId: string,
+  generation: RunEventGeneration,
+  previous?: GenerationAttempt
+): GenerationAttempt {
+  const { judgeResult } = generation;
+  return {
+    generationId: generation.generationId,
+    runId,
+    status: generation.status,
+    image: generation.image,
+    failure: generation.failure ?? null,
+    judgeScore: judgeResult?.score ?? null,
+    judgeChangesCorrect: judgeResult?.changesCorrect ?? null,
+    judgePreservation: judgeResult?.preservation ?? null,
+    judgeBlueBorderRemoved: judgeResult?.blueBorderRemoved ?? null,
+    judgeProposedPrompt: judgeResult?.proposedPrompt ?? null,
+    judgeCriteria: judgeResult?.criteria ?? null,
+    judgeRationales: judgeResult?.rationales ?? null,
+    judgeDefects: judgeResult?.defects ?? null,
+    judgeEnsemble: judgeResult?.ensemble ?? null,
+    pixelMetrics: generation.pixelMetrics ?? null,
+    humanRating: generation.humanRating ?? null,
+    usage: generation.usage ?? null,
+    judgeUsage: judgeResult?.usage ?? null,
+    imageGenerationDurationMs: generation.imageGenerationDurationMs,
+    judgeDurationMs: generation.judgeDurationMs,
+    refinementRound: previous?.refinementRound,
+    pairwiseRank: previous?.pairwiseRank,
+  };
+}
+
+// Set each ranked attempt's pairwise rank; attempts of other runs keep theirs
+function applyPairwiseRanking(attempts: GenerationAttempt[], ranking: PairwiseRanking): GenerationAttempt[] {
+  const ranks = new Map(ranking.standings.map((standing) => [standing.generationId, standing.rank]));
+  return attempts.map((a) => (ranks.has(a.generationId) ? { ...a, pairwiseRank: ranks.get(a.generationId) } : a));
+}
+
+// Merge a generation into the attempts: update it in place, fill its placeholder, or append it
+function upsertGeneration(
+  attempts: GenerationAttempt[],
+  runId: string,
+  generation: RunEventGeneration
+): GenerationAttempt[] {
+  const pendingId =
+    generation.llmCallId !== undefined && generation.imageIndex !== undefined
+      ? getPendingAttemptId(generation.llmCallId, generation.imageIndex)
+      : null;
+  const existingIndex = attempts.findIndex((a) => a.generationId === generation.generationId);
+  const index = existingIndex !== -1 ? existingIndex : attempts.findIndex((a) => a.generationId === pendingId);
+  if (index === -1) {
+    return [...attempts, toGenerationAttempt(runId, generation)];
+  }
+  const updated = [...attempts];
+  updated[index] = toGenerationAttempt(runId, generation, attempts[index]);
+  return updated;
+}
+
+// Mark an LLM call's placeholders as generating, adding them when the call was started elsewhere (another tab)
+function startLlmCall(
+  attempts: GenerationAttempt[],
+  llmCallId: string,
+  imageCount: number,
+  refinementRound?: number
+): GenerationAttempt[] {
+  const pendingPrefix = getPendingAttemptId(llmCallId, 0).slice(0, -1);
+  if (attempts.some((a) => a.generationId.startsWith(pendingPrefix))) {
+    return attempts.map((a) =>
+      a.generationId.startsWith(pendingPrefix) && a.status === "pending" ? { ...a, status: "generating" } : a
+    );
+  }
+  const placeholders: GenerationAttempt[] = Array.from({ length: imageCount }, (_, i) => ({
+    generationId: getPendingAttemptId(llmCallId, i),
+    status: "generating",
+    image: null,
+    judgeScore: null,
+    judgeChangesCorrect: null,
+    judgePreservation: null,
+    judgeBlueBorderRemoved: null,
+    judgeProposedPrompt: null,
+    usage: null,
+    judgeUsage: null,
+    refinementRound,
+  }));
+  return [...attempts, ...placeholders];
+}
+
+function removeLlmCallPlaceholders(attempts: GenerationAttempt[], llmCallId: string): GenerationAttempt[] {
+  const pendingPrefix = getPendingAttemptId(llmCallId, 0).slice(0, -1);
+  return attempts.filter((a) => !a.generationId.startsWith(pendingPrefix));
 }
 
 function EditView() {
@@ -66,6 +211,8 @@ function EditView() {
   const canvasRefs = useRef<(ImageCanvasRef | null)[]>([]);
   const abortControllerRef = useRef<AbortController | null>(null);
   const thumbnailRowRef = useRef<ThumbnailRowRef>(null);
+  // Images whose grid size was restored from a past run (skip automatic grid sizing for them)
+  const restoredGridRef = useRef<boolean[]>([]);
 
   const [selectedImages, setSelectedImages] = useState<Image[]>([]);
   const [selectedCells, setSelectedCells] = useState<Set<string>[]>([]);
@@ -97,15 +244,27 @@ function EditView() {
   const [imageGenerationDurationMsTotal, setImageGenerationDurationMsTotal] = useState<number | null>(null);
   const [judgeDurationMsTotal, setJudgeDurationMsTotal] = useState<number | null>(null);
   const [totalDurationMs, setTotalDurationMs] = useState<number | null>(null);
-  // Use DEFAULT_JUDGE_MODEL_ID directly instead of state to always use current default
-  const judgeModelId = DEFAULT_JUDGE_MODEL_ID;
-  const [useJudges, setUseJudges] = useState<boolean>(USE_JUDGES);
+  const { settings: generationSettings, updateSettings: updateGenerationSettings } = useGenerationSettings();
+  const { generationModelId, judgeModelId, imagesPerRun, useJudges } = generationSettings;
+  const [autoRefineStatus, setAutoRefineStatus] = useState<string | null>(null);
+  const [annotationTransport, setAnnotationTransport] = useState<AnnotationTransport>(DEFAULT_ANNOTATION_TRANSPORT);
   const [generationAttempts, setGenerationAttempts] = useState<GenerationAttempt[]>([]);
   const [selectedGenerationId, setSelectedGenerationId] = useState<string | null>(null);
   const [currentPrompt, setCurrentPrompt] = useState("");
+  // Runs whose generations are shown in the thumbnail row; their progress streams in over run events
+  const [subscribedRunIds, setSubscribedRunIds] = useState<string[]>([]);
+  // Run started in this page, written to the URL so a reload resubscribes to it without resetting the editor
+  const startedRunIdRef = useRef<string | null>(null);
+  // Server runs started from this page that are still executing, and who is waiting for them to finish
+  const activeRunIdsRef = useRef(new Set<string>());
+  const runFinishedWaitersRef = useRef(new Map<string, (status: RunFinishedStatus) => void>());
 
   // Load images from URL params
   useEffect(() => {
+    if (search.runId && search.runId === startedRunIdRef.current) {
+      return;
+    }
+
     if (!search.images || search.images.length === 0) {
       // No images selected, redirect to gallery
       navigate({ to: "/" });
@@ -126,7 +285,7 @@ function EditView() {
       }
 
       try {
-        const response = await fetch("/api/list-images");
+        const response = await fetch(`/api/list-images?ids=${encodeURIComponent((search.images || []).join(","))}`);
         const data = await response.json();
         const imageIndex = new Map<string, Image>(data.images.map((img: Image) => [img.id, img]));
 
@@ -143,22 +302,50 @@ function EditView() {
           return;
         }
 
+        // When reopening a past run, restore each image's annotations from the run inputs
+        let restoredRun: RunSummary | null = null;
+        if (search.runId) {
+          const runResponse = await fetch(`/api/runs/${search.runId}`);
+          if (runResponse.ok) {
+            restoredRun = (await runResponse.json()).run;
+          } else {
+            console.warn(`Run ${search.runId} could not be loaded; starting with empty annotations`);
+          }
+        }
+        const restoredInputs = loadedImages.map(
+          (image) => restoredRun?.inputs.find((input) => input.filename === image.filename) ?? null
+        );
+        restoredGridRef.current = restoredInputs.map((input) => !!input?.gridRows && !!input?.gridCols);
+
         setSelectedImages(loadedImages);
         // Initialize state arrays
-        setSelectedCells(loadedImages.map(() => new Set<string>()));
+        setSelectedCells(restoredInputs.map((input) => new Set<string>(input?.selectedCells ?? [])));
         setShowGrid(loadedImages.map(() => true));
         setShowMarkers(loadedImages.map(() => true));
-        setGridRows(loadedImages.map(() => DEFAULT_GRID_ROWS));
-        setGridCols(loadedImages.map(() => DEFAULT_GRID_COLS));
-        setSelectAllMode(loadedImages.map(() => false));
-        setAnnotationMode(loadedImages.map(() => "coords" as const));
-        setCoordinateMarkers(loadedImages.map(() => []));
+        setGridRows(restoredInputs.map((input) => input?.gridRows ?? DEFAULT_GRID_ROWS));
+        setGridCols(restoredInputs.map((input) => input?.gridCols ?? DEFAULT_GRID_COLS));
+        setSelectAllMode(restoredInputs.map((input) => input?.selectAllMode ?? false));
+        setAnnotationMode(restoredInputs.map((input) => input?.annotationMode ?? ("coords" as const)));
+        setCoordinateMarkers(
+          restoredInputs.map((input): CoordinateMarker[] =>
+            input
+              ? [
+                  ...input.coordinatePoints.map((point) => ({ type: "point" as const, ...point })),
+                  ...input.coordinateLines.map((line) => ({ type: "line" as const, ...line })),
+                ]
+              : []
+          )
+        );
         setCoordinateToolMode(loadedImages.map(() => "point" as const));
         canvasRefs.current = loadedImages.map(() => null);
-        // Reset all generation-related state
+        // Reset all generation-related state; a restored run's generations arrive with its event snapshot
         setGenerationAttempts([]);
+        setSubscribedRunIds(restoredRun ? [restoredRun.runId] : []);
         setSelectedGenerationId(null);
-        setCurrentPrompt("");
+        setCurrentPrompt(restoredRun?.prompt ?? "");
+        if (restoredRun) {
+          setAnnotationTransport(restoredRun.settings.annotationTransport ?? "burned-in");
+        }
         setTokenUsage(null);
         setImageGenerationUsage(null);
         setJudgeUsage(null);
@@ -174,12 +361,12 @@ function EditView() {
     };
 
     loadImages();
-  }, [search.images, navigate]);
+  }, [search.images, search.runId, navigate]);
 
   // Calculate grid dimensions for each image
   useEffect(() => {
     selectedImages.forEach((image, index) => {
-      if (!image.url) return;
+      if (!image.url || restoredGridRef.current[index]) return;
 
       const img = new Image();
       img.crossOrigin = "anonymous";
@@ -306,6 +493,60 @@ function EditView() {
     setTotalDurationMs(combinedDuration > 0 ? combinedDuration : null);
   };
 
+  const applyRunSnapshot = (snapshot: RunEventsSnapshot) => {
+    // The run may have finished before the stream connected
+    if (snapshot.execution && snapshot.execution !== "running") {
+      runFinishedWaitersRef.current.get(snapshot.runId)?.(snapshot.execution);
+    }
+    setGenerationAttempts((prev) => {
+      let updated = snapshot.pendingLlmCalls.reduce(
+        (attempts, call) => startLlmCall(attempts, call.llmCallId, call.imageCount),
+        prev
+      );
+      updated = snapshot.generations.reduce(
+        (attempts, generation) => upsertGeneration(attempts, snapshot.runId, generation),
+        updated
+      );
+      if (snapshot.ranking) {
+        updated = applyPairwiseRanking(updated, snapshot.ranking);
+      }
+      updateUsageMetrics(updated);
+      return updated;
+    });
+  };
+
+  const applyRunEvent = (event: RunEvent) => {
+    if (event.type === "finished") {
+      runFinishedWaitersRef.current.get(event.runId)?.(event.status);
+      return;
+    }
+    setGenerationAttempts((prev) => {
+      switch (event.type) {
+        case "generating":
+          return startLlmCall(prev, event.llmCallId, event.imageCount);
+        case "completed":
+        case "judging":
+          return upsertGeneration(prev, event.runId, event.generation);
+        case "judged": {
+          const updated = upsertGeneration(prev, event.runId, event.generation);
+          updateUsageMetrics(updated);
+          return updated;
+        }
+        case "failed":
+          console.error(`Run ${event.runId} failed:`, event.error);
+          // Failed generations replace their placeholders and show the reason
+          if (event.generation) {
+            return upsertGeneration(prev, event.runId, event.generation);
+          }
+          return event.llmCallId ? removeLlmCallPlaceholders(prev, event.llmCallId) : prev;
+        case "ranked":
+          return applyPairwiseRanking(prev, event.ranking);
+      }
+    });
+  };
+
+  useRunEvents(subscribedRunIds, { onSnapshot: applyRunSnapshot, onEvent: applyRunEvent });
+
   const generateAttempts = async (
     count: number,
     imageDataUrls: string[],
@@ -315,278 +556,193 @@ function EditView() {
     gridRowsArrays: number[],
     gridColsArrays: number[],
     judgeModelId: string,
+    generationModelId: string,
     selectAllModeArray: boolean[],
-    runId: string,
     appendToExisting: boolean = false,
     useJudges: boolean = false,
     coordinateMarkersArrays: CoordinateMarker[][] = [],
-    annotationModeArray: ("grid" | "coords")[] = []
-  ) => {
+    annotationModeArray: ("grid" | "coords")[] = [],
+    maskDataUrls: Array<string | null> | null = null,
+    refinementParent: RefinementParent | null = null
+  ): Promise<RoundResult> => {
     if (!abortControllerRef.current) {
       abortControllerRef.current = new AbortController();
     }
-
-    const timestamp = Date.now();
-    const tempGenerationIds = Array.from({ length: count }, (_, i) => `pending-${timestamp}-${i}`);
+    const signal = abortControllerRef.current.signal;
 
     if (!appendToExisting) {
-      const initialAttempts: GenerationAttempt[] = tempGenerationIds.map((id) => ({
-        generationId: id,
-        status: "pending",
-        image: null,
-        judgeScore: null,
-        judgeChangesCorrect: null,
-        judgePreservation: null,
-        judgeBlueBorderRemoved: null,
-        judgeProposedPrompt: null,
-        usage: null,
-        judgeUsage: null,
-      }));
-      setGenerationAttempts(initialAttempts);
-    } else {
-      const newAttempts: GenerationAttempt[] = tempGenerationIds.map((id) => ({
-        generationId: id,
-        status: "pending",
-        image: null,
-        judgeScore: null,
-        judgeChangesCorrect: null,
-        judgePreservation: null,
-        judgeBlueBorderRemoved: null,
-        judgeProposedPrompt: null,
-        usage: null,
-        judgeUsage: null,
-      }));
-      setGenerationAttempts((prev) => [...prev, ...newAttempts]);
+      setGenerationAttempts([]);
     }
 
-    try {
-      const llmCallsNeeded = calculateLLMCallsNeeded(count);
-      console.log(
-        `[generateAttempts] count=${count}, IMAGES_PER_LLM_CALL=${IMAGES_PER_LLM_CALL}, llmCallsNeeded=${llmCallsNeeded}`
-      );
-      const allPromises = Array.from({ length: llmCallsNeeded }, (_, callIndex) => {
-        const startSlotIndex = callIndex * IMAGES_PER_LLM_CALL;
-        const slotsForThisCall = tempGenerationIds.slice(startSlotIndex, startSlotIndex + IMAGES_PER_LLM_CALL);
-
-        setGenerationAttempts((prev) => {
-          const updated = [...prev];
-          slotsForThisCall.forEach((tempId) => {
-            const foundIndex = updated.findIndex((a) => a.generationId === tempId);
-            if (foundIndex !== -1) {
-              updated[foundIndex] = {
-                ...updated[foundIndex],
-                status: "generating",
-              };
-            }
-          });
-          return updated;
-        });
+    console.log(
+      `[generateAttempts] count=${count}, IMAGES_PER_LLM_CALL=${IMAGES_PER_LLM_CALL}, llmCallsNeeded=${calculateLLMCallsNeeded(count)}`
+    );
 
-        // Build request body - always use arrays (single image is just array with one element)
-        const requestBody = {
-          imageDataUrls,
-          selectedCellsArrays,
-          prompt,
-          originalFilenames,
-          gridRowsArrays,
-          gridColsArrays,
-          judgeModelId,
-          selectAllModeArray,
-          runId,
-          // Convert markers to old format for API compatibility
-          coordinatePointsArrays: coordinateMarkersArrays.map((markers) =>
-            markers
-              .filter((m): m is Extract<CoordinateMarker, { type: "point" }> => m.type === "point")
-              .map((m) => ({
-                x: m.x,
-                y: m.y,
-                number: m.number,
-              }))
-          ),
-          coordinateLinesArrays: coordinateMarkersArrays.map((markers) =>
-            markers
-              .filter((m): m is Extract<CoordinateMarker, { type: "line" }> => m.type === "line")
-              .map((m) => ({
-                x1: m.x1,
-                y1: m.y1,
-                x2: m.x2,
-                y2: m.y2,
-                number: m.number,
-              }))
-          ),
-          annotationModeArray,
-        };
-
-        return fetch("/api/generate-image", {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify(requestBody),
-          signal: abortControllerRef.current?.signal,
-        })
-          .then(async (response) => {
-            if (!response.ok) {
-              const errorData = await response.json();
-              throw new Error(errorData.error || "Generation failed");
-            }
-            return response.json();
-          })
-          .then(async (genData) => {
-            if (!genData.success || !genData.generations) {
-              throw new Error(genData.error || "Generation failed");
-            }
-
-            const generations = genData.generations as Array<{
-              generationId: string;
-              image: Image;
-              usage?: { inputTokens: number; outputTokens: number; totalTokens: number };
-              imageIndex: number;
-            }>;
-
-            setGenerationAttempts((prev) => {
-              const updated = [...prev];
-              generations.forEach((gen, genIndex) => {
-                const slotIndex = startSlotIndex + genIndex;
-                if (slotIndex < tempGenerationIds.length) {
-                  const tempId = tempGenerationIds[slotIndex];
-                  const foundIndex = updated.findIndex((a) => a.generationId === tempId);
-                  if (foundIndex !== -1) {
-                    updated[foundIndex] = {
-                      generationId: gen.generationId,
-                      status: "completed",
-                      image: gen.image,
-                      judgeScore: null,
-                      judgeChangesCorrect: null,
-                      judgePreservation: null,
-                      judgeBlueBorderRemoved: null,
-                      judgeProposedPrompt: null,
-                      usage: gen.usage || null,
-                      judgeUsage: null,
-                      imageGenerationDurationMs: genData.durationMs,
-                    };
-                  }
-                }
-              });
-              return updated;
-            });
-
-            if (useJudges) {
-              const judgeRunId = genData.runId || runId;
-              generations.forEach((gen) => {
-                setGenerationAttempts((prev) => {
-                  const updated = [...prev];
-                  const attemptIndex = updated.findIndex((a) => a.generationId === gen.generationId);
-                  if (attemptIndex !== -1) {
-                    updated[attemptIndex] = {
-                      ...updated[attemptIndex],
-                      status: "judging",
-                    };
-                  }
-                  return updated;
-                });
-
-                fetch("/api/judge-generation", {
-                  method: "POST",
-                  headers: { "Content-Type": "application/json" },
-                  body: JSON.stringify({ runId: judgeRunId, generationId: gen.generationId }),
-                  signal: abortControllerRef.current?.signal,
-                })
-                  .then(async (judgeResponse) => {
-                    if (judgeResponse.ok) {
-                      const judgeData = await judgeResponse.json();
-                      if (judgeData.success) {
-                        setGenerationAttempts((prev) => {
-                          const updated = [...prev];
-                          const attemptIndex = updated.findIndex((a) => a.generationId === gen.generationId);
-                          if (attemptIndex !== -1) {
-                            updated[attemptIndex] = {
-                              ...updated[attemptIndex],
-                              status: "judged",
-                              judgeScore: judgeData.judgeResult.score,
-                              judgeChangesCorrect: judgeData.judgeResult.changesCorrect,
-                              judgePreservation: judgeData.judgeResult.preservation ?? null,
-                              judgeBlueBorderRemoved: judgeData.judgeResult.blueBorderRemoved ?? null,
-                              judgeProposedPrompt: judgeData.judgeResult.proposedPrompt,
-                              judgeUsage: judgeData.judgeResult.usage,
-                              judgeDurationMs: judgeData.judgeResult.durationMs,
-                            };
-                          }
+    // The server executes the whole run; attempt statuses are driven by its events
+    const runSpec = {
+      count,
+      useJudges,
+      imageDataUrls,
+      selectedCellsArrays,
+      prompt,
+      originalFilenames,
+      gridRowsArrays,
+      gridColsArrays,
+      judgeModelId,
+      // Extra judges turn the run's judging into an ensemble
+      ...(generationSettings.ensembleJudgeModelIds.length > 0
+        ? {
+            judgeModelIds: [judgeModelId, ...generationSettings.ensembleJudgeModelIds],
+            judgeAggregation: generationSettings.judgeAggregation,
+          }
+        : {}),
+      judgeRubricId: generationSettings.judgeRubricId,
+      judgeRegionCrops: generationSettings.judgeRegionCrops,
+      generationModelId,
+      selectAllModeArray,
+      // Convert markers to old format for API compatibility
+      coordinatePointsArrays: coordinateMarkersArrays.map((markers) =>
+        markers
+          .filter((m): m is Extract<CoordinateMarker, { type: "point" }> => m.type === "point")
+          .map((m) => ({
+            x: m.x,
+            y: m.y,
+            number: m.number,
+          }))
+      ),
+      coordinateLinesArrays: coordinateMarkersArrays.map((markers) =>
+        markers
+          .filter((m): m is Extract<CoordinateMarker, { type: "line" }> => m.type === "line")
+          .map((m) => ({
+            x1: m.x1,
+            y1: m.y1,
+            x2: m.x2,
+            y2: m.y2,
+            number: m.number,
+          }))
+      ),
+      annotationModeArray,
+      // Mask transport: imageDataUrls are unannotated and the selection travels as a separate layer
+      annotationTransport: maskDataUrls ? "mask" : "burned-in",
+      maskDataUrls,
+      refinement: refinementParent
+        ? { parentRunId: refinementParent.parentRunId, parentGenerationId: refinementParent.parentGenerationId }
+        : undefined,
+    };
 
-                          updateUsageMetrics(updated);
-                          return updated;
-                        });
-                      }
-                    }
-                  })
-                  .catch((error) => {
-                    if (error.name !== "AbortError") {
-                      console.error("Judge error:", error);
-                      setGenerationAttempts((prev) => {
-                        const updated = [...prev];
-                        const attemptIndex = updated.findIndex((a) => a.generationId === gen.generationId);
-                        if (attemptIndex !== -1) {
-                          updated[attemptIndex] = {
-                            ...updated[attemptIndex],
-                            status: "completed",
-                          };
-                        }
-                        return updated;
-                      });
-                    }
-                  });
-              });
-            } else {
-              setGenerationAttempts((prev) => {
-                const updated = [...prev];
-                generations.forEach((gen) => {
-                  const attemptIndex = updated.findIndex((a) => a.generationId === gen.generationId);
-                  if (attemptIndex !== -1) {
-                    updated[attemptIndex] = {
-                      ...updated[attemptIndex],
-                      status: "completed",
-                    };
-                  }
-                });
-                return updated;
-              });
-            }
+    const response = await fetch("/api/runs", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(runSpec),
+      signal,
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || "Generation failed");
+    }
+    const runId: string = data.runId;
+    const llmCalls: PendingLlmCall[] = data.llmCalls;
+
+    const finished = new Promise<RunFinishedStatus>((resolve) => {
+      runFinishedWaitersRef.current.set(runId, resolve);
+    });
+    activeRunIdsRef.current.add(runId);
 
-            return genData;
-          });
+    setGenerationAttempts((prev) =>
+      llmCalls.reduce(
+        (attempts, call) => startLlmCall(attempts, call.llmCallId, call.imageCount, refinementParent?.round),
+        prev
+      )
+    );
+    if (!appendToExisting) {
+      setSubscribedRunIds([runId]);
+      startedRunIdRef.current = runId;
+      navigate({ to: "/edit", search: (prev) => ({ ...prev, runId }), replace: true });
+    } else {
+      setSubscribedRunIds((prev) => (prev.includes(runId) ? prev : [...prev, runId]));
+    }
+
+    let status: RunFinishedStatus;
+    try {
+      status = await new Promise<RunFinishedStatus>((resolve, reject) => {
+        finished.then(resolve);
+        signal.addEventListener("abort", () => reject(new DOMException("Run cancelled", "AbortError")));
       });
+    } finally {
+      runFinishedWaitersRef.current.delete(runId);
+      activeRunIdsRef.current.delete(runId);
+    }
 
-      await Promise.all(allPromises);
+    // The model may return fewer images than requested
+    setGenerationAttempts((prev) =>
+      llmCalls.reduce((attempts, call) => removeLlmCallPlaceholders(attempts, call.llmCallId), prev)
+    );
+    if (status === "cancelled") {
+      throw new DOMException("Run cancelled", "AbortError");
+    }
+    if (status === "failed") {
+      throw new Error("Generation failed");
+    }
 
-      setGenerationAttempts((prev) => {
-        const allCompleted = prev.filter(
-          (a) => a.status === "completed" || a.status === "judged" || a.status === "judging"
-        );
+    // Rank the run's generations head-to-head so equal judge scores don't leave the best attempt arbitrary
+    let ranking: PairwiseRanking | null = null;
+    if (generationSettings.pairwiseRanking) {
+      const rankResponse = await fetch(`/api/runs/${runId}/rank`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({}),
+        signal,
+      });
+      const rankData = await rankResponse.json();
+      if (rankResponse.ok) {
+        ranking = rankData.ranking;
+      } else {
+        console.warn(`Pairwise ranking of run ${runId} skipped:`, rankData.error);
+      }
+    }
+    const rankedBestId = ranking?.standings[0]?.generationId ?? null;
 
-        if (allCompleted.length > 0) {
-          const judgedAttempts = allCompleted.filter((a) => a.status === "judged");
-          const bestAttempt =
-            judgedAttempts.length > 0
-              ? [...judgedAttempts].sort((a, b) => (b.judgeScore || 0) - (a.judgeScore || 0))[0]
-              : allCompleted.find((a) => a.status === "completed") || allCompleted[0];
+    setGenerationAttempts((prev) => {
+      const allCompleted = prev.filter(
+        (a) => a.status === "completed" || a.status === "judged" || a.status === "judging"
+      );
 
-          if (bestAttempt?.image) {
-            setSelectedGenerationId(bestAttempt.generationId);
-          }
+      if (allCompleted.length > 0) {
+        const judgedAttempts = allCompleted.filter((a) => a.status === "judged");
+        const bestAttempt =
+          allCompleted.find((a) => a.generationId === rankedBestId) ??
+          (judgedAttempts.length > 0
+            ? [...judgedAttempts].sort((a, b) => (b.judgeScore || 0) - (a.judgeScore || 0))[0]
+            : allCompleted.find((a) => a.status === "completed") || allCompleted[0]);
 
-          updateUsageMetrics(prev);
+        if (bestAttempt?.image) {
+          setSelectedGenerationId(bestAttempt.generationId);
         }
-        return prev;
-      });
 
-      return runId;
-    } catch (error: any) {
-      if (error.name === "AbortError") {
-        throw error;
+        updateUsageMetrics(prev);
       }
-      console.error("Generation error:", error);
-      throw error;
+      return prev;
+    });
+
+    // Outcomes come from the stored run, which has every generation and judge result of this run
+    const runResponse = await fetch(`/api/runs/${runId}`, { signal });
+    if (!runResponse.ok) {
+      return { runId, outcomes: [], rankingCostUsd: ranking?.cost ?? 0 };
     }
+    const { run } = (await runResponse.json()) as { run: RunSummary };
+    const ranks = new Map(run.pairwiseRanking?.standings.map((standing) => [standing.generationId, standing.rank]));
+    const outcomes = run.generations.map(
+      ({ generationId, usage, judgeResult }): AttemptOutcome => ({
+        generationId,
+        score: judgeResult?.score ?? null,
+        pairwiseRank: ranks.get(generationId) ?? null,
+        proposedPrompt: judgeResult?.proposedPrompt || null,
+        costUsd: (calculateCost(usage ?? null, generationModelId)?.totalCost ?? 0) + (judgeResult?.cost ?? 0),
+      })
+    );
+    return { runId, outcomes, rankingCostUsd: ranking?.cost ?? 0 };
   };
 
   const handlePromptSubmit = async (prompt: string) => {
@@ -610,13 +766,17 @@ function EditView() {
 
     // Get images with borders drawn
     const imageDataUrls: string[] = [];
+    const maskDataUrls: Array<string | null> = [];
     for (let i = 0; i < selectedImages.length; i++) {
-      const imageDataUrl = canvasRefs.current[i]?.getImageWithBorders(selectAllMode[i]);
+      const imageDataUrl = canvasRefs.current[i]?.getImageWithBorders(
+        selectAllMode[i] || annotationTransport === "mask"
+      );
       if (!imageDataUrl) {
         setError(`Failed to prepare image ${i + 1}`);
         return;
       }
       imageDataUrls.push(imageDataUrl);
+      maskDataUrls.push(annotationTransport === "mask" ? (canvasRefs.current[i]?.getAnnotationLayer() ?? null) : null);
     }
 
     const abortController = new AbortController();
@@ -626,30 +786,39 @@ function EditView() {
     setError(null);
     setSelectedGenerationId(null);
     setCurrentPrompt(prompt);
+    setAutoRefineStatus(null);
 
-    const runId = uuidv7();
-
-    try {
-      console.log(
-        `[edit] Calling generateAttempts with count=${DEFAULT_IMAGES_PER_RUN} (DEFAULT_LLM_CALLS_PER_RUN=${DEFAULT_LLM_CALLS_PER_RUN})`
-      );
-      await generateAttempts(
-        DEFAULT_IMAGES_PER_RUN,
+    // One generation round; auto-refine rounds append to the thumbnail row and always judge
+    const runRound = (roundPrompt: string, refinementParent: RefinementParent | null) =>
+      generateAttempts(
+        imagesPerRun,
         imageDataUrls,
         selectedCells.map((cells) => Array.from(cells)),
-        prompt,
+        roundPrompt,
         selectedImages.map((img) => img.filename),
         gridRows,
         gridCols,
         judgeModelId,
+        generationModelId,
         selectAllMode,
-        runId,
-        false,
-        useJudges,
+        refinementParent !== null,
+        useJudges || generationSettings.autoRefine,
         coordinateMarkers,
-        annotationMode
+        annotationMode,
+        annotationTransport === "mask" ? maskDataUrls : null,
+        refinementParent
       );
 
+    try {
+      console.log(
+        `[edit] Calling generateAttempts with count=${imagesPerRun} (model=${generationModelId}, judge=${useJudges ? judgeModelId : "off"}, autoRefine=${generationSettings.autoRefine})`
+      );
+      if (generationSettings.autoRefine) {
+        await runAutoRefine(prompt, runRound, abortController.signal);
+      } else {
+        await runRound(prompt, null);
+      }
+
       setShowGrid(selectedImages.map(() => false));
       setShowMarkers(selectedImages.map(() => false));
       setError(null);
@@ -666,7 +835,80 @@ function EditView() {
     }
   };
 
+  // Regenerate with the best round's proposed prompt until the target score, round limit or budget stops it
+  const runAutoRefine = async (
+    initialPrompt: string,
+    runRound: (prompt: string, refinementParent: RefinementParent | null) => Promise<RoundResult>,
+    signal: AbortSignal
+  ) => {
+    const { autoRefineRounds, autoRefineTargetScore, autoRefineBudgetUsd } = generationSettings;
+    let roundPrompt = initialPrompt;
+    let refinementParent: RefinementParent | null = null;
+    let spentUsd = 0;
+
+    for (let round = 1; round <= autoRefineRounds; round++) {
+      setAutoRefineStatus(`Round ${round}/${autoRefineRounds} · $${spentUsd.toFixed(3)} spent`);
+      const { runId, outcomes: roundOutcomes, rankingCostUsd } = await runRound(roundPrompt, refinementParent);
+      if (signal.aborted) {
+        setAutoRefineStatus(`Cancelled after round ${round}`);
+        return;
+      }
+
+      const roundCostUsd = roundOutcomes.reduce((sum, outcome) => sum + outcome.costUsd, rankingCostUsd);
+      spentUsd += roundCostUsd;
+      const spent = `$${spentUsd.toFixed(3)} spent`;
+
+      const best = roundOutcomes
+        .filter((outcome) => outcome.score !== null)
+        .reduce<AttemptOutcome | null>((top, outcome) => {
+          if (!top || outcome.score! > top.score!) {
+            return outcome;
+          }
+          // Equal scores: the better pairwise rank wins
+          const isBetterRanked =
+            outcome.score === top.score &&
+            outcome.pairwiseRank !== null &&
+            (top.pairwiseRank === null || outcome.pairwiseRank < top.pairwiseRank);
+          return isBetterRanked ? outcome : top;
+        }, null);
+
+      if (!best) {
+        setAutoRefineStatus(`Stopped after round ${round}: no generation was judged · ${spent}`);
+        return;
+      }
+      if (best.score! >= autoRefineTargetScore) {
+        setAutoRefineStatus(`Reached ${best.score}/10 in round ${round} · ${spent}`);
+        return;
+      }
+      if (round === autoRefineRounds) {
+        setAutoRefineStatus(`Best ${best.score}/10 after ${round} rounds · ${spent}`);
+        return;
+      }
+      // Assume the next round costs about as much as this one
+      if (spentUsd + roundCostUsd > autoRefineBudgetUsd) {
+        setAutoRefineStatus(
+          `Stopped after round ${round}: next round would exceed $${autoRefineBudgetUsd.toFixed(2)} budget · ${spent}`
+        );
+        return;
+      }
+      if (!best.proposedPrompt) {
+        setAutoRefineStatus(`Stopped after round ${round}: judge proposed no new prompt · ${spent}`);
+        return;
+      }
+
+      roundPrompt = best.proposedPrompt;
+      refinementParent = { parentRunId: runId, parentGenerationId: best.generationId, round: round + 1 };
+      setCurrentPrompt(roundPrompt);
+    }
+  };
+
   const handleCancel = () => {
+    // Runs execute on the server, so stopping to wait for them isn't enough
+    activeRunIdsRef.current.forEach((runId) => {
+      fetch(`/api/runs/${runId}`, { method: "DELETE" }).catch((error) => {
+        console.error(`Failed to cancel run ${runId}:`, error);
+      });
+    });
     if (abortControllerRef.current) {
       abortControllerRef.current.abort();
     }
@@ -788,13 +1030,17 @@ function EditView() {
 
     // Get images with borders drawn (using original images)
     const imageDataUrls: string[] = [];
+    const maskDataUrls: Array<string | null> = [];
     for (let i = 0; i < selectedImages.length; i++) {
-      const imageDataUrl = canvasRefs.current[i]?.getImageWithBorders(selectAllMode[i]);
+      const imageDataUrl = canvasRefs.current[i]?.getImageWithBorders(
+        selectAllMode[i] || annotationTransport === "mask"
+      );
       if (!imageDataUrl) {
         setError(`Failed to prepare image ${i + 1}`);
         return;
       }
       imageDataUrls.push(imageDataUrl);
+      maskDataUrls.push(annotationTransport === "mask" ? (canvasRefs.current[i]?.getAnnotationLayer() ?? null) : null);
     }
 
     const abortController = new AbortController();
@@ -803,12 +1049,10 @@ function EditView() {
     setProcessing(true);
     setError(null);
 
-    const runId = uuidv7();
-
     try {
-      console.log(`[edit] Calling generateAttempts with count=${DEFAULT_IMAGES_PER_RUN} (appendToExisting=true)`);
+      console.log(`[edit] Calling generateAttempts with count=${imagesPerRun} (appendToExisting=true)`);
       await generateAttempts(
-        DEFAULT_IMAGES_PER_RUN,
+        imagesPerRun,
         imageDataUrls,
         selectedCells.map((cells) => Array.from(cells)),
         currentPrompt,
@@ -816,12 +1060,13 @@ function EditView() {
         gridRows,
         gridCols,
         judgeModelId,
+        generationModelId,
         selectAllMode,
-        runId,
         true, // appendToExisting
         useJudges,
         coordinateMarkers,
-        annotationMode
+        annotationMode,
+        annotationTransport === "mask" ? maskDataUrls : null
       );
 
       setError(null);
@@ -837,6 +1082,37 @@ function EditView() {
     }
   };
 
+  // Save the user's rating right away and roll it back if the server rejects it
+  const handleRateAttempt = async (attempt: GenerationAttempt, rating: HumanRatingInput) => {
+    if (!attempt.runId) {
+      return;
+    }
+    const previousRating = attempt.humanRating ?? null;
+    const optimisticRating =
+      rating.thumb === null && rating.score === null ? null : { ...rating, ratedAt: new Date().toISOString() };
+    const setRating = (humanRating: HumanRating | null) =>
+      setGenerationAttempts((prev) =>
+        prev.map((a) => (a.generationId === attempt.generationId ? { ...a, humanRating } : a))
+      );
+
+    setRating(optimisticRating);
+    try {
+      const response = await fetch(`/api/runs/${attempt.runId}/generations/${attempt.generationId}/rating`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(rating),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save rating");
+      }
+      setRating(data.humanRating);
+    } catch (error) {
+      console.error("Failed to save rating:", error);
+      setRating(previousRating);
+    }
+  };
+
   const handleRunProposedPrompt = async (proposedPrompt: string) => {
     if (!proposedPrompt.trim()) {
       setError("No proposed prompt available");
@@ -881,25 +1157,27 @@ function EditView() {
 
     // Get images with borders drawn (using base image from URL)
     const imageDataUrls: string[] = [];
+    const maskDataUrls: Array<string | null> = [];
     for (let i = 0; i < selectedImages.length; i++) {
-      const imageDataUrl = canvasRefs.current[i]?.getImageWithBorders(selectAllMode[i]);
+      const imageDataUrl = canvasRefs.current[i]?.getImageWithBorders(
+        selectAllMode[i] || annotationTransport === "mask"
+      );
       if (!imageDataUrl) {
         setError(`Failed to prepare image ${i + 1}`);
         setProcessing(false);
         return;
       }
       imageDataUrls.push(imageDataUrl);
+      maskDataUrls.push(annotationTransport === "mask" ? (canvasRefs.current[i]?.getAnnotationLayer() ?? null) : null);
     }
 
     const abortController = new AbortController();
     abortControllerRef.current = abortController;
 
-    const runId = uuidv7();
-
     try {
-      console.log(`[edit] Calling generateAttempts with count=${DEFAULT_IMAGES_PER_RUN} (proposedPrompt from judge)`);
+      console.log(`[edit] Calling generateAttempts with count=${imagesPerRun} (proposedPrompt from judge)`);
       await generateAttempts(
-        DEFAULT_IMAGES_PER_RUN,
+        imagesPerRun,
         imageDataUrls,
         selectedCells.map((cells) => Array.from(cells)),
         proposedPrompt,
@@ -907,12 +1185,13 @@ function EditView() {
         gridRows,
         gridCols,
         judgeModelId,
+        generationModelId,
         selectAllMode,
-        runId,
         false,
         useJudges,
         coordinateMarkers,
-        annotationMode
+        annotationMode,
+        annotationTransport === "mask" ? maskDataUrls : null
       );
 
       setShowGrid(selectedImages.map(() => false));
@@ -1113,21 +1392,6 @@ function EditView() {
                       Select All
                     </label>
                   </div>
-                  <div className="flex items-center gap-2 px-2 py-1 bg-gray-50 dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
-                    <input
-                      type="checkbox"
-                      id={`useJudges-${index}`}
-                      checked={useJudges}
-                      onChange={(e) => setUseJudges(e.target.checked)}
-                      className="w-4 h-4 text-blue-600 border-gray-300 dark:border-gray-600 rounded focus:ring-blue-500 dark:focus:ring-blue-400"
-                    />
-                    <label
-                      htmlFor={`useJudges-${index}`}
-                      className="text-xs font-medium text-gray-700 dark:text-gray-300 cursor-pointer"
-                    >
-                      Use Judges
-                    </label>
-                  </div>
                   {annotationMode[index] === "grid" && (
                     <>
                       {showGrid[index] ? (
@@ -1221,6 +1485,9 @@ function EditView() {
                   <div className="px-3 py-1.5 bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded text-xs text-gray-900 dark:text-gray-100 flex-1">
                     {currentPrompt}
                   </div>
+                  {autoRefineStatus && (
+                    <span className="text-xs text-gray-500 dark:text-gray-400 shrink-0">{autoRefineStatus}</span>
+                  )}
                   {processing && (
                     <button
                       onClick={handleCancel}
@@ -1268,11 +1535,24 @@ function EditView() {
                   hasSelectedCells={selectedCells[0]?.size > 0 || coordinateMarkers[0]?.length > 0}
                   promptError={error}
                   onRunProposedPrompt={handleRunProposedPrompt}
+                  onRateAttempt={handleRateAttempt}
                 />
               </div>
             )}
 
+            {selectedImages.length > 0 && (
+              <GenerationSettingsPanel
+                settings={generationSettings}
+                onSettingsChange={updateGenerationSettings}
+                annotationTransport={annotationTransport}
+                onAnnotationTransportChange={setAnnotationTransport}
+                disabled={processing}
+              />
+            )}
+
             <TokenUsageDisplay
+              generationModelId={generationModelId}
+              judgeModelId={judgeModelId}
               tokenUsage={tokenUsage}
               imageGenerationUsage={imageGenerationUsage}
               judgeUsage={judgeUsage}
@@ -1317,6 +1597,7 @@ function EditView() {
                     hasSelectedCells={selectedCells[0]?.size > 0 || coordinateMarkers[0]?.length > 0}
                     promptError={error}
                     onRunProposedPrompt={handleRunProposedPrompt}
+                    onRateAttempt={handleRateAttempt}
                   />
                 </div>
               </div>
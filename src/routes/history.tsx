@@ -1,22 +1,142 @@
-import { createFileRoute, Link } from "@tanstack/react-router";
+import { createFileRoute, Link, useNavigate } from "@tanstack/react-router";
+import { useEffect, useState } from "react";
+import type { RunSummary } from "../lib/storage/generation-runs";
+import { RunHistoryItem, getRunBestScore } from "../components/RunHistoryItem";
+import { Input } from "../components/ui/input";
+import { Label } from "../components/ui/label";
 
 export const Route = createFileRoute("/history")({
   component: History,
 });
 
+const MIN_SCORE_OPTIONS = [0, 5, 7, 9];
+
 function History() {
+  const navigate = useNavigate();
+  const [runs, setRuns] = useState<RunSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [promptQuery, setPromptQuery] = useState("");
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const [minScore, setMinScore] = useState(0);
+
+  useEffect(() => {
+    const loadRuns = async () => {
+      try {
+        const response = await fetch("/api/runs");
+        if (!response.ok) {
+          throw new Error("Failed to load runs");
+        }
+        const data = await response.json();
+        setRuns(data.runs || []);
+      } catch (err) {
+        console.error("Failed to load runs:", err);
+        setError("Failed to load history");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadRuns();
+  }, []);
+
+  const handleReopen = (run: RunSummary) => {
+    const imageIds = run.sourceImages.flatMap((image) => (image ? [image.id] : []));
+    navigate({
+      to: "/edit",
+      search: { images: imageIds, runId: run.runId },
+    });
+  };
+
+  // Date inputs are local calendar days; compare against the whole day
+  const fromTime = fromDate ? new Date(`${fromDate}T00:00:00`).getTime() : null;
+  const toTime = toDate ? new Date(`${toDate}T23:59:59.999`).getTime() : null;
+  const normalizedQuery = promptQuery.trim().toLowerCase();
+
+  const filteredRuns = runs.filter((run) => {
+    const createdTime = new Date(run.createdAt).getTime();
+    if (fromTime !== null && createdTime < fromTime) return false;
+    if (toTime !== null && createdTime > toTime) return false;
+    if (normalizedQuery && !run.prompt.toLowerCase().includes(normalizedQuery)) return false;
+    if (minScore > 0) {
+      const bestScore = getRunBestScore(run);
+      if (bestScore === null || bestScore < minScore) return false;
+    }
+    return true;
+  });
+
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-gray-900 p-8">
       <div className="max-w-7xl mx-auto">
         <div className="flex items-center justify-between mb-8">
           <h1 className="text-4xl font-bold text-gray-900 dark:text-gray-100">History</h1>
-          <Link to="/" className="px-4 py-2 bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors">
+          <Link
+            to="/"
+            className="px-4 py-2 bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+          >
             Back to Home
           </Link>
         </div>
-        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-8 text-center">
-          <p className="text-2xl text-gray-600 dark:text-gray-400">Coming soon</p>
+
+        <div className="flex flex-wrap items-end gap-4 mb-6">
+          <div className="flex flex-col gap-1.5 flex-1 min-w-60">
+            <Label htmlFor="history-prompt" className="text-xs text-gray-700 dark:text-gray-300">
+              Prompt
+            </Label>
+            <Input
+              id="history-prompt"
+              value={promptQuery}
+              onChange={(e) => setPromptQuery(e.target.value)}
+              placeholder="Search prompts..."
+            />
+          </div>
+          <div className="flex flex-col gap-1.5">
+            <Label htmlFor="history-from" className="text-xs text-gray-700 dark:text-gray-300">
+              From
+            </Label>
+            <Input id="history-from" type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+          </div>
+          <div className="flex flex-col gap-1.5">
+            <Label htmlFor="history-to" className="text-xs text-gray-700 dark:text-gray-300">
+              To
+            </Label>
+            <Input id="history-to" type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} />
+          </div>
+          <div className="flex flex-col gap-1.5">
+            <Label htmlFor="history-min-score" className="text-xs text-gray-700 dark:text-gray-300">
+              Best judge score
+            </Label>
+            <select
+              id="history-min-score"
+              value={minScore}
+              onChange={(e) => setMinScore(Number(e.target.value))}
+              className="h-9 rounded-md border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 px-3 text-sm text-gray-900 dark:text-gray-100"
+            >
+              {MIN_SCORE_OPTIONS.map((score) => (
+                <option key={score} value={score}>
+                  {score === 0 ? "Any" : `${score}+`}
+                </option>
+              ))}
+            </select>
+          </div>
         </div>
+
+        {loading ? (
+          <div className="text-gray-600 dark:text-gray-400">Loading history...</div>
+        ) : error ? (
+          <div className="text-sm text-red-600 dark:text-red-400">{error}</div>
+        ) : filteredRuns.length === 0 ? (
+          <div className="text-gray-500 dark:text-gray-400 text-sm">
+            {runs.length === 0 ? "No runs yet" : "No runs match the current filters"}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {filteredRuns.map((run) => (
+              <RunHistoryItem key={run.runId} run={run} onReopen={handleReopen} />
+            ))}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -1,7 +1,7 @@
 import { createFileRoute, useNavigate } from "@tanstack/react-router";
 import { useState } from "react";
 import { ImageUpload } from "../components/ImageUpload";
-import { ImageGallery } from "../components/ImageGallery";
+import { ImageGallery, type GalleryFilter } from "../components/ImageGallery";
 
 export const Route = createFileRoute("/")({
   component: Home,
@@ -9,7 +9,7 @@ export const Route = createFileRoute("/")({
 
 function Home() {
   const navigate = useNavigate();
-  const [filter, setFilter] = useState<"all" | "uploaded" | "generated" | "favorites">("all");
+  const [filter, setFilter] = useState<GalleryFilter>("all");
   const [refreshKey, setRefreshKey] = useState(0);
 
   const handleImageUploaded = (_url: string, _filename: string) => {
@@ -27,6 +27,13 @@ function Home() {
     });
   };
 
+  const handleShowLineage = (imageId: string) => {
+    navigate({
+      to: "/lineage/$imageId",
+      params: { imageId },
+    });
+  };
+
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-gray-900 p-8">
       <div className="max-w-7xl mx-auto">
@@ -37,6 +44,7 @@ function Home() {
             filter={filter}
             onFilterChange={setFilter}
             refreshKey={refreshKey}
+            onShowLineage={handleShowLineage}
           />
         </div>
       </div>
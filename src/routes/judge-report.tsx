@@ -0,0 +1,155 @@
+import { createFileRoute, Link } from "@tanstack/react-router";
+import { useEffect, useState } from "react";
+import type { EditType, HumanJudgeComparison, HumanJudgeReport } from "../lib/runs/human-judge-report";
+import { JUDGE_MODEL_SUMMARY } from "../utils/constants";
+
+export const Route = createFileRoute("/judge-report")({
+  component: JudgeReport,
+});
+
+const EDIT_TYPE_LABELS: Record<EditType, string> = {
+  grid: "Grid cells",
+  coords: "Coordinate markers",
+  selectAll: "Whole image",
+  multiImage: "Several images",
+};
+
+function formatValue(value: number | null, digits: number = 2): string {
+  return value === null ? "–" : value.toFixed(digits);
+}
+
+interface ComparisonTableProps {
+  title: string;
+  keyLabel: string; // Header of the first column
+  comparisons: HumanJudgeComparison[];
+  getLabel: (key: string) => string;
+}
+
+function ComparisonTable({ title, keyLabel, comparisons, getLabel }: ComparisonTableProps) {
+  return (
+    <div className="mb-8">
+      <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-3">{title}</h2>
+      {comparisons.length === 0 ? (
+        <div className="text-sm text-gray-500 dark:text-gray-400">No rated generations yet</div>
+      ) : (
+        <div className="overflow-x-auto rounded-lg border border-gray-200 dark:border-gray-700">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-100 dark:bg-gray-800 text-left text-xs text-gray-600 dark:text-gray-400">
+              <tr>
+                <th className="px-3 py-2 font-medium">{keyLabel}</th>
+                <th className="px-3 py-2 font-medium">Rated</th>
+                <th className="px-3 py-2 font-medium" title="Rank correlation of judge and human 1-10 scores">
+                  Spearman
+                </th>
+                <th className="px-3 py-2 font-medium">Pearson</th>
+                <th className="px-3 py-2 font-medium" title="Mean absolute difference from the human score">
+                  MAE
+                </th>
+                <th className="px-3 py-2 font-medium" title="Judge minus human; positive means the judge is lenient">
+                  Bias
+                </th>
+                <th className="px-3 py-2 font-medium" title="Mean judge score of thumbs-up / thumbs-down generations">
+                  Judge score up / down
+                </th>
+                <th className="px-3 py-2 font-medium" title="Share of thumbs the judge score agrees with">
+                  Thumb agreement
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700 text-gray-900 dark:text-gray-100">
+              {comparisons.map((comparison) => (
+                <tr key={comparison.key} className="bg-white dark:bg-gray-900">
+                  <td className="px-3 py-2 font-medium">{getLabel(comparison.key)}</td>
+                  <td className="px-3 py-2">
+                    {comparison.ratedCount}
+                    <span className="text-xs text-gray-500 dark:text-gray-400"> ({comparison.scoredCount} scored)</span>
+                  </td>
+                  <td className="px-3 py-2">{formatValue(comparison.spearman)}</td>
+                  <td className="px-3 py-2">{formatValue(comparison.pearson)}</td>
+                  <td className="px-3 py-2">{formatValue(comparison.meanAbsoluteError)}</td>
+                  <td className="px-3 py-2">{formatValue(comparison.meanBias)}</td>
+                  <td className="px-3 py-2">
+                    {formatValue(comparison.thumbsUpMeanJudgeScore, 1)} ({comparison.thumbsUpCount}) /{" "}
+                    {formatValue(comparison.thumbsDownMeanJudgeScore, 1)} ({comparison.thumbsDownCount})
+                  </td>
+                  <td className="px-3 py-2">
+                    {comparison.thumbAgreement === null ? "–" : `${Math.round(comparison.thumbAgreement * 100)}%`}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function JudgeReport() {
+  const [report, setReport] = useState<HumanJudgeReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadReport = async () => {
+      try {
+        const response = await fetch("/api/judge-report");
+        if (!response.ok) {
+          throw new Error("Failed to load judge report");
+        }
+        const data = await response.json();
+        setReport(data.report);
+      } catch (err) {
+        console.error("Failed to load judge report:", err);
+        setError("Failed to load judge report");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadReport();
+  }, []);
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 p-8">
+      <div className="max-w-7xl mx-auto">
+        <div className="flex items-center justify-between mb-8">
+          <h1 className="text-4xl font-bold text-gray-900 dark:text-gray-100">Judge vs. human ratings</h1>
+          <Link
+            to="/history"
+            className="px-4 py-2 bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+          >
+            Back to History
+          </Link>
+        </div>
+
+        {loading ? (
+          <div className="text-gray-600 dark:text-gray-400">Loading report...</div>
+        ) : error || !report ? (
+          <div className="text-sm text-red-600 dark:text-red-400">{error}</div>
+        ) : (
+          <>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mb-6">
+              {report.ratedGenerations} rated generation{report.ratedGenerations === 1 ? "" : "s"} with a judge score
+              {report.unjudgedRatings > 0 && ` (${report.unjudgedRatings} more rated but never judged)`}. Rate
+              variations in the edit view with thumbs and a 1-10 score. A judge score of {report.thumbsUpScore} or more
+              counts as agreeing with a thumbs-up.
+            </p>
+            <ComparisonTable
+              title="By judge model"
+              keyLabel="Judge model"
+              comparisons={report.byJudgeModel}
+              getLabel={(key) => JUDGE_MODEL_SUMMARY[key]?.name ?? key}
+            />
+            <ComparisonTable
+              title="By edit type"
+              keyLabel="Edit type"
+              comparisons={report.byEditType}
+              getLabel={(key) => EDIT_TYPE_LABELS[key as EditType] ?? key}
+            />
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,208 @@
+import { createFileRoute, Link } from "@tanstack/react-router";
+import { useEffect, useState } from "react";
+import { ArrowLeft, Edit } from "lucide-react";
+import type { LineageNode } from "../lib/storage/image-lineage";
+import type { Image } from "../utils/storage";
+import { GENERATION_MODEL_SUMMARY } from "../utils/constants";
+
+export const Route = createFileRoute("/lineage/$imageId")({
+  component: Lineage,
+});
+
+function formatDate(value: string | undefined): string {
+  return value ? new Date(value).toLocaleString() : "";
+}
+
+// Thumbnail card of one image in the tree, linking to that image's own lineage
+function LineageCard({ node }: { node: LineageNode }) {
+  const { image } = node;
+  if (!image) {
+    return (
+      <div className="w-40 shrink-0 rounded-lg border border-dashed border-gray-300 dark:border-gray-600 p-2 text-xs text-gray-500 dark:text-gray-400">
+        Missing image
+        <div className="truncate font-mono text-[10px]">{node.imageId}</div>
+      </div>
+    );
+  }
+
+  return (
+    <Link
+      to="/lineage/$imageId"
+      params={{ imageId: image.id }}
+      className="w-40 shrink-0 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 p-1.5 hover:border-blue-400 dark:hover:border-blue-500 transition-colors"
+    >
+      <div className="relative aspect-square rounded overflow-hidden bg-gray-100 dark:bg-gray-900">
+        <img src={image.url} alt={image.filename} className="w-full h-full object-cover" />
+        {image.deletedAt && (
+          <div className="absolute top-1 left-1 px-1.5 py-0.5 rounded bg-red-600 text-white text-[10px]">Deleted</div>
+        )}
+        {image.lineage?.judgeScore != null && (
+          <div className="absolute top-1 right-1 px-1.5 py-0.5 rounded bg-black/70 text-white text-[10px] font-semibold">
+            {image.lineage.judgeScore}/10
+          </div>
+        )}
+      </div>
+      <div className="mt-1 text-[10px] text-gray-600 dark:text-gray-300 line-clamp-2" title={image.lineage?.prompt}>
+        {image.lineage ? image.lineage.prompt : image.type === "uploaded" ? "Uploaded" : "Generated"}
+      </div>
+    </Link>
+  );
+}
+
+// Nested tree: each node with its parents (ancestors) or children (descendants) indented below it
+function LineageBranch({ nodes, direction }: { nodes: LineageNode[]; direction: "parents" | "children" }) {
+  return (
+    <div className="space-y-3">
+      {nodes.map((node, index) => {
+        const next = node[direction] ?? [];
+        return (
+          <div key={`${node.imageId}-${index}`}>
+            <LineageCard node={node} />
+            {next.length > 0 && (
+              <div className="ml-6 mt-3 pl-4 border-l-2 border-gray-200 dark:border-gray-700">
+                <LineageBranch nodes={next} direction={direction} />
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+function LineageDetails({ image }: { image: Image }) {
+  const { lineage } = image;
+  const rows: Array<[string, string]> = [
+    ["Type", image.type === "uploaded" ? "Uploaded" : "Generated"],
+    ["Created", formatDate(image.createdAt)],
+  ];
+  if (lineage) {
+    rows.push(
+      ["Prompt", lineage.prompt],
+      ["Model", GENERATION_MODEL_SUMMARY[lineage.generationModelId]?.name ?? lineage.generationModelId],
+      ["Judge score", lineage.judgeScore != null ? `${lineage.judgeScore}/10` : "Not judged"],
+      ["Run", lineage.runId]
+    );
+  } else if (image.type === "generated") {
+    rows.push(["Lineage", "Not recorded (generated before lineage was tracked)"]);
+  }
+
+  return (
+    <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1.5 text-sm">
+      {rows.map(([label, value]) => (
+        <div key={label} className="contents">
+          <dt className="text-gray-500 dark:text-gray-400">{label}</dt>
+          <dd className="text-gray-900 dark:text-gray-100 break-words">{value}</dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
+
+function Lineage() {
+  const { imageId } = Route.useParams();
+  const [lineage, setLineage] = useState<LineageNode | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadLineage = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await fetch(`/api/images/${imageId}/lineage`);
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to load lineage");
+        }
+        setLineage(data.lineage);
+      } catch (err) {
+        console.error("Failed to load lineage:", err);
+        setError(err instanceof Error ? err.message : "Failed to load lineage");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadLineage();
+  }, [imageId]);
+
+  const image = lineage?.image;
+  const parents = lineage?.parents ?? [];
+  const children = lineage?.children ?? [];
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 p-8">
+      <div className="max-w-7xl mx-auto">
+        <div className="flex items-center justify-between mb-8">
+          <h1 className="text-4xl font-bold text-gray-900 dark:text-gray-100">Lineage</h1>
+          <Link
+            to="/"
+            className="px-4 py-2 bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors flex items-center gap-2"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            Back to Gallery
+          </Link>
+        </div>
+
+        {loading ? (
+          <div className="text-gray-600 dark:text-gray-400">Loading lineage...</div>
+        ) : error || !image ? (
+          <div className="text-sm text-red-600 dark:text-red-400">{error}</div>
+        ) : (
+          <div className="space-y-8">
+            <div className="flex flex-wrap gap-6 items-start">
+              <img
+                src={image.url}
+                alt={image.filename}
+                className="w-80 max-w-full rounded-lg border border-gray-200 dark:border-gray-700"
+              />
+              <div className="flex-1 min-w-64 space-y-4">
+                <LineageDetails image={image} />
+                <div className="flex gap-2">
+                  <Link
+                    to="/edit"
+                    search={{ images: [image.id] }}
+                    className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors flex items-center gap-1.5"
+                  >
+                    <Edit className="w-4 h-4" />
+                    Edit this image
+                  </Link>
+                  {image.lineage && image.lineage.parentImageIds.length > 0 && (
+                    <Link
+                      to="/edit"
+                      search={{ images: image.lineage.parentImageIds, runId: image.lineage.runId }}
+                      className="px-3 py-1.5 text-sm bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+                    >
+                      Open run
+                    </Link>
+                  )}
+                </div>
+              </div>
+            </div>
+
+            <section>
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-3">Made from</h2>
+              {parents.length === 0 ? (
+                <div className="text-sm text-gray-500 dark:text-gray-400">
+                  {image.type === "uploaded" ? "Uploaded image (no sources)" : "No recorded sources"}
+                </div>
+              ) : (
+                <LineageBranch nodes={parents} direction="parents" />
+              )}
+            </section>
+
+            <section>
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-3">Made from this image</h2>
+              {children.length === 0 ? (
+                <div className="text-sm text-gray-500 dark:text-gray-400">No generated images yet</div>
+              ) : (
+                <LineageBranch nodes={children} direction="children" />
+              )}
+            </section>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
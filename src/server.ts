@@ -0,0 +1,11 @@
+import handler, { createServerEntry } from '@tanstack/react-start/server-entry'
+import { startTrashAutoPurge } from './lib/storage/trash'
+
+// Server entry: background jobs start once with the server, then every request goes to TanStack Start
+startTrashAutoPurge()
+
+export default createServerEntry({
+  fetch(request) {
+    return handler.fetch(request)
+  },
+})
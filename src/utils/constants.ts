@@ -4,10 +4,12 @@ export const DEFAULT_GENERATION_MODEL_ID = "gemini-3.1-flash-image-preview";
 
 export const DEFAULT_JUDGE_MODEL_ID = "gemini-3-pro-preview";
 // export const DEFAULT_JUDGE_MODEL_ID = "gemini-2.5-flash";
+// import.meta.env only exists under Vite; scripts run with plain Node (tsx) get the defaults
+const viteEnv: Partial<ImportMetaEnv> = import.meta.env ?? {};
 export const IMAGES_PER_LLM_CALL = 1;
-export const DEFAULT_LLM_CALLS_PER_RUN = Number(import.meta.env.VITE_DEFAULT_LLM_CALLS_PER_RUN) || 1;
+export const DEFAULT_LLM_CALLS_PER_RUN = Number(viteEnv.VITE_DEFAULT_LLM_CALLS_PER_RUN) || 1;
 export const DEFAULT_IMAGES_PER_RUN = DEFAULT_LLM_CALLS_PER_RUN * IMAGES_PER_LLM_CALL;
-export const USE_JUDGES = import.meta.env.VITE_USE_JUDGES === "true" || import.meta.env.VITE_USE_JUDGES === "1";
+export const USE_JUDGES = viteEnv.VITE_USE_JUDGES === "true" || viteEnv.VITE_USE_JUDGES === "1";
 export const SEND_COORDINATES_AS_TEXT = false; // If false, only render markers visually and tell LLM to remove them
 export const MIN_LLM_CALLS_PER_RUN = 1;
 export const MAX_LLM_CALLS_PER_RUN = 10;
@@ -15,7 +17,29 @@ export const MAX_IMAGE_WIDTH = 1024;
 export const MAX_IMAGE_HEIGHT = 1024;
 export const JUDGE_THUMBNAIL_MAX_WIDTH = 320;
 export const JUDGE_THUMBNAIL_MAX_HEIGHT = 320;
+export const THUMBNAIL_WIDTHS = [128, 320, 640]; // WebP variants served by /api/images/$filename?w=
 export const MAX_SELECTED_IMAGES = 5;
+export const MAX_BATCH_IMAGES = 500; // Bulk gallery actions; caps one metadata write and one ZIP
+export const DEFAULT_AUTO_REFINE_ROUNDS = 3;
+export const MAX_AUTO_REFINE_ROUNDS = 10;
+export const DEFAULT_AUTO_REFINE_TARGET_SCORE = 9;
+export const DEFAULT_AUTO_REFINE_BUDGET_USD = 1;
+export const DEFAULT_MASK_FEATHER_PX = 8; // Feather radius when compositing model output onto the original
+export const MAX_MASK_FEATHER_PX = 64;
+
+// How a judge ensemble's scores combine into the generation's score
+export type JudgeAggregation = "mean" | "median" | "min";
+export const JUDGE_AGGREGATIONS: JudgeAggregation[] = ["mean", "median", "min"];
+export const DEFAULT_JUDGE_AGGREGATION: JudgeAggregation = "mean";
+export const JUDGE_DISAGREEMENT_THRESHOLD = 3; // Score spread (max - min) at which ensemble judges disagree
+
+// Built-in judge rubric (custom rubrics are stored as JSON in data/rubrics)
+export const DEFAULT_JUDGE_RUBRIC_ID = "default";
+
+// How selections reach the generation model: drawn into the image ("burned-in") or sent as a separate mask/marker layer
+export type AnnotationTransport = "burned-in" | "mask";
+export const DEFAULT_ANNOTATION_TRANSPORT: AnnotationTransport =
+  viteEnv.VITE_ANNOTATION_TRANSPORT === "mask" ? "mask" : "burned-in";
 
 export type ModelProvider = "google" | "openai";
 export type ModelKind = "generation" | "judge";
@@ -90,6 +114,28 @@ const MODEL_SUMMARY_LIST: readonly ModelSummary[] = [
       outputPerMillionTokens: 120.0, // $120 per 1M tokens
     },
   },
+  {
+    id: "gemini-3.1-flash-image-preview",
+    name: "Gemini 3.1 Flash Image Preview",
+    provider: "google",
+    kind: "generation",
+    pricing: {
+      inputPerMillionTokens: 0.5,
+      cachedInputPerMillionTokens: 0,
+      outputPerMillionTokens: 60.0,
+    },
+  },
+  {
+    id: "gpt-image-1",
+    name: "GPT Image 1",
+    provider: "openai",
+    kind: "generation",
+    pricing: {
+      inputPerMillionTokens: 10.0, // Image input rate (text input is $5 per 1M tokens)
+      cachedInputPerMillionTokens: 2.5,
+      outputPerMillionTokens: 40.0,
+    },
+  },
 ];
 
 export const MODEL_SUMMARY = Object.fromEntries(
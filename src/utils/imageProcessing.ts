@@ -13,8 +13,15 @@ export function getCellCoordinates(cellIds: string[]): CellCoordinates[] {
   });
 }
 
-export function getCellBounds(cells: CellCoordinates[], imageWidth: number, imageHeight: number, gridSize: number = 6) {
-  const cellWidth = imageWidth / gridSize;
+// gridSize is the number of rows; pass gridCols for grids that aren't square
+export function getCellBounds(
+  cells: CellCoordinates[],
+  imageWidth: number,
+  imageHeight: number,
+  gridSize: number = 6,
+  gridCols: number = gridSize
+) {
+  const cellWidth = imageWidth / gridCols;
   const cellHeight = imageHeight / gridSize;
 
   const minRow = Math.min(...cells.map((c) => c.row));
@@ -153,3 +160,44 @@ export async function resizeImageForJudge(imageBuffer: Buffer): Promise<Buffer>
 
   return thumbnailBuffer;
 }
+
+// A rectangle in fractions of the image size (0-1), so it applies to the image at any resolution
+export interface NormalizedRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Crops a region out of an image at its own resolution, then scales the crop down to fit within
+ * maxDimension (never up). Used to show the judge the selected area in detail.
+ *
+ * @param imageBuffer - The image to crop
+ * @param region - The area to crop, in fractions of the image size
+ * @param maxDimension - Longest side of the returned crop in pixels
+ * @returns The cropped image (PNG format)
+ */
+export async function cropRegionForJudge(
+  imageBuffer: Buffer,
+  region: NormalizedRegion,
+  maxDimension: number
+): Promise<Buffer> {
+  const metadata = await sharp(imageBuffer).metadata();
+  const width = metadata.width || 0;
+  const height = metadata.height || 0;
+
+  const left = Math.max(0, Math.floor(region.x * width));
+  const top = Math.max(0, Math.floor(region.y * height));
+  const cropWidth = Math.max(1, Math.min(width - left, Math.ceil(region.width * width)));
+  const cropHeight = Math.max(1, Math.min(height - top, Math.ceil(region.height * height)));
+
+  return sharp(imageBuffer)
+    .extract({ left, top, width: cropWidth, height: cropHeight })
+    .resize(maxDimension, maxDimension, {
+      fit: "inside",
+      withoutEnlargement: true,
+    })
+    .png()
+    .toBuffer();
+}
@@ -0,0 +1,167 @@
+import sharp from "sharp";
+import { describe, expect, it } from "vitest";
+import { compositeWithSelectionMask, createMarkerMask, createSelectionMask } from "./maskCompositing";
+
+const WIDTH = 40;
+const HEIGHT = 40;
+
+// Whether pixel (x, y) lies in cell "0-0" of a 2x2 grid over the test image
+const inFirstCell = (x: number, y: number) => x < WIDTH / 2 && y < HEIGHT / 2;
+
+// PNG whose pixels all differ, so a copied pixel can't match by accident
+async function createNoiseImage(channels: 3 | 4): Promise<Buffer> {
+  const pixels = Buffer.alloc(WIDTH * HEIGHT * channels);
+  for (let i = 0; i < pixels.length; i++) {
+    pixels[i] = (i * 37 + 11) % 256;
+  }
+  return sharp(pixels, { raw: { width: WIDTH, height: HEIGHT, channels } })
+    .png()
+    .toBuffer();
+}
+
+function createSolidImage(color: { r: number; g: number; b: number }): Promise<Buffer> {
+  return sharp({ create: { width: WIDTH, height: HEIGHT, channels: 3, background: color } })
+    .png()
+    .toBuffer();
+}
+
+async function toRaw(image: Buffer) {
+  const { data, info } = await sharp(image).raw().toBuffer({ resolveWithObject: true });
+  return { data, channels: info.channels };
+}
+
+describe("createSelectionMask", () => {
+  it("marks exactly the selected cells with a hard edge", async () => {
+    const mask = await createSelectionMask(WIDTH, HEIGHT, ["0-0"], 2, 2);
+
+    for (let y = 0; y < HEIGHT; y++) {
+      for (let x = 0; x < WIDTH; x++) {
+        expect(mask[y * WIDTH + x]).toBe(inFirstCell(x, y) ? 255 : 0);
+      }
+    }
+  });
+
+  it("covers adjacent cells without gaps when the size doesn't divide evenly", async () => {
+    const mask = await createSelectionMask(
+      10,
+      10,
+      ["0-0", "0-1", "0-2", "1-0", "1-1", "1-2", "2-0", "2-1", "2-2"],
+      3,
+      3
+    );
+
+    expect(mask.every((value) => value === 255)).toBe(true);
+  });
+
+  it("ignores cells outside the grid", async () => {
+    const mask = await createSelectionMask(WIDTH, HEIGHT, ["2-0", "0-2", "5-5"], 2, 2);
+
+    expect(mask.every((value) => value === 0)).toBe(true);
+  });
+
+  it("never feathers past the selection edge", async () => {
+    const mask = await createSelectionMask(WIDTH, HEIGHT, ["0-0"], 2, 2, 8);
+
+    let softened = 0;
+    for (let y = 0; y < HEIGHT; y++) {
+      for (let x = 0; x < WIDTH; x++) {
+        const value = mask[y * WIDTH + x];
+        if (!inFirstCell(x, y)) {
+          expect(value).toBe(0);
+        } else if (value < 255) {
+          softened++;
+        }
+      }
+    }
+    // The feather fades the inside of the edge; the image border isn't an edge of the selection
+    expect(softened).toBeGreaterThan(0);
+    expect(mask[(HEIGHT / 2 - 1) * WIDTH + (WIDTH / 2 - 1)]).toBeLessThan(255);
+    expect(mask[0]).toBeGreaterThan(0);
+  });
+});
+
+describe("createMarkerMask", () => {
+  it("covers a disc around each point", async () => {
+    // Radius 0.1 of the 40px side: 4px around the point at (10, 10)
+    const mask = await createMarkerMask(WIDTH, HEIGHT, { points: [{ x: 0.25, y: 0.25 }], lines: [] }, 0.1);
+
+    expect(mask).toHaveLength(WIDTH * HEIGHT);
+    expect(mask[10 * WIDTH + 10]).toBe(255);
+    expect(mask[10 * WIDTH + 12]).toBe(255);
+    expect(mask[10 * WIDTH + 16]).toBe(0);
+    expect(mask[30 * WIDTH + 30]).toBe(0);
+  });
+
+  it("covers a band along each line", async () => {
+    const mask = await createMarkerMask(
+      WIDTH,
+      HEIGHT,
+      { points: [], lines: [{ x1: 0.25, y1: 0.5, x2: 0.75, y2: 0.5 }] },
+      0.1
+    );
+
+    expect(mask[20 * WIDTH + 20]).toBe(255);
+    expect(mask[18 * WIDTH + 28]).toBe(255);
+    expect(mask[10 * WIDTH + 20]).toBe(0);
+  });
+
+  it("is empty without markers", async () => {
+    const mask = await createMarkerMask(WIDTH, HEIGHT, { points: [], lines: [] }, 0.1);
+
+    expect(mask.every((value) => value === 0)).toBe(true);
+  });
+});
+
+describe("compositeWithSelectionMask", () => {
+  it.each([
+    { channels: 3 as const, feather: 0 },
+    { channels: 3 as const, feather: 6 },
+    { channels: 4 as const, feather: 6 },
+  ])(
+    "keeps pixels outside the selection byte-identical ($channels channels, feather $feather)",
+    async ({ channels, feather }) => {
+      const original = await createNoiseImage(channels);
+      const generated = await createSolidImage({ r: 255, g: 0, b: 0 });
+
+      const composited = await compositeWithSelectionMask(original, generated, ["0-0"], 2, 2, feather);
+      const before = await toRaw(original);
+      const after = await toRaw(composited);
+
+      expect(after.channels).toBe(before.channels);
+      for (let y = 0; y < HEIGHT; y++) {
+        for (let x = 0; x < WIDTH; x++) {
+          if (inFirstCell(x, y)) continue;
+          const offset = (y * WIDTH + x) * channels;
+          expect(after.data.subarray(offset, offset + channels)).toEqual(
+            before.data.subarray(offset, offset + channels)
+          );
+        }
+      }
+    }
+  );
+
+  it("takes the generated pixels inside a hard-edged selection", async () => {
+    const original = await createNoiseImage(3);
+    const generated = await createSolidImage({ r: 255, g: 0, b: 0 });
+
+    const { data } = await toRaw(await compositeWithSelectionMask(original, generated, ["0-0"], 2, 2));
+
+    for (let y = 0; y < HEIGHT / 2; y++) {
+      for (let x = 0; x < WIDTH / 2; x++) {
+        const offset = (y * WIDTH + x) * 3;
+        expect([data[offset], data[offset + 1], data[offset + 2]]).toEqual([255, 0, 0]);
+      }
+    }
+  });
+
+  it("resizes the generated image to the original's dimensions", async () => {
+    const original = await createNoiseImage(3);
+    const generated = await sharp({ create: { width: 17, height: 23, channels: 3, background: "#00ff00" } })
+      .png()
+      .toBuffer();
+
+    const metadata = await sharp(await compositeWithSelectionMask(original, generated, ["1-1"], 2, 2)).metadata();
+
+    expect([metadata.width, metadata.height]).toEqual([WIDTH, HEIGHT]);
+  });
+});
@@ -0,0 +1,145 @@
+import sharp from "sharp";
+import { getCellCoordinates } from "./imageProcessing";
+
+/**
+ * Builds a single-channel selection mask (255 = selected, 0 = untouched) for the given grid cells.
+ * Feathering softens the mask towards the inside of the selection only, so pixels outside the
+ * selected cells always stay at 0.
+ *
+ * @param width - Mask width in pixels (should match the image being composited)
+ * @param height - Mask height in pixels
+ * @param selectedCells - Cell IDs in "row-col" format
+ * @param gridRows - Number of grid rows the cells refer to
+ * @param gridCols - Number of grid columns the cells refer to
+ * @param featherPx - Feather radius in pixels (0 for a hard edge)
+ * @returns Raw 8-bit mask pixels (width * height bytes)
+ */
+export async function createSelectionMask(
+  width: number,
+  height: number,
+  selectedCells: string[],
+  gridRows: number,
+  gridCols: number,
+  featherPx: number = 0
+): Promise<Buffer> {
+  const mask = Buffer.alloc(width * height, 0);
+  const cellWidth = width / gridCols;
+  const cellHeight = height / gridRows;
+
+  for (const { row, col } of getCellCoordinates(selectedCells)) {
+    if (row < 0 || row >= gridRows || col < 0 || col >= gridCols) continue;
+
+    // Round both edges so adjacent cells share a boundary without gaps or overlap
+    const x0 = Math.round(col * cellWidth);
+    const x1 = Math.round((col + 1) * cellWidth);
+    const y0 = Math.round(row * cellHeight);
+    const y1 = Math.round((row + 1) * cellHeight);
+    for (let y = y0; y < y1; y++) {
+      mask.fill(255, y * width + x0, y * width + x1);
+    }
+  }
+
+  if (featherPx <= 0) {
+    return mask;
+  }
+
+  // Blur the hard mask, then clamp it back to the selection so the feather never leaks outside
+  const blurred = await sharp(mask, { raw: { width, height, channels: 1 } })
+    .blur(Math.max(0.3, featherPx / 2))
+    .extractChannel(0) // sharp expands single-channel raw input to sRGB
+    .raw()
+    .toBuffer();
+  for (let i = 0; i < mask.length; i++) {
+    mask[i] = Math.min(mask[i], blurred[i]);
+  }
+  return mask;
+}
+
+// Coordinate markers in fractions of the image size (0-1), so they apply to the image at any resolution
+export interface NormalizedMarkers {
+  points: Array<{ x: number; y: number }>;
+  lines: Array<{ x1: number; y1: number; x2: number; y2: number }>;
+}
+
+/**
+ * Builds a single-channel mask (255 = selected, 0 = untouched) covering the area around coordinate markers:
+ * a disc around each point and a band of the same radius along each line. Markers point at a place rather
+ * than outline it, so the radius decides how much of the surroundings may change.
+ *
+ * @param width - Mask width in pixels
+ * @param height - Mask height in pixels
+ * @param markers - Points and lines in fractions of the image size
+ * @param radius - Radius around each marker, as a fraction of the image's shorter side
+ * @returns Raw 8-bit mask pixels (width * height bytes)
+ */
+export async function createMarkerMask(
+  width: number,
+  height: number,
+  markers: NormalizedMarkers,
+  radius: number
+): Promise<Buffer> {
+  const radiusPx = radius * Math.min(width, height);
+  const shapes = [
+    ...markers.points.map(({ x, y }) => `<circle cx="${x * width}" cy="${y * height}" r="${radiusPx}" />`),
+    ...markers.lines.map(
+      ({ x1, y1, x2, y2 }) =>
+        `<line x1="${x1 * width}" y1="${y1 * height}" x2="${x2 * width}" y2="${y2 * height}" stroke-width="${radiusPx * 2}" stroke-linecap="round" />`
+    ),
+  ];
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}"><rect width="100%" height="100%" fill="black" /><g fill="white" stroke="white">${shapes.join("")}</g></svg>`;
+
+  return sharp(Buffer.from(svg)).extractChannel(0).raw().toBuffer();
+}
+
+/**
+ * Composites a generated image onto the clean original through a selection mask.
+ * The generated image is resized to the original's dimensions first; wherever the mask is 0
+ * the output is pixel-identical to the original.
+ *
+ * @param originalImageBuffer - The unannotated original image
+ * @param generatedImageBuffer - The model output
+ * @param selectedCells - Cell IDs in "row-col" format
+ * @param gridRows - Number of grid rows the cells refer to
+ * @param gridCols - Number of grid columns the cells refer to
+ * @param featherPx - Feather radius in pixels (0 for a hard edge)
+ * @returns The composited image (PNG format)
+ */
+export async function compositeWithSelectionMask(
+  originalImageBuffer: Buffer,
+  generatedImageBuffer: Buffer,
+  selectedCells: string[],
+  gridRows: number,
+  gridCols: number,
+  featherPx: number = 0
+): Promise<Buffer> {
+  const { hasAlpha } = await sharp(originalImageBuffer).metadata();
+  const { data: original, info } = await sharp(originalImageBuffer)
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const { width, height } = info;
+
+  const generated = await sharp(generatedImageBuffer)
+    .resize(width, height, { fit: "fill" })
+    .ensureAlpha()
+    .raw()
+    .toBuffer();
+
+  const mask = await createSelectionMask(width, height, selectedCells, gridRows, gridCols, featherPx);
+
+  // Blend per pixel in integer space; mask 0 copies the original bytes untouched
+  const output = Buffer.from(original);
+  for (let pixel = 0; pixel < mask.length; pixel++) {
+    const weight = mask[pixel];
+    if (weight === 0) continue;
+    const offset = pixel * 4;
+    for (let channel = 0; channel < 4; channel++) {
+      const index = offset + channel;
+      output[index] = Math.round((generated[index] * weight + original[index] * (255 - weight)) / 255);
+    }
+  }
+
+  const composited = sharp(output, { raw: { width, height, channels: 4 } });
+  // Keep the original's channel layout so untouched pixels stay byte-for-byte identical
+  return (hasAlpha ? composited : composited.removeAlpha()).png().toBuffer();
+}
@@ -0,0 +1,121 @@
+import sharp from "sharp";
+import { describe, expect, it } from "vitest";
+import { computePixelDiffMetrics } from "./pixelMetrics";
+
+const SIZE = 40;
+
+type Color = [number, number, number];
+
+// PNG filled with `background`, with optional rectangles painted over it
+async function createImage(
+  background: Color,
+  rects: Array<{ x0: number; y0: number; x1: number; y1: number; color: Color }> = []
+): Promise<Buffer> {
+  const pixels = Buffer.alloc(SIZE * SIZE * 3);
+  for (let y = 0; y < SIZE; y++) {
+    for (let x = 0; x < SIZE; x++) {
+      const rect = rects.find((r) => x >= r.x0 && x < r.x1 && y >= r.y0 && y < r.y1);
+      pixels.set(rect?.color ?? background, (y * SIZE + x) * 3);
+    }
+  }
+  return sharp(pixels, { raw: { width: SIZE, height: SIZE, channels: 3 } })
+    .png()
+    .toBuffer();
+}
+
+const GRAY: Color = [128, 128, 128];
+const WHITE: Color = [255, 255, 255];
+const ANNOTATION_BLUE: Color = [59, 130, 246];
+
+describe("computePixelDiffMetrics", () => {
+  it("reports no change for identical images", async () => {
+    const image = await createImage(GRAY);
+
+    const metrics = await computePixelDiffMetrics(image, image, ["0-0"], 2, 2);
+
+    expect(metrics.cells).toHaveLength(4);
+    expect(metrics.inside).toEqual({ meanAbsDiff: 0, ssim: 1, changedPixelRatio: 0 });
+    expect(metrics.outside).toEqual({ meanAbsDiff: 0, ssim: 1, changedPixelRatio: 0 });
+    expect(metrics.blueBorderPixelRatio).toBe(0);
+    expect(metrics.blueBorderDetected).toBe(false);
+  });
+
+  it("measures a change confined to the selected cell", async () => {
+    const original = await createImage(GRAY);
+    const generated = await createImage(GRAY, [{ x0: 0, y0: 0, x1: 20, y1: 20, color: WHITE }]);
+
+    const metrics = await computePixelDiffMetrics(original, generated, ["0-0"], 2, 2);
+
+    // Every pixel of the cell moved from 128 to 255 on all channels
+    expect(metrics.inside).toEqual({ meanAbsDiff: 0.498, ssim: expect.any(Number), changedPixelRatio: 1 });
+    expect(metrics.inside!.ssim).toBeLessThan(1);
+    expect(metrics.outside).toEqual({ meanAbsDiff: 0, ssim: 1, changedPixelRatio: 0 });
+    expect(metrics.cells.find((cell) => cell.cellId === "0-0")).toMatchObject({ selected: true, meanAbsDiff: 0.498 });
+    expect(metrics.cells.find((cell) => cell.cellId === "1-1")).toMatchObject({ selected: false, meanAbsDiff: 0 });
+  });
+
+  it("counts the share of changed pixels per region", async () => {
+    const original = await createImage(GRAY);
+    // A quarter of cell 1-1 (unselected) changes
+    const generated = await createImage(GRAY, [{ x0: 20, y0: 20, x1: 30, y1: 30, color: WHITE }]);
+
+    const metrics = await computePixelDiffMetrics(original, generated, ["0-0"], 2, 2);
+
+    expect(metrics.inside!.changedPixelRatio).toBe(0);
+    // 100 of the 1200 pixels in the three unselected cells
+    expect(metrics.outside!.changedPixelRatio).toBe(0.0833);
+  });
+
+  it("ignores changes below the threshold when counting changed pixels", async () => {
+    const original = await createImage(GRAY);
+    const generated = await createImage([140, 140, 140]);
+
+    const metrics = await computePixelDiffMetrics(original, generated, ["0-0"], 2, 2);
+
+    expect(metrics.inside!.changedPixelRatio).toBe(0);
+    expect(metrics.inside!.meanAbsDiff).toBe(0.0471);
+  });
+
+  it("detects annotation blue left along the selection outline", async () => {
+    const original = await createImage(GRAY);
+    // The editor's border around cell 0-0, drawn into the generation
+    const generated = await createImage(GRAY, [
+      { x0: 0, y0: 18, x1: 22, y1: 22, color: ANNOTATION_BLUE },
+      { x0: 18, y0: 0, x1: 22, y1: 22, color: ANNOTATION_BLUE },
+    ]);
+
+    const metrics = await computePixelDiffMetrics(original, generated, ["0-0"], 2, 2);
+
+    expect(metrics.blueBorderPixelRatio).toBeGreaterThan(0.02);
+    expect(metrics.blueBorderDetected).toBe(true);
+  });
+
+  it("doesn't count blue that was already in the original", async () => {
+    const image = await createImage(ANNOTATION_BLUE);
+
+    const metrics = await computePixelDiffMetrics(image, image, ["0-0"], 2, 2);
+
+    expect(metrics.blueBorderPixelRatio).toBe(0);
+    expect(metrics.blueBorderDetected).toBe(false);
+  });
+
+  it("has no outside region or outline in select-all mode", async () => {
+    const image = await createImage(GRAY);
+
+    const metrics = await computePixelDiffMetrics(image, image, [], 2, 2, true);
+
+    expect(metrics.cells.every((cell) => cell.selected)).toBe(true);
+    expect(metrics.outside).toBeNull();
+    expect(metrics.blueBorderPixelRatio).toBeNull();
+    expect(metrics.blueBorderDetected).toBeNull();
+  });
+
+  it("has no inside region or outline when nothing was selected", async () => {
+    const image = await createImage(GRAY);
+
+    const metrics = await computePixelDiffMetrics(image, image, [], 2, 2);
+
+    expect(metrics.inside).toBeNull();
+    expect(metrics.blueBorderPixelRatio).toBeNull();
+  });
+});
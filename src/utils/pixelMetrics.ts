@@ -0,0 +1,251 @@
+import sharp from "sharp";
+import { getCellCoordinates } from "./imageProcessing";
+
+// A pixel counts as changed when its mean channel difference exceeds this (0-255 scale)
+const CHANGED_PIXEL_THRESHOLD = 24;
+// Share of pixels along the selection outline that must be annotation blue to report a leftover border
+const BLUE_BORDER_DETECTION_RATIO = 0.02;
+
+// SSIM stabilisers for 8-bit luminance: C1 = (0.01 * 255)^2, C2 = (0.03 * 255)^2
+const SSIM_C1 = (0.01 * 255) ** 2;
+const SSIM_C2 = (0.03 * 255) ** 2;
+
+export interface CellPixelMetrics {
+  cellId: string; // "row-col"
+  selected: boolean;
+  meanAbsDiff: number; // Mean absolute RGB difference, 0 (identical) to 1
+  ssim: number; // Structural similarity of the cell's luminance, 1 = identical
+}
+
+export interface RegionPixelMetrics {
+  meanAbsDiff: number;
+  ssim: number; // Mean of the region's cell scores
+  changedPixelRatio: number; // Share of pixels whose difference exceeds CHANGED_PIXEL_THRESHOLD
+}
+
+export interface PixelDiffMetrics {
+  width: number; // Dimensions the comparison ran at (the original's)
+  height: number;
+  gridRows: number;
+  gridCols: number;
+  cells: CellPixelMetrics[];
+  inside: RegionPixelMetrics | null; // Selected cells; null when nothing was selected
+  outside: RegionPixelMetrics | null; // Unselected cells; null in select-all mode
+  blueBorderPixelRatio: number | null; // Share of the selection outline that turned annotation blue; null without an outline
+  blueBorderDetected: boolean | null;
+}
+
+interface RegionAccumulator {
+  absDiff: number;
+  changedPixels: number;
+  pixels: number;
+  ssimTotal: number;
+  cells: number;
+}
+
+function toLuminance(r: number, g: number, b: number): number {
+  return 0.299 * r + 0.587 * g + 0.114 * b;
+}
+
+// Matches the rgb(59, 130, 246) the editor draws selection borders with, allowing for compression and blending
+function isAnnotationBlue(r: number, g: number, b: number): boolean {
+  return b >= 170 && b - r >= 100 && b - g >= 50;
+}
+
+function round(value: number, digits: number = 4): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function toRegionMetrics(region: RegionAccumulator): RegionPixelMetrics | null {
+  if (region.pixels === 0) {
+    return null;
+  }
+  return {
+    meanAbsDiff: round(region.absDiff / (region.pixels * 3 * 255)),
+    ssim: round(region.ssimTotal / region.cells),
+    changedPixelRatio: round(region.changedPixels / region.pixels),
+  };
+}
+
+/**
+ * Compares a generated image against the clean original, cell by cell.
+ * Reports per-cell change (mean absolute difference and an SSIM-style score over the whole cell),
+ * summaries inside and outside the selection, and whether annotation-blue pixels were left along
+ * the selection outline. The generated image is resized to the original's dimensions first.
+ *
+ * @param originalImageBuffer - The unannotated original image
+ * @param generatedImageBuffer - The generation to measure
+ * @param selectedCells - Cell IDs in "row-col" format (empty in select-all mode)
+ * @param gridRows - Number of grid rows the cells refer to
+ * @param gridCols - Number of grid columns the cells refer to
+ * @param selectAllMode - Whether the whole image was selected
+ */
+export async function computePixelDiffMetrics(
+  originalImageBuffer: Buffer,
+  generatedImageBuffer: Buffer,
+  selectedCells: string[],
+  gridRows: number,
+  gridCols: number,
+  selectAllMode: boolean = false
+): Promise<PixelDiffMetrics> {
+  const { data: original, info } = await sharp(originalImageBuffer)
+    .removeAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const { width, height } = info;
+  const generated = await sharp(generatedImageBuffer)
+    .resize(width, height, { fit: "fill" })
+    .removeAlpha()
+    .raw()
+    .toBuffer();
+
+  const selected = new Set(
+    getCellCoordinates(selectedCells)
+      .filter(({ row, col }) => row >= 0 && row < gridRows && col >= 0 && col < gridCols)
+      .map(({ row, col }) => `${row}-${col}`)
+  );
+  const isSelected = (row: number, col: number) => selectAllMode || selected.has(`${row}-${col}`);
+
+  const cellWidth = width / gridCols;
+  const cellHeight = height / gridRows;
+  const emptyRegion = (): RegionAccumulator => ({ absDiff: 0, changedPixels: 0, pixels: 0, ssimTotal: 0, cells: 0 });
+  const inside = emptyRegion();
+  const outside = emptyRegion();
+  const cells: CellPixelMetrics[] = [];
+
+  for (let row = 0; row < gridRows; row++) {
+    for (let col = 0; col < gridCols; col++) {
+      // Round both edges so adjacent cells share a boundary, as the selection mask does
+      const x0 = Math.round(col * cellWidth);
+      const x1 = Math.round((col + 1) * cellWidth);
+      const y0 = Math.round(row * cellHeight);
+      const y1 = Math.round((row + 1) * cellHeight);
+      const pixels = (x1 - x0) * (y1 - y0);
+      if (pixels === 0) continue;
+
+      let absDiff = 0;
+      let changedPixels = 0;
+      let sumA = 0;
+      let sumB = 0;
+      let sumAA = 0;
+      let sumBB = 0;
+      let sumAB = 0;
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) {
+          const offset = (y * width + x) * 3;
+          const pixelDiff =
+            Math.abs(original[offset] - generated[offset]) +
+            Math.abs(original[offset + 1] - generated[offset + 1]) +
+            Math.abs(original[offset + 2] - generated[offset + 2]);
+          absDiff += pixelDiff;
+          if (pixelDiff / 3 > CHANGED_PIXEL_THRESHOLD) changedPixels++;
+
+          const a = toLuminance(original[offset], original[offset + 1], original[offset + 2]);
+          const b = toLuminance(generated[offset], generated[offset + 1], generated[offset + 2]);
+          sumA += a;
+          sumB += b;
+          sumAA += a * a;
+          sumBB += b * b;
+          sumAB += a * b;
+        }
+      }
+
+      // Single-window SSIM over the cell's luminance
+      const meanA = sumA / pixels;
+      const meanB = sumB / pixels;
+      const varianceA = sumAA / pixels - meanA * meanA;
+      const varianceB = sumBB / pixels - meanB * meanB;
+      const covariance = sumAB / pixels - meanA * meanB;
+      const ssim =
+        ((2 * meanA * meanB + SSIM_C1) * (2 * covariance + SSIM_C2)) /
+        ((meanA * meanA + meanB * meanB + SSIM_C1) * (varianceA + varianceB + SSIM_C2));
+
+      const cellSelected = isSelected(row, col);
+      const region = cellSelected ? inside : outside;
+      region.absDiff += absDiff;
+      region.changedPixels += changedPixels;
+      region.pixels += pixels;
+      region.ssimTotal += ssim;
+      region.cells++;
+
+      cells.push({
+        cellId: `${row}-${col}`,
+        selected: cellSelected,
+        meanAbsDiff: round(absDiff / (pixels * 3 * 255)),
+        ssim: round(ssim),
+      });
+    }
+  }
+
+  const blueBorderPixelRatio = selectAllMode
+    ? null
+    : measureBlueOutline(original, generated, width, height, selected, cellWidth, cellHeight);
+
+  return {
+    width,
+    height,
+    gridRows,
+    gridCols,
+    cells,
+    inside: toRegionMetrics(inside),
+    outside: toRegionMetrics(outside),
+    blueBorderPixelRatio,
+    blueBorderDetected: blueBorderPixelRatio === null ? null : blueBorderPixelRatio >= BLUE_BORDER_DETECTION_RATIO,
+  };
+}
+
+/**
+ * Share of pixels in a band along the selection outline that are annotation blue in the generated
+ * image but not in the original (so blue already in the scene is not counted). The outline follows
+ * the same edges the editor strokes: cell sides that don't border another selected cell.
+ */
+function measureBlueOutline(
+  original: Buffer,
+  generated: Buffer,
+  width: number,
+  height: number,
+  selected: Set<string>,
+  cellWidth: number,
+  cellHeight: number
+): number | null {
+  if (selected.size === 0) {
+    return null;
+  }
+
+  // The exported border is about 1% of the shorter side wide; sample a band a little wider
+  const halfBand = Math.max(2, Math.round(Math.min(width, height) * 0.01));
+  const band = new Uint8Array(width * height);
+  const markRect = (x0: number, y0: number, x1: number, y1: number) => {
+    for (let y = Math.max(0, y0); y < Math.min(height, y1); y++) {
+      band.fill(1, y * width + Math.max(0, x0), y * width + Math.min(width, x1));
+    }
+  };
+
+  selected.forEach((cellId) => {
+    const [row, col] = cellId.split("-").map(Number);
+    const x0 = Math.round(col * cellWidth);
+    const x1 = Math.round((col + 1) * cellWidth);
+    const y0 = Math.round(row * cellHeight);
+    const y1 = Math.round((row + 1) * cellHeight);
+    if (!selected.has(`${row - 1}-${col}`)) markRect(x0, y0 - halfBand, x1, y0 + halfBand);
+    if (!selected.has(`${row + 1}-${col}`)) markRect(x0, y1 - halfBand, x1, y1 + halfBand);
+    if (!selected.has(`${row}-${col - 1}`)) markRect(x0 - halfBand, y0, x0 + halfBand, y1);
+    if (!selected.has(`${row}-${col + 1}`)) markRect(x1 - halfBand, y0, x1 + halfBand, y1);
+  });
+
+  let bandPixels = 0;
+  let bluePixels = 0;
+  for (let pixel = 0; pixel < band.length; pixel++) {
+    if (band[pixel] === 0) continue;
+    bandPixels++;
+    const offset = pixel * 3;
+    if (
+      isAnnotationBlue(generated[offset], generated[offset + 1], generated[offset + 2]) &&
+      !isAnnotationBlue(original[offset], original[offset + 1], original[offset + 2])
+    ) {
+      bluePixels++;
+    }
+  }
+  return bandPixels === 0 ? null : round(bluePixels / bandPixels);
+}
@@ -1,11 +1,22 @@
 import { promises as fs } from "fs";
 import path from "path";
 import { uuidv7 } from "uuidv7";
+import { readImageMetadata, transactImageMetadata } from "~/lib/storage/image-metadata-store";
+import { deleteImageVariants } from "~/lib/storage/image-variants";
 
 const DATA_DIR = path.join(process.cwd(), "data");
 const IMAGES_DIR = path.join(DATA_DIR, "images");
 const ANNOTATED_DIR = path.join(DATA_DIR, "annotated");
-const INDEX_FILE = path.join(IMAGES_DIR, "index.json");
+
+// Where a generated image came from, so it can be traced back to its sources and run
+export interface ImageLineage {
+  parentImageIds: string[]; // Source images the run edited
+  runId: string;
+  generationId: string;
+  prompt: string; // The user's prompt, without the cell or coordinate details added for the model
+  generationModelId: string;
+  judgeScore?: number | null; // Set once the generation is judged
+}
 
 export interface ImageMetadata {
   filename: string;
@@ -13,6 +24,9 @@ export interface ImageMetadata {
   createdAt: string;
   deletedAt?: string | null;
   favoritedAt?: string | null;
+  lineage?: ImageLineage; // Generated images saved before lineage was recorded have none
+  tags?: string[];
+  album?: string | null; // Album name; an image is in at most one album
 }
 
 export interface ImageIndex {
@@ -28,6 +42,9 @@ export interface Image {
   createdAt?: string;
   deletedAt?: string | null;
   favoritedAt?: string | null;
+  lineage?: ImageLineage;
+  tags?: string[];
+  album?: string | null;
 }
 
 // Ensure directories exist
@@ -51,6 +68,9 @@ function createImageFromMetadata(id: string, metadata: ImageMetadata): Image {
     createdAt: metadata.createdAt,
     deletedAt: metadata.deletedAt,
     favoritedAt: metadata.favoritedAt,
+    lineage: metadata.lineage,
+    tags: metadata.tags,
+    album: metadata.album,
   };
 }
 
@@ -65,39 +85,28 @@ export function createImageFromFilename(filename: string, type: "uploaded" | "ge
   };
 }
 
-// Read JSON index file
+// Image metadata lives in the transactional store (lib/storage/image-metadata-store)
 async function readIndex(): Promise<ImageIndex> {
-  try {
-    await ensureDirectories();
-    const indexContent = await fs.readFile(INDEX_FILE, "utf-8");
-    return JSON.parse(indexContent);
-  } catch (error) {
-    // If index doesn't exist, return empty object
-    return {};
-  }
-}
-
-// Write JSON index file
-async function writeIndex(index: ImageIndex): Promise<void> {
   await ensureDirectories();
-  await fs.writeFile(INDEX_FILE, JSON.stringify(index, null, 2));
+  return readImageMetadata();
 }
 
-// Batch add multiple images to index at once
+// Batch add multiple images to index at once (one transaction)
 export async function addImagesToIndex(
-  images: Array<{ filename: string; type: "uploaded" | "generated" }>
+  images: Array<{ filename: string; type: "uploaded" | "generated"; lineage?: ImageLineage }>
 ): Promise<void> {
-  const index = await readIndex();
+  await ensureDirectories();
   const now = new Date().toISOString();
-  for (const { filename, type } of images) {
-    const id = getImageId(filename);
-    index[id] = {
-      filename,
-      type,
-      createdAt: now,
-    };
-  }
-  await writeIndex(index);
+  await transactImageMetadata((index) => {
+    for (const { filename, type, lineage } of images) {
+      index.put(getImageId(filename), {
+        filename,
+        type,
+        createdAt: now,
+        ...(lineage ? { lineage } : {}),
+      });
+    }
+  });
 }
 
 export async function saveUploadedImage(file: File): Promise<string> {
@@ -146,6 +155,11 @@ export async function getImage(filename: string): Promise<Buffer> {
   return fs.readFile(filepath);
 }
 
+export async function getAnnotatedImage(filename: string): Promise<Buffer> {
+  await ensureDirectories();
+  return fs.readFile(path.join(ANNOTATED_DIR, path.basename(filename)));
+}
+
 export async function getAllImages(): Promise<ImageIndex> {
   return readIndex();
 }
@@ -173,21 +187,87 @@ export async function updateImageMetadata(
   id: string,
   updates: { deletedAt?: string | null; favoritedAt?: string | null }
 ): Promise<Image | null> {
-  const index = await readIndex();
-  const metadata = index[id];
-  if (!metadata) return null;
+  await ensureDirectories();
+  // Read and write in one transaction so concurrent updates of the same image don't overwrite each other
+  const metadata = await transactImageMetadata((index) => {
+    const current = index.get(id);
+    if (!current) return null;
 
-  // Update the metadata
-  if (updates.deletedAt !== undefined) {
-    metadata.deletedAt = updates.deletedAt;
-  }
-  if (updates.favoritedAt !== undefined) {
-    metadata.favoritedAt = updates.favoritedAt;
-  }
+    const updated = { ...current };
+    if (updates.deletedAt !== undefined) {
+      updated.deletedAt = updates.deletedAt;
+    }
+    if (updates.favoritedAt !== undefined) {
+      updated.favoritedAt = updates.favoritedAt;
+    }
+    index.put(id, updated);
+    return updated;
+  });
 
-  // Save the updated index
-  index[id] = metadata;
-  await writeIndex(index);
+  return metadata ? createImageFromMetadata(id, metadata) : null;
+}
 
-  return createImageFromMetadata(id, metadata);
+// Record the judge score of a generated image's generation; images without lineage are left alone
+export async function setImageLineageJudgeScore(id: string, judgeScore: number | null): Promise<void> {
+  await ensureDirectories();
+  await transactImageMetadata((index) => {
+    const metadata = index.get(id);
+    if (!metadata?.lineage) return;
+    index.put(id, { ...metadata, lineage: { ...metadata.lineage, judgeScore } });
+  });
+}
+
+/**
+ * Apply one change to many images in a single transaction. The update returns the new metadata,
+ * or the current metadata unchanged to skip an image. Returns every image found (changed or not), the IDs not in
+ * the index, and how many images actually changed.
+ */
+export async function updateImagesMetadata(
+  ids: string[],
+  update: (metadata: ImageMetadata) => ImageMetadata
+): Promise<{ images: Image[]; missingIds: string[]; updatedCount: number }> {
+  await ensureDirectories();
+  return transactImageMetadata((index) => {
+    const images: Image[] = [];
+    const missingIds: string[] = [];
+    let updatedCount = 0;
+    for (const id of new Set(ids)) {
+      const current = index.get(id);
+      if (!current) {
+        missingIds.push(id);
+        continue;
+      }
+      const updated = update(current);
+      if (updated !== current) {
+        index.put(id, updated);
+        updatedCount++;
+      }
+      images.push(createImageFromMetadata(id, updated));
+    }
+    return { images, missingIds, updatedCount };
+  });
+}
+
+// Permanently remove trashed images: their index entries, then their files and thumbnail variants.
+// Images not in the trash are skipped.
+export async function purgeImages(ids: string[]): Promise<string[]> {
+  await ensureDirectories();
+  const purged = await transactImageMetadata((index) =>
+    ids.flatMap((id) => {
+      const metadata = index.get(id);
+      if (!metadata?.deletedAt) return [];
+      index.delete(id);
+      return [{ id, filename: metadata.filename }];
+    })
+  );
+
+  await Promise.all(
+    purged.map(({ filename }) =>
+      Promise.all([
+        fs.rm(path.join(IMAGES_DIR, path.basename(filename)), { force: true }),
+        deleteImageVariants(filename),
+      ])
+    )
+  );
+  return purged.map(({ id }) => id);
 }
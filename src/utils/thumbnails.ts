@@ -0,0 +1,15 @@
+import { THUMBNAIL_WIDTHS } from "./constants";
+
+// Smallest variant at least as wide as requested; null when only the full-size image is that wide
+export function getThumbnailWidth(requestedWidth: number): number | null {
+  return THUMBNAIL_WIDTHS.find((width) => width >= requestedWidth) ?? null;
+}
+
+// URL of a smaller WebP variant of a stored image. Other URLs (blobs, data URLs, annotated images) are returned unchanged
+export function getThumbnailUrl(url: string, width: number): string {
+  if (!url.startsWith("/api/images/")) {
+    return url;
+  }
+  const variantWidth = getThumbnailWidth(width);
+  return variantWidth === null ? url : `${url}?w=${variantWidth}`;
+}